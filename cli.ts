@@ -0,0 +1,146 @@
+import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, join, relative, resolve, sep } from "node:path";
+import { BatchInput, CaseEntry, ImportIssue, buildXLSX, caseJSON, caseTables, formatIssue, loadBatch, tableToCSV } from "./main";
+
+// --- Command Line ---
+// XML・CSV 形式届書・ZIP・フォルダを受け取り、案件ごとに CSV / XLSX / JSON を書き出す。
+// 使い方: egov-xml [--format csv|xlsx|json] [--out 出力先] 入力...
+// 解析できない・判別できないファイルがあれば一覧を表示して終了コード 1、引数や入出力の誤りは 2 で終了する。
+
+type OutputFormat = 'csv' | 'xlsx' | 'json';
+
+interface CliOptions {
+    format: OutputFormat;
+    outDir: string;
+    inputs: string[];
+}
+
+const USAGE = `使い方: egov-xml [--format csv|xlsx|json] [--out 出力先フォルダ] <XML・CSV・ZIP・フォルダ>...
+  --format  出力形式（既定: csv）。csv はファイルごと、xlsx・json は案件ごとに1ファイル
+  --out     出力先フォルダ（既定: ./out）`;
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UsageError";
+    }
+}
+
+const parseArgs = (args: string[]): CliOptions => {
+    const opts: CliOptions = { format: 'csv', outDir: "out", inputs: [] };
+    for (let i = 0; i < args.length; i++) {
+        const a = args[i];
+        const value = () => {
+            const v = args[++i];
+            if (v === undefined) throw new UsageError(`${a} には値が必要です`);
+            return v;
+        };
+        if (a === '--format' || a === '-f') {
+            const v = value();
+            if (v !== 'csv' && v !== 'xlsx' && v !== 'json') throw new UsageError(`未対応の出力形式です: ${v}`);
+            opts.format = v;
+        } else if (a === '--out' || a === '-o') opts.outDir = value();
+        else if (a.startsWith('-')) throw new UsageError(`不明なオプションです: ${a}`);
+        else opts.inputs.push(a);
+    }
+    if (opts.inputs.length === 0) throw new UsageError("入力ファイルを指定してください");
+    return opts;
+};
+
+const isInputPath = (p: string) => /\.(xml|csv|xslt?|zip)$/i.test(p);
+
+// 区切り文字を "/" にそろえる（案件名は先頭フォルダ名で決まる）
+const toEntryPath = (p: string) => p.split(sep).join('/');
+
+const walk = async (dir: string): Promise<string[]> => {
+    const found: string[] = [];
+    for (const d of await readdir(dir, { withFileTypes: true })) {
+        const full = join(dir, d.name);
+        if (d.isDirectory()) found.push(...await walk(full));
+        else if (d.isFile() && isInputPath(d.name)) found.push(full);
+    }
+    return found;
+};
+
+// フォルダ指定ではフォルダ名を案件名とし、単体の XML・CSV は "一括" 案件にまとめる。
+// 名前を指定された未対応のファイルは読み飛ばさず、確認が必要な項目として返す
+const collectInputs = async (paths: string[]): Promise<{ inputs: BatchInput[], issues: ImportIssue[] }> => {
+    const inputs: BatchInput[] = [];
+    const issues: ImportIssue[] = [];
+    for (const p of paths) {
+        const full = resolve(p);
+        if ((await stat(full)).isDirectory()) {
+            for (const f of (await walk(full)).sort()) {
+                const rel = toEntryPath(relative(dirname(full), f));
+                inputs.push({ path: /\.zip$/i.test(f) ? basename(f) : rel, bytes: await readFile(f) });
+            }
+        } else if (!isInputPath(full)) {
+            issues.push({ path: p, kind: 'unrecognized', message: "対応していない形式のファイルです（XML・CSV・XSL・ZIP のみ読み込みます）" });
+        } else {
+            const name = basename(full);
+            inputs.push({ path: /\.zip$/i.test(name) ? name : `一括/${name}`, bytes: await readFile(full) });
+        }
+    }
+    return { inputs, issues };
+};
+
+// ファイル名に使えない文字を置き換える
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').trim() || "_";
+
+const writeOutputs = async (opts: CliOptions, cases: CaseEntry[]): Promise<string[]> => {
+    const written: string[] = [];
+    const put = async (path: string, data: string | Uint8Array) => {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, data);
+        written.push(path);
+    };
+    for (const c of cases) {
+        const folder = safeName(c.folderName);
+        if (opts.format === 'json') {
+            await put(join(opts.outDir, `${folder}.json`), JSON.stringify(caseJSON(c), null, 2));
+            continue;
+        }
+        const tables = caseTables(c);
+        if (tables.length === 0) continue;
+        if (opts.format === 'xlsx') await put(join(opts.outDir, `${folder}.xlsx`), await buildXLSX(tables));
+        else for (const t of tables) await put(join(opts.outDir, folder, `${safeName(t.name)}.csv`), "\uFEFF" + tableToCSV(t));
+    }
+    return written;
+};
+
+const main = async (): Promise<number> => {
+    let opts: CliOptions;
+    try {
+        opts = parseArgs(process.argv.slice(2));
+    } catch (err: any) {
+        if (!(err instanceof UsageError)) throw err;
+        console.error(`${err.message}\n\n${USAGE}`);
+        return 2;
+    }
+    let collected: { inputs: BatchInput[], issues: ImportIssue[] };
+    try {
+        collected = await collectInputs(opts.inputs);
+    } catch (err: any) {
+        console.error(`入力を読み込めません: ${err?.message || err}`);
+        return 2;
+    }
+    const { cases, issues: loadIssues } = await loadBatch(collected.inputs);
+    const issues = [...collected.issues, ...loadIssues];
+    try {
+        const written = await writeOutputs(opts, cases);
+        const fileCount = cases.reduce((s, c) => s + c.files.length, 0);
+        console.log(`${cases.length}案件・${fileCount}ファイルを読み込み、${written.length}ファイルを出力しました（${resolve(opts.outDir)}）`);
+    } catch (err: any) {
+        console.error(`出力に失敗しました: ${err?.message || err}`);
+        return 2;
+    }
+    if (issues.length === 0) return 0;
+    console.error(`\n確認が必要な項目: ${issues.length}件`);
+    issues.forEach(i => console.error(`  ${formatIssue(i)}`));
+    return 1;
+};
+
+main().then(code => { process.exitCode = code; }, err => {
+    console.error(err?.stack || err);
+    process.exitCode = 2;
+});
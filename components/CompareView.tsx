@@ -0,0 +1,148 @@
+import { AppFile, CaseEntry } from "../types";
+import { hasPersonRows } from "../services/docTypeService";
+import { FIELD_DIFF_LABELS, FieldDiff, ROW_DIFF_LABELS, RowDiff, RowDiffStatus, FieldDiffStatus, diffFields, diffNoticeRows } from "../services/diffService";
+import { escapeHTML } from "../utils";
+
+// --- Compare Mode ---
+// 任意の2ファイルを選んで、通知書同士なら被保険者行の増減、それ以外は全項目の差分を表示する。
+
+export interface FileRef {
+    ci: number;
+    fi: number;
+}
+
+export interface CompareState {
+    left: FileRef | null;
+    right: FileRef | null;
+    mode: 'rows' | 'fields';
+    hideUnchanged: boolean;
+}
+
+const ROW_STATUS_CLASS: Record<RowDiffStatus, string> = {
+    added: "bg-emerald-100 text-emerald-800",
+    removed: "bg-rose-100 text-rose-800",
+    up: "bg-amber-100 text-amber-800",
+    down: "bg-sky-100 text-sky-800",
+    mixed: "bg-violet-100 text-violet-800",
+    unchanged: "bg-slate-100 text-slate-500"
+};
+
+const FIELD_STATUS_CLASS: Record<FieldDiffStatus, string> = {
+    added: "bg-emerald-100 text-emerald-800",
+    removed: "bg-rose-100 text-rose-800",
+    changed: "bg-amber-100 text-amber-800",
+    unchanged: "bg-slate-100 text-slate-500"
+};
+
+export const getFileByRef = (cases: CaseEntry[], ref: FileRef | null): AppFile | undefined =>
+    ref ? cases[ref.ci]?.files[ref.fi] : undefined;
+
+export const isNoticeFile = (f?: AppFile) => hasPersonRows(f?.analysis);
+
+// 行比較は両方が通知書のときだけ選べる
+export const effectiveCompareMode = (cases: CaseEntry[], st: CompareState): 'rows' | 'fields' =>
+    st.mode === 'rows' && isNoticeFile(getFileByRef(cases, st.left)) && isNoticeFile(getFileByRef(cases, st.right)) ? 'rows' : 'fields';
+
+export const computeCompare = (cases: CaseEntry[], st: CompareState): { rows?: RowDiff[], fields?: FieldDiff[] } => {
+    const l = getFileByRef(cases, st.left);
+    const r = getFileByRef(cases, st.right);
+    if (!l || !r) return {};
+    if (effectiveCompareMode(cases, st) === 'rows') return { rows: diffNoticeRows(l.analysis!, r.analysis!) };
+    if (!l.parsed || !r.parsed) return {};
+    return { fields: diffFields(l.parsed, r.parsed) };
+};
+
+const fileSelect = (id: string, cases: CaseEntry[], ref: FileRef | null) => `
+    <select id="${id}" class="border rounded-lg px-3 py-2 text-[12px] font-bold w-full">
+        <option value="">ファイルを選択</option>
+        ${cases.map((c, ci) => `<optgroup label="${escapeHTML(c.folderName)}">${c.files.map((f, fi) =>
+            `<option value="${ci}:${fi}" ${ref && ref.ci === ci && ref.fi === fi ? 'selected' : ''}>${escapeHTML(f.name)}${f.analysis ? `（${escapeHTML(f.analysis.title)}）` : ''}</option>`).join('')}</optgroup>`).join('')}
+    </select>`;
+
+const yen = (v?: number) => v === undefined ? '<span class="text-slate-300">-</span>' : `${v.toLocaleString()}円`;
+const delta = (v: number) => v === 0 ? '<span class="text-slate-300">±0</span>'
+    : `<span class="${v > 0 ? 'text-rose-600' : 'text-blue-600'} font-bold">${v > 0 ? '+' : ''}${v.toLocaleString()}</span>`;
+
+const renderSummaryChips = <S extends string>(items: { status: S }[], labels: Record<S, string>, classes: Record<S, string>) => {
+    const counts = new Map<S, number>();
+    items.forEach(i => counts.set(i.status, (counts.get(i.status) || 0) + 1));
+    return (Object.keys(labels) as S[]).map(s =>
+        `<span class="px-3 py-1 rounded-full text-[11px] font-black ${classes[s]}">${labels[s]} ${counts.get(s) || 0}</span>`).join('');
+};
+
+const renderRowDiffTable = (diffs: RowDiff[], hideUnchanged: boolean) => {
+    const shown = hideUnchanged ? diffs.filter(d => d.status !== 'unchanged') : diffs;
+    return `
+        <div class="flex gap-2 mb-4">${renderSummaryChips(diffs, ROW_DIFF_LABELS, ROW_STATUS_CLASS)}</div>
+        <table class="w-full text-[12px] border border-slate-200">
+            <thead class="bg-slate-800 text-white"><tr>
+                <th class="px-3 py-2 text-left w-20">区分</th><th class="px-3 py-2 text-left w-20">整理番号</th><th class="px-3 py-2 text-left">氏名</th>
+                <th class="px-3 py-2 text-right">変更前 健保</th><th class="px-3 py-2 text-right">変更後 健保</th><th class="px-3 py-2 text-right">増減</th>
+                <th class="px-3 py-2 text-right">変更前 厚年</th><th class="px-3 py-2 text-right">変更後 厚年</th><th class="px-3 py-2 text-right">増減</th>
+            </tr></thead>
+            <tbody class="divide-y divide-slate-100">
+                ${shown.length === 0 ? '<tr><td colspan="9" class="px-3 py-8 text-center text-slate-400">差分はありません</td></tr>' : shown.map(d => `<tr>
+                    <td class="px-3 py-2"><span class="px-2 py-0.5 rounded font-black text-[10px] ${ROW_STATUS_CLASS[d.status]}">${ROW_DIFF_LABELS[d.status]}</span></td>
+                    <td class="px-3 py-2 font-mono">${escapeHTML(d.insuredNo)}</td>
+                    <td class="px-3 py-2 font-bold">${escapeHTML(d.name)}${d.matchedBy === 'name' ? ' <span class="text-[10px] text-amber-600 font-bold">（氏名で照合）</span>' : ''}</td>
+                    <td class="px-3 py-2 text-right font-mono">${yen(d.before?.health)}</td>
+                    <td class="px-3 py-2 text-right font-mono">${yen(d.after?.health)}</td>
+                    <td class="px-3 py-2 text-right font-mono">${delta(d.deltaHealth)}</td>
+                    <td class="px-3 py-2 text-right font-mono">${yen(d.before?.pension)}</td>
+                    <td class="px-3 py-2 text-right font-mono">${yen(d.after?.pension)}</td>
+                    <td class="px-3 py-2 text-right font-mono">${delta(d.deltaPension)}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>`;
+};
+
+const renderFieldDiffTable = (diffs: FieldDiff[], hideUnchanged: boolean) => {
+    const shown = hideUnchanged ? diffs.filter(d => d.status !== 'unchanged') : diffs;
+    const val = (v?: string) => v === undefined ? '<span class="text-slate-300">-</span>' : v === "" ? '<span class="text-slate-300">（空）</span>' : escapeHTML(v);
+    return `
+        <div class="flex gap-2 mb-4">${renderSummaryChips(diffs, FIELD_DIFF_LABELS, FIELD_STATUS_CLASS)}</div>
+        <table class="w-full text-[12px] border border-slate-200">
+            <thead class="bg-slate-800 text-white"><tr>
+                <th class="px-3 py-2 text-left w-16">区分</th><th class="px-3 py-2 text-left w-[40%]">パス</th><th class="px-3 py-2 text-left">変更前</th><th class="px-3 py-2 text-left">変更後</th>
+            </tr></thead>
+            <tbody class="divide-y divide-slate-100">
+                ${shown.length === 0 ? '<tr><td colspan="4" class="px-3 py-8 text-center text-slate-400">差分はありません</td></tr>' : shown.map(d => `<tr>
+                    <td class="px-3 py-2"><span class="px-2 py-0.5 rounded font-black text-[10px] ${FIELD_STATUS_CLASS[d.status]}">${FIELD_DIFF_LABELS[d.status]}</span></td>
+                    <td class="px-3 py-2 font-mono break-all text-slate-600">${escapeHTML(d.path)}</td>
+                    <td class="px-3 py-2 break-all ${d.status === 'changed' || d.status === 'removed' ? 'text-rose-700' : ''}">${val(d.before)}</td>
+                    <td class="px-3 py-2 break-all ${d.status === 'changed' || d.status === 'added' ? 'text-emerald-700 font-bold' : ''}">${val(d.after)}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>`;
+};
+
+export const renderCompareView = (cases: CaseEntry[], st: CompareState) => {
+    const mode = effectiveCompareMode(cases, st);
+    const bothNotice = isNoticeFile(getFileByRef(cases, st.left)) && isNoticeFile(getFileByRef(cases, st.right));
+    const result = computeCompare(cases, st);
+    const body = result.rows ? renderRowDiffTable(result.rows, st.hideUnchanged)
+        : result.fields ? renderFieldDiffTable(result.fields, st.hideUnchanged)
+        : '<div class="text-center py-16 text-slate-400">比較する2つのファイルを選択してください（XMLを解析できたファイルのみ比較できます）</div>';
+    return `
+        <div class="bg-white w-[1200px] mx-auto p-10 rounded-3xl shadow-xl border border-slate-200">
+            <div class="flex items-center justify-between mb-6">
+                <div>
+                    <h2 class="text-2xl font-black text-slate-900">ファイル比較</h2>
+                    <p class="text-sm text-slate-500 mt-1">通知書同士は被保険者ごとの増減、それ以外は全項目の差分を表示します</p>
+                </div>
+                <button id="compare-csv" class="px-4 py-2 rounded-lg text-[12px] font-bold bg-emerald-600 text-white hover:bg-emerald-700 no-print" ${result.rows || result.fields ? '' : 'disabled'}>差分をCSV保存</button>
+            </div>
+            <div class="grid grid-cols-[1fr_auto_1fr] gap-4 items-center mb-4 no-print">
+                ${fileSelect('compare-left', cases, st.left)}
+                <button id="compare-swap" class="px-3 py-2 rounded-lg border font-bold text-[12px]" title="入れ替え">⇄</button>
+                ${fileSelect('compare-right', cases, st.right)}
+            </div>
+            <div class="flex items-center gap-6 mb-6 text-[12px] font-bold text-slate-600 no-print">
+                <label class="flex items-center gap-2"><input type="radio" name="compare-mode" value="rows" ${mode === 'rows' ? 'checked' : ''} ${bothNotice ? '' : 'disabled'}> 被保険者ごとの増減</label>
+                <label class="flex items-center gap-2"><input type="radio" name="compare-mode" value="fields" ${mode === 'fields' ? 'checked' : ''}> 全項目の差分</label>
+                <label class="flex items-center gap-2 ml-auto"><input type="checkbox" id="compare-hide" ${st.hideUnchanged ? 'checked' : ''}> 変更のない行を隠す</label>
+            </div>
+            ${body}
+        </div>
+    `;
+};
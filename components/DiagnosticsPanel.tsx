@@ -0,0 +1,91 @@
+import { AppFile, CaseEntry } from "../types";
+import { Diagnostic, DiagnosticCounts, SEVERITY_LABELS, Severity, ValidationRule, countDiagnostics } from "../services/validationService";
+import { escapeHTML } from "../utils";
+
+// --- Diagnostics Panel ---
+// 読み込んだ全ファイルの検証結果を案件・ファイルごとに一覧し、サイドバーのファイル名には件数のバッジを付ける。
+
+export interface DiagnosticsHandlers {
+    // 指摘の元のファイル（行の指摘は該当行）を帳票プレビューで開く
+    onJump: (ci: number, fi: number, row: number) => void;
+}
+
+const SEVERITY_CLASS: Record<Severity, string> = {
+    error: "bg-rose-100 text-rose-700 border-rose-300",
+    warning: "bg-amber-100 text-amber-800 border-amber-300",
+    info: "bg-sky-100 text-sky-700 border-sky-300"
+};
+
+const SEVERITY_BADGE_CLASS: Record<Severity, string> = {
+    error: "bg-rose-500 text-white",
+    warning: "bg-amber-400 text-amber-950",
+    info: "bg-sky-500 text-white"
+};
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+// 情報だけのファイルにはバッジを付けない
+export const renderDiagnosticBadges = (diagnostics: Diagnostic[]) => {
+    const counts = countDiagnostics(diagnostics);
+    return (['error', 'warning'] as Severity[])
+        .filter(s => counts[s] > 0)
+        .map(s => ` <span class="ml-1 px-1.5 py-0.5 rounded ${SEVERITY_BADGE_CLASS[s]} text-[9px]" title="${SEVERITY_LABELS[s]} ${counts[s]}件">${SEVERITY_LABELS[s]} ${counts[s]}</span>`)
+        .join('');
+};
+
+const renderCounts = (counts: DiagnosticCounts) =>
+    SEVERITIES.map(s => `<span class="px-3 py-1 rounded-lg border text-[12px] font-bold ${SEVERITY_CLASS[s]}">${SEVERITY_LABELS[s]} ${counts[s]}件</span>`).join('');
+
+const renderFileDiagnostics = (f: AppFile, ci: number, fi: number, diagnostics: Diagnostic[]) => `
+    <div class="border border-slate-200 rounded-2xl mb-4 overflow-hidden">
+        <button class="diagnostic-source w-full flex items-center justify-between gap-4 px-4 py-3 bg-slate-50 text-left hover:bg-slate-100" data-dci="${ci}" data-dfi="${fi}" data-drow="-1">
+            <span class="font-black text-[13px] text-slate-800">${escapeHTML(f.fullPath)}</span>
+            <span class="text-[11px] font-bold text-slate-500">${escapeHTML(f.analysis?.title || '')}</span>
+        </button>
+        <table class="w-full text-[12px]">
+            <tbody>${diagnostics.map(d => `
+                <tr class="border-t border-slate-100">
+                    <td class="px-4 py-2 w-20"><span class="px-2 py-0.5 rounded border font-bold ${SEVERITY_CLASS[d.severity]}">${SEVERITY_LABELS[d.severity]}</span></td>
+                    <td class="px-2 py-2 w-48 font-bold text-slate-600">${escapeHTML(d.ruleLabel)}</td>
+                    <td class="px-2 py-2 w-48">${d.row !== undefined
+                        ? `<button class="diagnostic-source underline text-blue-700 hover:text-blue-900" data-dci="${ci}" data-dfi="${fi}" data-drow="${d.row}">${escapeHTML(d.subject || `${d.row + 1}行目`)}</button>`
+                        : escapeHTML(d.subject || '')}</td>
+                    <td class="px-2 py-2">${escapeHTML(d.message)}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>
+    </div>`;
+
+export const renderDiagnosticsPanel = (cases: CaseEntry[], diagnosticsOf: (ci: number) => Map<AppFile, Diagnostic[]>, rules: readonly ValidationRule[]) => {
+    const entries = cases.flatMap((c, ci) => {
+        const found = diagnosticsOf(ci);
+        return c.files.map((f, fi) => ({ f, ci, fi, diagnostics: found.get(f) || [] }));
+    });
+    const flagged = entries.filter(e => e.diagnostics.length > 0);
+    const counts = countDiagnostics(flagged.flatMap(e => e.diagnostics));
+    return `
+        <div class="bg-white w-[1200px] mx-auto p-10 rounded-3xl shadow-xl border border-slate-200">
+            <div class="flex items-start justify-between mb-6 gap-4">
+                <div>
+                    <h2 class="text-2xl font-black text-slate-900">検証結果</h2>
+                    <p class="text-sm text-slate-500 mt-1">読み込み済みの ${entries.length} ファイルを ${rules.length} 件のルールで確認しました（指摘のあるファイル ${flagged.length} 件）</p>
+                </div>
+                <div class="flex gap-2">${renderCounts(counts)}</div>
+            </div>
+            ${flagged.length > 0
+                ? flagged.map(e => renderFileDiagnostics(e.f, e.ci, e.fi, e.diagnostics)).join('')
+                : '<div class="text-center p-16 text-slate-500 font-bold border border-dashed border-slate-300 rounded-2xl">指摘はありません</div>'}
+            <details class="mt-8 text-[12px] text-slate-600">
+                <summary class="cursor-pointer font-bold">検証ルール一覧</summary>
+                <ul class="mt-2 space-y-1">${rules.map(r => `<li><span class="px-2 py-0.5 mr-2 rounded border font-bold ${SEVERITY_CLASS[r.severity]}">${SEVERITY_LABELS[r.severity]}</span>${escapeHTML(r.label)} <span class="font-mono text-slate-400">${escapeHTML(r.id)}</span></li>`).join('')}</ul>
+            </details>
+        </div>
+    `;
+};
+
+export const attachDiagnosticsPanel = (handlers: DiagnosticsHandlers) => {
+    document.querySelectorAll('.diagnostic-source').forEach(b => b.addEventListener('click', (e) => {
+        const t = (e.currentTarget as HTMLElement).dataset;
+        handlers.onJump(parseInt(t.dci || "0"), parseInt(t.dfi || "0"), parseInt(t.drow || "-1"));
+    }));
+};
@@ -0,0 +1,301 @@
+import { AnnouncementData, AppFile, CsvFormGroup, CsvSubmissionData, DependentEntry, DependentNoticeData, DocDataMap, DocTypeId, EmploymentNoticeData, EmploymentPerson, FormattedDate, NoticeData, QualificationNoticeData, QualificationPerson, SummaryData, UniversalData } from "../types";
+import { CountCheck, caseCountChecks } from "../services/csvSubmissionService";
+import { InsuranceKind, gradeForAmount } from "../services/gradeService";
+import { toYearMonth } from "../services/rateService";
+import { escapeHTML, getFormattedDates, getRowDate, normalize, parseStandardAmount } from "../utils";
+import { renderGradeLabel } from "./GradeSimulator";
+import { renderVirtualRows } from "./VirtualRows";
+
+// --- Document Sheets ---
+// 書類の種類ごとの帳票プレビュー。種類を追加するときは services/docTypeService.ts の registerDocType と合わせて
+// registerDocumentSheet で表示を登録する。表示の無い種類は全項目一覧で表示する。
+
+// focusRow は被保険者の行を持つ書類で強調表示する行、caseFiles は同じ案件のファイル（書類間の突き合わせに使う）
+export interface SheetContext {
+    focusRow: number;
+    caseFiles?: AppFile[];
+}
+
+export type DocumentSheetRenderer<K extends DocTypeId> = (data: DocDataMap[K], ctx: SheetContext) => string;
+
+const renderAnnouncementSheet = (data: AnnouncementData) => {
+    return `
+        <div class="bg-white w-[1000px] min-h-[1414px] p-24 text-black shadow-2xl relative font-['Noto_Sans_JP'] border border-slate-200 mx-auto print:shadow-none print:border-none">
+            <div class="flex flex-col items-end text-lg font-bold mb-8">
+                <p>${data.docNo || ''}</p>
+                <p>${data.creationDateJP || ''}</p>
+            </div>
+            <div class="mb-16"><p class="text-xl font-bold">${data.recipient?.aff || ''}</p><p class="text-xl font-bold">${data.recipient?.name || ''}　${data.recipient?.honorific || ''}</p></div>
+            <div class="flex flex-col items-end mb-24"><p class="text-lg font-bold">${data.senderAff || ''}</p><p class="text-lg font-bold">${data.senderName || ''}</p></div>
+            <div class="text-center mb-16"><h1 class="text-3xl font-black tracking-tight">${data.title}</h1></div>
+            <div class="text-lg leading-relaxed space-y-6 mb-16 text-justify">${(data.mainText || []).map(p => `<p>${p.replace(/\n/g, '<br>')}</p>`).join('')}</div>
+            <div class="space-y-4 no-print">${(data.appendices || []).map(app => `<div class="text-blue-600 font-black text-xl underline cursor-pointer hover:text-blue-800">${app.title}</div>`).join('')}</div>
+        </div>
+    `;
+};
+
+// 総括票の件数と CSV 形式届書のレコード数が合わない欄に実際の件数を添える
+const countMismatchMark = (check?: CountCheck) =>
+    check && !check.ok ? `<span class="ml-2 px-1 rounded border border-red-400 bg-red-50 text-red-600 text-[11px] font-sans font-bold" title="CSV形式届書のレコード数と一致しません">CSV ${check.actual}件</span>` : '';
+
+const renderSummarySheet = (data: SummaryData, { caseFiles }: SheetContext) => {
+    const checks = caseFiles ? caseCountChecks(caseFiles) : null;
+    const count = (key: string) => `${data.counts?.[key] || ""} 件${countMismatchMark(checks?.find(c => c.key === key))}`;
+    const labelClass = "px-2 py-1 flex items-center h-full border-r border-black text-[11px] leading-tight font-bold";
+    const countValClass = "flex-1 px-4 py-1 text-right text-[14px] font-mono tracking-wider";
+    return `
+        <div class="bg-white w-[1120px] min-h-[1580px] p-[50px] text-black shadow-2xl relative font-['MS_PMincho', 'serif'] border border-gray-400 mx-auto print:shadow-none print:border-none">
+            <div class="flex justify-between items-start mb-8">
+                <div class="text-[13px] font-bold leading-tight">健康保険<br>厚生年金保険<br>国民年金</div>
+                <div class="absolute left-1/2 -translate-x-1/2 text-[28px] font-bold tracking-[0.5em] pt-2">ＣＳＶ形式届書総括票</div>
+                <div class="border-2 border-black px-5 py-2 font-bold text-[18px]">電子申請用</div>
+            </div>
+            <div class="grid grid-cols-2 gap-x-20 gap-y-4 mb-8 text-[14px]">
+                <div class="flex items-center"><span class="w-[100px] font-bold">①識別情報</span><div class="flex-1 flex items-center border-b border-black font-mono py-1"><span class="px-4">${data.idInfoPrefix}</span><span class="mx-auto">－</span><span class="px-4">${data.idInfoSuffix}</span></div></div>
+                <div class="flex items-center"><span class="w-[100px] font-bold">②作成年月日</span><span class="flex-1 px-4 font-bold border-b border-black text-center py-1">${data.creationDateJP}</span></div>
+                <div class="flex items-center"><span class="w-[120px] font-bold">③事業所整理記号</span><div class="flex-1 flex items-center border-b border-black font-mono py-1"><span class="px-4">${data.officeRegistry?.pref}</span><span class="px-4">${data.officeRegistry?.dist}</span><span class="mx-auto">－</span><span class="px-4">${data.officeRegistry?.code}</span></div></div>
+                <div class="flex items-center"><span class="w-[100px] font-bold">④事業所番号</span><span class="flex-1 px-4 font-mono border-b border-black text-center py-1">${data.officeNo}</span></div>
+            </div>
+            <div class="flex gap-4">
+                <div class="w-[40px] flex flex-col items-center text-[10px] leading-tight space-y-8 pt-4 font-bold select-none opacity-80" style="writing-mode: vertical-rl;"><p>◎必ず電子署名を付して申請してください。</p><p>◎入力方法については、記載要領をご覧ください。</p></div>
+                <div class="flex-1 flex gap-4">
+                    <div class="flex-1">
+                        <p class="text-[12px] font-bold mb-1 text-center">届書総件数（健康保険・厚生年金保険）</p>
+                        <div class="border-2 border-black text-[12px]">
+                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑤資格取得届／70歳以上被用者該当届</span><span class="${countValClass}">${count("資格取得")}</span></div>
+                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑥被扶養者異動届／国民年金第３号被保険者関係届</span><span class="${countValClass}">${count("被扶養者")}</span></div>
+                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑦資格喪失届／70歳以上被用者不該当届</span><span class="${countValClass}">${count("資格喪失")}</span></div>
+                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑧月額変更届／70歳以上被用者月額変更届</span><span class="${countValClass}">${count("月額変更")}</span></div>
+                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑨算定基礎届／70歳以上被用者算定基礎届</span><span class="${countValClass}">${count("算定基礎")}</span></div>
+                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑩賞与支払届／70歳以上被用者賞与支払届</span><span class="${countValClass}">${count("賞与支払")}</span></div>
+                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑪育児休業等取得者申出書(新規・延長)／終了届</span><span class="${countValClass}">${count("育児休業")}</span></div>
+                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑫産前産後休業取得者申出書／変更(終了)届</span><span class="${countValClass}">${count("産前産後")}</span></div>
+                            <div class="flex h-12 bg-gray-50 font-bold"><span class="w-[180px] mx-auto text-center border-l border-r border-black flex items-center justify-center">⑬届書合計</span><span class="${countValClass} border-l border-black flex items-center justify-end">${count("合計")}</span></div>
+                        </div>
+                    </div>
+                    <div class="w-[450px] flex gap-4">
+                        <div class="flex-1 flex flex-col">
+                            <p class="text-[12px] font-bold mb-1 text-center">届書総件数（国民年金）</p>
+                            <div class="border-2 border-black h-[400px]">
+                                <div class="flex h-11 border-b border-black"><span class="w-[280px] ${labelClass}">⑭国民年金第３号被保険者関係届</span><span class="${countValClass}">${count("国年3号")}</span></div>
+                                <div class="mt-auto flex h-12 bg-gray-50 font-bold border-t border-black"><span class="w-[140px] mx-auto text-center border-l border-r border-black flex items-center justify-center">⑮届書合計</span><span class="${countValClass} border-l border-black flex items-center justify-end">${count("国年合計")}</span></div>
+                            </div>
+                            <div class="mt-8 text-center text-[15px] font-bold">${data.submissionDateJP} 提出</div>
+                        </div>
+                        <div class="w-[140px] flex flex-col"><p class="text-[12px] font-bold mb-1 text-center">⑯ 備考</p><div class="flex-1 border-2 border-black p-4 text-[11px] leading-relaxed break-all">${data.remarks || ""}</div></div>
+                    </div>
+                </div>
+            </div>
+            <div class="mt-12 flex gap-10">
+                <div class="flex-1 border-2 border-black p-8 text-[15px] font-bold space-y-6">
+                    <div class="flex items-center"><span class="w-[120px]">⑰ 郵便番号</span><div class="flex items-baseline font-mono text-[18px]"><span class="mr-4">〒</span><span class="px-2">${data.zipCodePrefix}</span><span class="mx-4">－</span><span class="px-2">${data.zipCodeSuffix}</span></div></div>
+                    <div class="flex items-start"><span class="w-[120px]">所在地</span><span class="flex-1 leading-relaxed pl-4">${data.address}</span></div>
+                    <div class="flex items-center"><span class="w-[120px]">名称</span><span class="flex-1 pl-4">${data.companyName}</span></div>
+                    <div class="flex items-center"><span class="w-[120px]">氏名</span><span class="flex-1 pl-4">${data.ownerName}</span></div>
+                    <div class="flex items-baseline"><span class="w-[120px]">電話番号</span><div class="flex items-baseline font-mono text-[18px] pl-4"><span class="px-2">${data.phone?.area}</span><span class="mx-2">（</span><span class="px-2">${data.phone?.city} 局</span><span class="mx-2">）</span><span class="px-2">${data.phone?.num} 番</span></div></div>
+                </div>
+                <div class="w-[500px] space-y-6">
+                    <div class="border-2 border-black"><div class="bg-gray-50 border-b-2 border-black p-2 text-center font-bold text-[13px]">⑱ 代行者名記載欄</div><div class="h-[100px] p-6 text-[16px] leading-relaxed">${data.proxyName || ""}</div></div>
+                    <div class="border-2 border-black p-6 space-y-6">
+                        <div class="flex justify-between items-start text-[12px]"><div class="flex flex-col gap-1"><span class="font-bold">⑲ （通知書）</span><span>紙の通知書を希望しますか</span></div><div class="flex items-center gap-4 pt-2"><span class="font-bold">希望します</span><div class="w-6 h-6 border-2 border-black flex items-center justify-center font-bold bg-white text-lg">${data.paperNoticeDesired ? '✓' : ''}</div></div></div>
+                        <div class="flex justify-between items-center text-[12px] pt-6 border-t-2 border-dotted border-gray-300">
+                            <span class="font-bold">⑳ （添付書類）</span>
+                            <div class="flex gap-8 items-center font-bold">${["郵送", "電子", "なし"].map(l => `<div class="flex items-center gap-3"><span>${l}</span><div class="w-5 h-5 border-2 border-black flex items-center justify-center">${(l === "なし" && data.attachmentStatus?.none) || (l === "郵送" && data.attachmentStatus?.mail) || (l === "電子" && data.attachmentStatus?.elec) ? '✓' : ''}</div></div>`).join('')}</div>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    `;
+};
+
+// 標準報酬月額（千円）の等級。dateAD の月に適用される等級表で引き、等級表に無い額には付けない
+const gradeNote = (kind: InsuranceKind, amount: number, dateAD: string) => {
+    const g = amount ? gradeForAmount(kind, amount * 1000, toYearMonth(dateAD)) : undefined;
+    return g ? `<div class="text-[10px] font-bold text-slate-500 mt-1">${renderGradeLabel(g)}</div>` : '';
+};
+
+const renderNoticeRow = (data: NoticeData, r: Record<string, any>, ri: number, focusRow: number) => {
+    const isBonusDoc = data.docType === 'BONUS_NOTICE';
+    const payDate = getRowDate(
+        r,
+        isBonusDoc
+            ? ["賞与支払年月日", "賞与支払年月"]
+            : ["適用年月", "適用年月日", "改定年月", "資格喪失年月日", "資格喪失年月"]
+    );
+    const birthDate = getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]);
+    const amount1 = parseStandardAmount(r[isBonusDoc ? "決定後の標準賞与額_健保" : "決定後の標準報酬月額_健保"]);
+    const amount2 = parseStandardAmount(r[isBonusDoc ? "決定後の標準賞与額_厚年" : "決定後の標準報酬月額_厚年"]);
+    const val1 = amount1.toLocaleString();
+    const val2 = amount2.toLocaleString();
+    const grade1 = isBonusDoc ? '' : gradeNote('health', amount1, payDate.ad);
+    const grade2 = isBonusDoc ? '' : gradeNote('pension', amount2, payDate.ad);
+    return `<tr class="h-20 text-center border-b border-black ${ri === focusRow ? 'bg-yellow-100 row-focus' : ''}"><td class="border-r border-black">${normalize(r["被保険者整理番号"] || "")}</td><td class="border-r border-black text-left px-6 font-black text-xl">${normalize(r["被保険者氏名"] || "")}</td><td class="border-r border-black"><div>${payDate.jp}</div><div class="text-blue-600 text-[11px] font-bold">(${payDate.ad})</div></td><td class="border-r border-black px-2 font-black text-lg w-32"><div class="text-[10px] font-normal text-slate-400 mb-1">(健保)</div>${val1}千円${grade1}</td><td class="border-r border-black px-2 font-black text-lg w-32"><div class="text-[10px] font-normal text-slate-400 mb-1">(厚年)</div>${val2}千円${grade2}</td><td class="border-r border-black"><div>${birthDate.jp}</div><div class="text-emerald-600 text-[11px] font-bold">(${birthDate.ad})</div></td><td>${normalize(r["種別"] || "")}</td></tr>`;
+};
+
+// 日本年金機構の通知書に共通する宛先・到達番号・表題・発行元の枠
+const renderNoticeFrame = (data: UniversalData, table: string) => `
+        <div class="bg-white w-[1000px] min-h-[1414px] p-16 text-black shadow-2xl relative font-['Noto_Sans_JP'] border border-slate-200 mx-auto print:shadow-none print:border-none">
+            <div class="flex justify-between items-start mb-10">
+                <div class="text-[14px] leading-relaxed space-y-1"><p class="font-bold text-lg">${data.zipCodeSuffix || ''}</p><p class="text-base">${data.address || ''}</p><p class="pt-4 text-2xl font-black tracking-tighter">${data.companyName || ''}</p><p class="text-2xl font-black">${data.ownerName || ''}　　様</p></div>
+                <div class="flex flex-col items-end"><p class="text-sm font-bold mb-1">到達番号 ${data.arrivalNumber || ''}</p><div class="border border-black p-4 w-[380px] h-[260px] text-[13px] leading-relaxed overflow-hidden text-justify">${data.noticeBox || ''}</div></div>
+            </div>
+            <div class="text-center mb-16 mt-8"><h1 class="text-3xl font-black tracking-tight">${data.title}</h1></div>
+            ${table}
+            <div class="mt-20 text-right space-y-4"><p class="text-lg font-bold underline underline-offset-4 decoration-slate-300">${data.creationDateJP || ''}</p><div class="pt-6"><p class="text-2xl font-black tracking-[0.3em]">日本年金機構理事長</p><p class="text-lg font-bold text-slate-600">(${data.pensionOffice || ''}年金事務所)</p></div></div>
+        </div>
+    `;
+
+const th = (label: string, cls: string = '', colSpan: number = 1) =>
+    `<th class="border border-black px-1 py-1 font-bold ${cls}"${colSpan > 1 ? ` colspan="${colSpan}"` : ''}>${label}</th>`;
+
+const dateCell = (d: FormattedDate, tone: string = 'text-blue-600') =>
+    `<td class="border-r border-black"><div>${d.jp}</div><div class="${tone} text-[11px] font-bold">${d.ad ? `(${d.ad})` : ''}</div></td>`;
+
+const renderNoticeSheet = (data: NoticeData, { focusRow }: SheetContext) => {
+    const isBonusDoc = data.docType === 'BONUS_NOTICE';
+    return renderNoticeFrame(data, `
+            <table class="w-full border-collapse border-[1.5px] border-black text-sm mb-12">
+                <thead class="bg-gray-50"><tr class="h-14"><th class="border border-black px-1 py-1 font-bold w-20">整理番号</th><th class="border border-black px-4 py-1 font-bold">氏名</th><th class="border border-black px-1 py-1 font-bold w-32">${isBonusDoc ? '支払年月日' : '適用年月'}<br>(西暦)</th><th class="border border-black px-1 py-1 font-bold" colspan="2">${isBonusDoc ? '標準賞与額' : '標準報酬月額'}</th><th class="border border-black px-1 py-1 font-bold w-32">生年月日<br>(西暦)</th><th class="border border-black px-1 py-1 font-bold w-20">種別</th></tr></thead>
+                <tbody id="notice-rows" data-focus="${focusRow}">${renderVirtualRows({
+                    id: 'notice-rows',
+                    count: data.rows.length,
+                    rowHeight: 80,
+                    colSpan: 7,
+                    renderRow: ri => renderNoticeRow(data, data.rows[ri], ri, focusRow)
+                })}</tbody>
+            </table>`);
+};
+
+// 資格取得は取得年月日と資格取得時決定の標準報酬月額、資格喪失は喪失年月日と喪失原因を並べる
+const renderQualificationRow = (data: QualificationNoticeData, p: QualificationPerson, ri: number, focusRow: number) => {
+    const isLoss = data.docType === 'LOSS_NOTICE';
+    const cells = isLoss
+        ? `${dateCell(p.lostDate, 'text-rose-600')}<td class="border-r border-black px-3 text-left">${escapeHTML(p.lossReason)}</td>`
+        : `${dateCell(p.acquiredDate)}<td class="border-r border-black px-2 font-black text-lg w-28"><div class="text-[10px] font-normal text-slate-400 mb-1">(健保)</div>${p.stdHealth ? `${p.stdHealth.toLocaleString()}千円` : ''}${gradeNote('health', p.stdHealth, p.acquiredDate.ad)}</td><td class="border-r border-black px-2 font-black text-lg w-28"><div class="text-[10px] font-normal text-slate-400 mb-1">(厚年)</div>${p.stdPension ? `${p.stdPension.toLocaleString()}千円` : ''}${gradeNote('pension', p.stdPension, p.acquiredDate.ad)}</td>`;
+    return `<tr class="h-20 text-center border-b border-black ${ri === focusRow ? 'bg-yellow-100 row-focus' : ''}"><td class="border-r border-black">${escapeHTML(p.insuredNo)}</td><td class="border-r border-black text-left px-4"><div class="font-black text-xl">${escapeHTML(p.name)}</div><div class="text-[11px] text-slate-500">${escapeHTML(p.kanaName)}</div></td>${dateCell(p.birthDate, 'text-emerald-600')}<td class="border-r border-black font-mono text-[13px]">${escapeHTML(p.pensionNo)}</td>${cells}<td>${escapeHTML(p.kind)}</td></tr>`;
+};
+
+const renderQualificationSheet = (data: QualificationNoticeData, { focusRow }: SheetContext) => {
+    const isLoss = data.docType === 'LOSS_NOTICE';
+    return renderNoticeFrame(data, `
+            <table class="w-full border-collapse border-[1.5px] border-black text-sm mb-12">
+                <thead class="bg-gray-50"><tr class="h-14">${th('整理番号', 'w-20')}${th('氏名', 'px-4')}${th('生年月日<br>(西暦)', 'w-32')}${th('基礎年金番号', 'w-32')}${isLoss ? `${th('資格喪失年月日<br>(西暦)', 'w-32')}${th('喪失原因')}` : `${th('資格取得年月日<br>(西暦)', 'w-32')}${th('標準報酬月額', '', 2)}`}${th('種別', 'w-16')}</tr></thead>
+                <tbody id="notice-rows" data-focus="${focusRow}">${renderVirtualRows({
+                    id: 'notice-rows',
+                    count: data.persons.length,
+                    rowHeight: 80,
+                    colSpan: isLoss ? 7 : 8,
+                    renderRow: ri => renderQualificationRow(data, data.persons[ri], ri, focusRow)
+                })}</tbody>
+            </table>`);
+};
+
+const renderDependentRow = (d: DependentEntry) =>
+    `<tr class="h-20 text-center border-b border-black"><td class="border-r border-black">${escapeHTML(d.insuredNo)}</td><td class="border-r border-black text-left px-3 font-bold">${escapeHTML(d.insuredName)}</td><td class="border-r border-black text-left px-3"><div class="font-black text-lg">${escapeHTML(d.name)}</div><div class="text-[11px] text-slate-500">${escapeHTML(d.kanaName)}</div></td><td class="border-r border-black">${escapeHTML(d.relationship)}</td>${dateCell(d.birthDate, 'text-emerald-600')}<td class="border-r border-black font-bold">${escapeHTML(d.change)}</td>${dateCell(d.changeDate)}<td class="border-r border-black px-2 text-left text-[12px]">${escapeHTML(d.reason)}</td><td class="font-mono text-[12px]">${escapeHTML(d.pensionNo)}</td></tr>`;
+
+const renderDependentSheet = (data: DependentNoticeData) => renderNoticeFrame(data, `
+            <table class="w-full border-collapse border-[1.5px] border-black text-sm mb-12">
+                <thead class="bg-gray-50"><tr class="h-14">${th('整理番号', 'w-16')}${th('被保険者氏名')}${th('被扶養者氏名')}${th('続柄', 'w-14')}${th('生年月日<br>(西暦)', 'w-28')}${th('異動区分', 'w-16')}${th('異動年月日<br>(西暦)', 'w-28')}${th('理由')}${th('基礎年金番号', 'w-28')}</tr></thead>
+                <tbody id="dependent-rows">${renderVirtualRows({
+                    id: 'dependent-rows',
+                    count: data.dependents.length,
+                    rowHeight: 80,
+                    colSpan: 9,
+                    renderRow: i => renderDependentRow(data.dependents[i])
+                })}</tbody>
+            </table>`);
+
+// ハローワークの通知書は宛先が事業所番号・事業所名で、発行者は公共職業安定所長
+const renderEmploymentRow = (data: EmploymentNoticeData, p: EmploymentPerson) => {
+    const isAcquisition = data.docType === 'EI_ACQUISITION_NOTICE';
+    return `<tr class="h-20 text-center border-b border-black"><td class="border-r border-black font-mono">${escapeHTML(p.insuredNo)}</td><td class="border-r border-black text-left px-4"><div class="font-black text-xl">${escapeHTML(p.name)}</div><div class="text-[11px] text-slate-500">${escapeHTML(p.kanaName)}</div></td>${dateCell(p.birthDate, 'text-emerald-600')}${dateCell(p.acquiredDate)}${isAcquisition ? '' : `${dateCell(p.lostDate, 'text-rose-600')}<td class="border-r border-black px-2 text-left">${escapeHTML(p.lossReason)}</td><td class="px-3 text-left text-[12px]">${escapeHTML(p.separationReason)}</td>`}</tr>`;
+};
+
+const renderEmploymentSheet = (data: EmploymentNoticeData) => {
+    const isAcquisition = data.docType === 'EI_ACQUISITION_NOTICE';
+    return `
+        <div class="bg-white w-[1000px] min-h-[1414px] p-16 text-black shadow-2xl relative font-['Noto_Sans_JP'] border border-slate-200 mx-auto print:shadow-none print:border-none">
+            <div class="flex justify-between items-start mb-10">
+                <div class="text-[14px] leading-relaxed space-y-1"><p class="text-base">${escapeHTML(data.address)}</p><p class="pt-4 text-2xl font-black tracking-tighter">${escapeHTML(data.companyName)}</p><p class="text-2xl font-black">${escapeHTML(data.ownerName)}　　殿</p></div>
+                <div class="border-2 border-black text-[13px] font-bold"><div class="px-4 py-1 border-b border-black bg-gray-50">事業所番号</div><div class="px-4 py-2 font-mono text-lg">${escapeHTML(data.officeNo)}</div></div>
+            </div>
+            <div class="text-center mb-16 mt-8"><h1 class="text-3xl font-black tracking-tight">${escapeHTML(data.title)}</h1></div>
+            <table class="w-full border-collapse border-[1.5px] border-black text-sm mb-12">
+                <thead class="bg-gray-50"><tr class="h-14">${th('被保険者番号', 'w-36')}${th('氏名', 'px-4')}${th('生年月日<br>(西暦)', 'w-28')}${th('資格取得年月日<br>(西暦)', 'w-28')}${isAcquisition ? '' : `${th('離職等年月日<br>(西暦)', 'w-28')}${th('喪失原因', 'w-24')}${th('離職理由')}`}</tr></thead>
+                <tbody id="employment-rows">${renderVirtualRows({
+                    id: 'employment-rows',
+                    count: data.persons.length,
+                    rowHeight: 80,
+                    colSpan: isAcquisition ? 4 : 7,
+                    renderRow: i => renderEmploymentRow(data, data.persons[i])
+                })}</tbody>
+            </table>
+            <div class="mt-20 text-right space-y-4"><p class="text-lg font-bold underline underline-offset-4 decoration-slate-300">${escapeHTML(data.creationDateJP)}</p><div class="pt-6"><p class="text-2xl font-black tracking-[0.2em]">${escapeHTML((data.issuerOffice || '公共職業安定所').replace(/長$/, ''))}長</p></div></div>
+        </div>
+    `;
+};
+
+const renderCountChecks = (checks: CountCheck[]) => `
+            <table class="w-full border-collapse border-[1.5px] border-black text-sm mb-10">
+                <thead class="bg-gray-50"><tr class="h-10">${th('届書')}${th('総括票', 'w-24')}${th('CSV', 'w-24')}${th('', 'w-20')}</tr></thead>
+                <tbody>${checks.map(c => `<tr class="h-9 text-center border-b border-black ${c.ok ? '' : 'bg-red-50 text-red-700 font-bold'}"><td class="border-r border-black text-left px-3">${escapeHTML(c.label)}</td><td class="border-r border-black font-mono">${c.declared ?? '？'}</td><td class="border-r border-black font-mono">${c.actual}</td><td>${c.ok ? '一致' : '不一致'}</td></tr>`).join('')}</tbody>
+            </table>`;
+
+const renderCsvForm = (f: CsvFormGroup, fi: number) => `
+            <h2 class="text-lg font-black mb-2">${escapeHTML(f.label)}<span class="ml-3 text-sm font-mono text-slate-500">${escapeHTML(f.code)}・${f.records.length}件</span></h2>
+            <div class="overflow-x-auto mb-10">
+                <table class="border-collapse border-[1.5px] border-black text-[12px] whitespace-nowrap">
+                    <thead class="bg-gray-50"><tr class="h-10">${f.columns.map(c => th(escapeHTML(c), 'px-2')).join('')}</tr></thead>
+                    <tbody id="csv-rows-${fi}">${renderVirtualRows({
+                        id: `csv-rows-${fi}`,
+                        count: f.records.length,
+                        rowHeight: 32,
+                        colSpan: f.columns.length,
+                        renderRow: i => `<tr class="h-8 border-b border-black">${f.columns.map((_, ci) => `<td class="border-r border-black px-2 font-mono">${escapeHTML(f.records[i][ci] || '')}</td>`).join('')}</tr>`
+                    })}</tbody>
+                </table>
+            </div>`;
+
+const renderLabelledValues = (title: string, items: { label: string, value: string }[]) => items.length === 0 ? '' : `
+            <div class="border-2 border-black text-[13px]"><div class="bg-gray-50 border-b-2 border-black px-3 py-1 font-bold">${title}</div>
+                <dl class="grid grid-cols-[160px_1fr] gap-x-4 gap-y-1 p-3">${items.map(i => `<dt class="font-bold">${escapeHTML(i.label)}</dt><dd class="font-mono break-all">${escapeHTML(i.value)}</dd>`).join('')}</dl>
+            </div>`;
+
+// CSV 形式届書は様式ごとのレコードをレイアウトの項目名で表にし、案件に総括票があれば件数を突き合わせる
+const renderCsvSubmissionSheet = (data: CsvSubmissionData, { caseFiles }: SheetContext) => {
+    const checks = caseFiles ? caseCountChecks(caseFiles) : null;
+    return `
+        <div class="bg-white w-[1120px] min-h-[1414px] p-16 text-black shadow-2xl relative font-['Noto_Sans_JP'] border border-slate-200 mx-auto print:shadow-none print:border-none">
+            <div class="text-center mb-10"><h1 class="text-3xl font-black tracking-tight">${escapeHTML(data.title)}</h1><p class="mt-2 text-sm text-slate-500">届書レコード ${data.recordCount}件</p></div>
+            <div class="grid grid-cols-2 gap-6 mb-10">${renderLabelledValues('ヘッダレコード', data.header)}${renderLabelledValues('事業所情報', data.office)}</div>
+            ${checks ? renderCountChecks(checks) : '<p class="mb-10 text-sm text-slate-500">同じ案件に総括票が無いため、届書件数は突き合わせていません。</p>'}
+            ${data.forms.length > 0 ? data.forms.map(renderCsvForm).join('') : '<p class="text-sm text-slate-500">届書レコードがありません。</p>'}
+        </div>
+    `;
+};
+
+const sheets = new Map<DocTypeId, DocumentSheetRenderer<DocTypeId>>();
+
+// 同じ種類の表示は置き換える
+export const registerDocumentSheet = <K extends DocTypeId>(id: K, render: DocumentSheetRenderer<K>) => {
+    sheets.set(id, render as unknown as DocumentSheetRenderer<DocTypeId>);
+};
+
+registerDocumentSheet('SUMMARY', renderSummarySheet);
+registerDocumentSheet('ANNOUNCEMENT', renderAnnouncementSheet);
+registerDocumentSheet('NOTICE', renderNoticeSheet);
+registerDocumentSheet('BONUS_NOTICE', renderNoticeSheet);
+registerDocumentSheet('ACQUISITION_NOTICE', renderQualificationSheet);
+registerDocumentSheet('LOSS_NOTICE', renderQualificationSheet);
+registerDocumentSheet('DEPENDENT_NOTICE', renderDependentSheet);
+registerDocumentSheet('EI_ACQUISITION_NOTICE', renderEmploymentSheet);
+registerDocumentSheet('EI_LOSS_NOTICE', renderEmploymentSheet);
+registerDocumentSheet('EI_SEPARATION_NOTICE', renderEmploymentSheet);
+registerDocumentSheet('CSV_SUBMISSION', renderCsvSubmissionSheet);
+
+// 表示が登録されていない種類は null（呼び出し側で全項目一覧にする）
+export const renderDocumentSheet = (data: UniversalData, ctx: Partial<SheetContext> = {}): string | null => {
+    const render = sheets.get(data.docType);
+    return render ? render(data as DocDataMap[DocTypeId], { focusRow: -1, ...ctx }) : null;
+};
@@ -0,0 +1,88 @@
+import { PremiumBreakdown, SalarySimulation } from "../services/calcService";
+import { Grade, findGradeTable, formatGradeRange } from "../services/gradeService";
+import { escapeHTML } from "../utils";
+
+// --- Grade Simulator ---
+// 報酬月額を入力して、等級表から決まる標準報酬月額と保険料（控除額・事業主負担）を試算する。控除額計算シミュレータの一部として表示する。
+
+export interface SimulatorState {
+    salary: number;
+    age: number;
+}
+
+export interface GradeSimulatorHandlers {
+    // 入力が変わったとき（結果欄だけを描き直す）
+    onChange: () => void;
+}
+
+export const createSimulatorState = (): SimulatorState => ({ salary: 300000, age: 30 });
+
+const yen = (v: number) => `${v.toLocaleString()}円`;
+
+// 等級と標準報酬月額。範囲は title に入れる
+export const renderGradeLabel = (g: Grade | undefined) =>
+    g ? `<span title="${escapeHTML(formatGradeRange(g))}">第${g.grade}級</span>` : '';
+
+const renderGradeCard = (label: string, g: Grade, eligible: boolean, tableLabel: string) => `
+    <div class="flex-1 bg-white rounded-xl border border-slate-200 p-4">
+        <div class="text-[11px] font-bold text-slate-500">${label}（${escapeHTML(tableLabel)}）</div>
+        ${eligible
+            ? `<div class="text-2xl font-black text-slate-900 mt-1">第${g.grade}級 <span class="text-lg">${yen(g.amount)}</span></div><div class="text-[11px] text-slate-500 mt-1">報酬月額 ${escapeHTML(formatGradeRange(g)) || '全額'}</div>`
+            : '<div class="text-lg font-black text-slate-400 mt-1">対象外（年齢）</div>'}
+    </div>`;
+
+const renderPremiumLine = (label: string, b: PremiumBreakdown, tone: string) => `
+    <tr><td class="px-3 py-2 font-bold ${tone}">${label}</td><td class="px-3 py-2 text-right font-mono">${yen(b.health)}</td><td class="px-3 py-2 text-right font-mono">${b.nursing > 0 ? yen(b.nursing) : '-'}</td><td class="px-3 py-2 text-right font-mono">${yen(b.pension)}</td><td class="px-3 py-2 text-right font-mono">${b.childcare > 0 ? yen(b.childcare) : '-'}</td><td class="px-3 py-2 text-right font-mono font-black">${yen(b.total)}</td></tr>`;
+
+// 健康保険の等級を基準に、同じ額の厚生年金の等級を並べる
+const renderGradeTable = (yearMonth: string, sim: SalarySimulation) => {
+    const health = findGradeTable('health', yearMonth);
+    const pension = findGradeTable('pension', yearMonth);
+    return `
+        <details class="mt-4 text-[12px]">
+            <summary class="cursor-pointer font-bold text-slate-600">等級表を表示（${escapeHTML(health.label)} / ${escapeHTML(pension.label)}）</summary>
+            <table class="w-full mt-2 border border-slate-200">
+                <thead class="bg-slate-100"><tr><th class="px-3 py-1 text-left">健保等級</th><th class="px-3 py-1 text-left">厚年等級</th><th class="px-3 py-1 text-right">標準報酬月額</th><th class="px-3 py-1 text-left">報酬月額</th></tr></thead>
+                <tbody class="divide-y divide-slate-100">${health.grades.map(g => {
+                    const pg = pension.grades.find(p => p.amount === g.amount);
+                    return `<tr class="${g === sim.healthGrade ? 'bg-yellow-100 font-bold' : ''}"><td class="px-3 py-1">第${g.grade}級</td><td class="px-3 py-1">${pg ? `第${pg.grade}級` : ''}</td><td class="px-3 py-1 text-right font-mono">${yen(g.amount)}</td><td class="px-3 py-1 font-mono">${escapeHTML(formatGradeRange(g))}</td></tr>`;
+                }).join('')}</tbody>
+            </table>
+        </details>`;
+};
+
+export const renderSimulatorResults = (sim: SalarySimulation, yearMonth: string) => `
+    <div class="flex gap-4 mb-4">
+        ${renderGradeCard("健康保険", sim.healthGrade, sim.eligibility.health, findGradeTable('health', yearMonth).label)}
+        ${renderGradeCard("厚生年金", sim.pensionGrade, sim.eligibility.pension, findGradeTable('pension', yearMonth).label)}
+    </div>
+    <table class="w-full text-[13px] bg-white border border-slate-200 rounded-xl">
+        <thead class="bg-slate-50 text-slate-500"><tr><th class="px-3 py-2 text-left">区分</th><th class="px-3 py-2 text-right">健保</th><th class="px-3 py-2 text-right">介護${sim.nursingApplied ? '' : '（対象外）'}</th><th class="px-3 py-2 text-right">厚年</th><th class="px-3 py-2 text-right">子育て拠出金</th><th class="px-3 py-2 text-right">合計</th></tr></thead>
+        <tbody class="divide-y divide-slate-100">
+            ${renderPremiumLine("被保険者負担（控除額）", sim.employee, 'text-blue-800')}
+            ${renderPremiumLine("事業主負担", sim.employer, 'text-amber-800')}
+        </tbody>
+    </table>
+    ${renderGradeTable(yearMonth, sim)}`;
+
+// results は renderSimulatorResults の結果（料率が決まらない場合はその旨の表示）
+export const renderGradeSimulator = (state: SimulatorState, results: string) => `
+    <div class="mb-8 p-6 rounded-2xl border border-emerald-200 bg-emerald-50/50 no-print">
+        <div class="flex items-end gap-6 mb-4">
+            <h3 class="text-lg font-black text-emerald-900 mr-auto">報酬月額から等級・保険料を試算</h3>
+            <div class="flex flex-col"><label class="text-[11px] font-bold text-emerald-700 mb-1" for="sim-salary">報酬月額（円）</label><input type="number" id="sim-salary" min="0" step="1000" value="${state.salary}" class="border rounded-lg px-3 py-1 font-bold w-40 text-right"></div>
+            <div class="flex flex-col"><label class="text-[11px] font-bold text-emerald-700 mb-1" for="sim-age">年齢</label><input type="number" id="sim-age" min="0" max="120" value="${state.age}" class="border rounded-lg px-3 py-1 font-bold w-20 text-right"></div>
+        </div>
+        <div id="sim-results">${results}</div>
+    </div>`;
+
+export const attachGradeSimulator = (state: SimulatorState, handlers: GradeSimulatorHandlers) => {
+    const bind = (id: string, key: keyof SimulatorState) => document.getElementById(id)?.addEventListener('input', (e: any) => {
+        const v = parseInt(e.target.value, 10);
+        if (isNaN(v) || v < 0) return;
+        state[key] = v;
+        handlers.onChange();
+    });
+    bind('sim-salary', 'salary');
+    bind('sim-age', 'age');
+};
@@ -0,0 +1,98 @@
+import { RETENTION_OPTIONS, StoredCaseMeta } from "../services/libraryService";
+import { escapeHTML } from "../utils";
+
+// --- Document Library ---
+// 保存済み案件を事業所ごとにまとめて一覧する画面と、トップ画面の「最近の案件」。
+
+export interface LibraryState {
+    items: StoredCaseMeta[];
+    loaded: boolean;
+    retentionDays: number;
+    autoSave: boolean;
+    message: string;
+}
+
+const formatDateTime = (iso: string) => {
+    const d = new Date(iso);
+    if (isNaN(d.getTime())) return "";
+    return `${d.getFullYear()}/${String(d.getMonth() + 1).padStart(2, '0')}/${String(d.getDate()).padStart(2, '0')} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const officeLabel = (c: StoredCaseMeta) => c.companyName || c.officeRegistry || "事業所不明";
+
+export const renderRecentCases = (lib: LibraryState, limit: number = 5) => {
+    if (!lib.loaded || lib.items.length === 0) return '';
+    return `
+        <div class="mt-12 w-[640px] bg-white rounded-3xl shadow-xl border border-slate-200 p-6">
+            <div class="flex justify-between items-center mb-4">
+                <h2 class="font-black text-slate-700">最近の案件</h2>
+                <button id="open-library" class="text-[12px] font-bold text-blue-700 hover:underline">ライブラリを開く（${lib.items.length}件）</button>
+            </div>
+            ${lib.items.slice(0, limit).map(c => `
+                <button class="library-open w-full text-left flex items-center justify-between gap-4 px-4 py-3 rounded-xl hover:bg-blue-50 border border-transparent hover:border-blue-100" data-lib="${escapeHTML(c.id)}">
+                    <div class="min-w-0">
+                        <div class="font-bold text-slate-800 truncate">${escapeHTML(c.folderName)}</div>
+                        <div class="text-[11px] text-slate-400 truncate">${escapeHTML(officeLabel(c))}・${c.files.length}ファイル</div>
+                    </div>
+                    <div class="text-[11px] text-slate-400 shrink-0">${formatDateTime(c.lastOpenedAt)}</div>
+                </button>`).join('')}
+        </div>
+    `;
+};
+
+export const renderLibraryView = (lib: LibraryState, openIds: Set<string>) => {
+    const groups = new Map<string, StoredCaseMeta[]>();
+    lib.items.forEach(c => {
+        const key = officeLabel(c);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(c);
+    });
+    const sorted = Array.from(groups.entries()).sort((a, b) => a[0].localeCompare(b[0], 'ja'));
+    return `
+        <div class="min-h-screen bg-slate-50 p-12">
+            <div class="w-[1100px] mx-auto">
+                <div class="flex items-center justify-between mb-8">
+                    <div class="flex items-center gap-4">
+                        <button id="library-back" class="p-2 border rounded-xl bg-white hover:bg-slate-100"><i data-lucide="arrow-left"></i></button>
+                        <h1 class="text-3xl font-black text-slate-800">ドキュメントライブラリ</h1>
+                    </div>
+                    <div class="flex items-center gap-3 text-[12px] font-bold text-slate-600">
+                        <label class="flex items-center gap-2"><input type="checkbox" id="library-autosave" ${lib.autoSave ? 'checked' : ''}> 読み込み時に自動保存</label>
+                        <label class="flex items-center gap-2">保存期間
+                            <select id="library-retention" class="border rounded-lg px-2 py-1 bg-white">
+                                ${RETENTION_OPTIONS.map(o => `<option value="${o.days}" ${lib.retentionDays === o.days ? 'selected' : ''}>${o.label}</option>`).join('')}
+                            </select>
+                        </label>
+                        <button id="library-prune" class="px-3 py-1 rounded-lg border bg-white hover:bg-slate-100" ${lib.retentionDays ? '' : 'disabled'}>期限切れを削除</button>
+                    </div>
+                </div>
+                ${lib.message ? `<div class="mb-6 px-5 py-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 text-[13px] font-bold">${escapeHTML(lib.message)}</div>` : ''}
+                ${!lib.loaded ? '<div class="text-center p-20 text-slate-400">読み込み中...</div>'
+                    : lib.items.length === 0 ? '<div class="text-center p-20 bg-white rounded-3xl shadow text-slate-400">保存された案件はありません</div>'
+                    : sorted.map(([office, cases]) => `
+                    <div class="mb-8 bg-white rounded-3xl shadow border border-slate-200 overflow-hidden">
+                        <div class="px-6 py-3 bg-slate-800 text-white font-black">${escapeHTML(office)} <span class="text-[11px] text-slate-300 ml-2">${escapeHTML(cases[0].officeRegistry)}</span></div>
+                        <table class="w-full text-[12px]">
+                            <thead class="text-slate-500 border-b"><tr>
+                                <th class="px-6 py-2 text-left">案件</th><th class="px-3 py-2 text-left">到達日</th><th class="px-3 py-2 text-left">書類</th>
+                                <th class="px-3 py-2 text-left w-36">保存日時</th><th class="px-3 py-2 text-left w-36">最終表示</th><th class="px-6 py-2 w-40"></th>
+                            </tr></thead>
+                            <tbody class="divide-y divide-slate-100">
+                                ${[...cases].sort((a, b) => b.arrivalDate.localeCompare(a.arrivalDate) || b.savedAt.localeCompare(a.savedAt)).map(c => `<tr>
+                                    <td class="px-6 py-3 font-bold text-slate-800">${escapeHTML(c.folderName)}</td>
+                                    <td class="px-3 py-3">${escapeHTML(c.arrivalDate) || '<span class="text-slate-300">-</span>'}</td>
+                                    <td class="px-3 py-3 text-slate-500">${c.files.map(f => escapeHTML(f.title || f.name)).join('<br>')}</td>
+                                    <td class="px-3 py-3 font-mono text-slate-500">${formatDateTime(c.savedAt)}</td>
+                                    <td class="px-3 py-3 font-mono text-slate-500">${formatDateTime(c.lastOpenedAt)}</td>
+                                    <td class="px-6 py-3 text-right whitespace-nowrap">
+                                        <button class="library-open px-3 py-1 rounded-lg font-bold ${openIds.has(c.id) ? 'bg-slate-200 text-slate-500' : 'bg-blue-600 text-white'}" data-lib="${escapeHTML(c.id)}">${openIds.has(c.id) ? '表示中' : '開く'}</button>
+                                        <button class="library-delete px-3 py-1 rounded-lg font-bold border border-rose-200 text-rose-600 hover:bg-rose-50" data-lib="${escapeHTML(c.id)}">削除</button>
+                                    </td>
+                                </tr>`).join('')}
+                            </tbody>
+                        </table>
+                    </div>`).join('')}
+            </div>
+        </div>
+    `;
+};
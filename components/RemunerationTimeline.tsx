@@ -0,0 +1,137 @@
+import { EmployeeHistory, HistoryEvent, monthlyDelta } from "../services/historyService";
+import { escapeHTML } from "../utils";
+
+// --- Remuneration Timeline ---
+// 被保険者ごとの標準報酬月額（階段状の折れ線）と標準賞与額（棒）を SVG で描く。
+
+const CHART_W = 1000;
+const CHART_H = 260;
+const PAD = { top: 20, right: 20, bottom: 40, left: 70 };
+
+const toTime = (ad: string) => {
+    const [y, m, d] = ad.split('/').map(n => parseInt(n, 10));
+    return new Date(y, (m || 1) - 1, d || 1).getTime();
+};
+
+const renderChart = (h: EmployeeHistory) => {
+    const events = [...h.monthly, ...h.bonus].filter(e => e.dateAD);
+    if (events.length === 0) return '<div class="text-center py-10 text-slate-400 text-sm">日付を読み取れる決定がありません</div>';
+    const times = events.map(e => toTime(e.dateAD));
+    // 最後の決定から少し先まで線を伸ばし、直近の等級も幅を持って見えるようにする
+    const tMin = Math.min(...times);
+    const tMax = Math.max(...times, tMin + 1) + 1000 * 60 * 60 * 24 * 60;
+    const vMax = Math.max(...events.map(e => Math.max(e.health, e.pension)), 1) * 1.1;
+    const x = (t: number) => PAD.left + (t - tMin) / (tMax - tMin) * (CHART_W - PAD.left - PAD.right);
+    const y = (v: number) => CHART_H - PAD.bottom - v / vMax * (CHART_H - PAD.top - PAD.bottom);
+
+    const steps = (key: 'health' | 'pension') => {
+        const pts = h.monthly.filter(e => e.dateAD);
+        if (pts.length === 0) return '';
+        const d = pts.map((e, i) => {
+            const px = x(toTime(e.dateAD));
+            const py = y(e[key]);
+            return i === 0 ? `M${px},${py}` : `H${px} V${py}`;
+        }).join(' ') + ` H${x(tMax)}`;
+        return `<path d="${d}" fill="none" stroke="${key === 'health' ? '#2563eb' : '#059669'}" stroke-width="2.5" ${key === 'pension' ? 'stroke-dasharray="6 4"' : ''}/>`;
+    };
+    const dots = h.monthly.filter(e => e.dateAD).map(e =>
+        `<circle cx="${x(toTime(e.dateAD))}" cy="${y(e.health)}" r="4" fill="#2563eb"><title>${escapeHTML(`${e.dateAD} ${e.kind} 健保${e.health.toLocaleString()}円 / 厚年${e.pension.toLocaleString()}円（${e.fileName}）`)}</title></circle>`
+    ).join('');
+    const bars = h.bonus.filter(e => e.dateAD).map(e => {
+        const bx = x(toTime(e.dateAD));
+        return `<rect x="${bx - 5}" y="${y(e.health)}" width="10" height="${y(0) - y(e.health)}" fill="#f59e0b" opacity="0.7"><title>${escapeHTML(`${e.dateAD} 賞与 健保${e.health.toLocaleString()}円 / 厚年${e.pension.toLocaleString()}円（${e.fileName}）`)}</title></rect>`;
+    }).join('');
+    const ticks = [0, 0.25, 0.5, 0.75, 1].map(r => {
+        const v = Math.round(vMax * r / 1000) * 1000;
+        return `<line x1="${PAD.left}" x2="${CHART_W - PAD.right}" y1="${y(v)}" y2="${y(v)}" stroke="#e2e8f0"/><text x="${PAD.left - 8}" y="${y(v) + 4}" text-anchor="end" font-size="11" fill="#64748b">${(v / 1000).toLocaleString()}千円</text>`;
+    }).join('');
+    const years: string[] = [];
+    for (let yr = new Date(tMin).getFullYear(); yr <= new Date(tMax).getFullYear(); yr++) {
+        const t = new Date(yr, 0, 1).getTime();
+        if (t < tMin || t > tMax) continue;
+        years.push(`<line x1="${x(t)}" x2="${x(t)}" y1="${PAD.top}" y2="${y(0)}" stroke="#f1f5f9"/><text x="${x(t)}" y="${CHART_H - 15}" text-anchor="middle" font-size="11" fill="#64748b">${yr}</text>`);
+    }
+    return `
+        <svg viewBox="0 0 ${CHART_W} ${CHART_H}" class="w-full">
+            ${ticks}${years.join('')}
+            <line x1="${PAD.left}" x2="${CHART_W - PAD.right}" y1="${y(0)}" y2="${y(0)}" stroke="#94a3b8"/>
+            ${bars}${steps('pension')}${steps('health')}${dots}
+        </svg>
+        <div class="flex gap-6 justify-center text-[11px] font-bold text-slate-600 mt-2">
+            <span><span class="inline-block w-6 border-t-[3px] border-blue-600 align-middle mr-1"></span>標準報酬月額（健保）</span>
+            <span><span class="inline-block w-6 border-t-[3px] border-dashed border-emerald-600 align-middle mr-1"></span>標準報酬月額（厚年）</span>
+            <span><span class="inline-block w-3 h-3 bg-amber-500/70 align-middle mr-1"></span>標準賞与額（健保）</span>
+        </div>
+    `;
+};
+
+const deltaCell = (v: number) => v === 0 ? '<span class="text-slate-300">±0</span>'
+    : `<span class="${v > 0 ? 'text-rose-600' : 'text-blue-600'}">${v > 0 ? '+' : ''}${v.toLocaleString()}</span>`;
+
+const sourceButton = (e: HistoryEvent) =>
+    `<button class="history-source text-[11px] text-blue-700 hover:underline text-left" data-hci="${e.caseIdx}" data-hfi="${e.fileIdx}" data-hrow="${e.rowIdx}">${escapeHTML(e.folderName)} / ${escapeHTML(e.fileName)}</button>`;
+
+export const renderRemunerationTimeline = (histories: EmployeeHistory[], selectedKey: string) => {
+    if (histories.length === 0) {
+        return `<div class="text-center p-20 bg-white rounded-3xl shadow">標準報酬決定通知書・標準賞与額決定通知書が読み込まれていません</div>`;
+    }
+    const h = histories.find(x => x.key === selectedKey) || histories[0];
+    const th = "px-3 py-2 text-left font-bold";
+    return `
+        <div class="bg-white w-[1200px] mx-auto p-10 rounded-3xl shadow-xl border border-slate-200">
+            <div class="flex items-center justify-between mb-6 gap-4">
+                <div>
+                    <h2 class="text-2xl font-black text-slate-900">標準報酬履歴</h2>
+                    <p class="text-sm text-slate-500 mt-1">読み込み済みの全案件から事業所・被保険者整理番号ごとに決定内容を時系列で表示します（${histories.length}名）</p>
+                </div>
+                <div class="flex items-center gap-2 no-print">
+                    <select id="history-employee" class="border rounded-lg px-3 py-2 text-[13px] font-bold">
+                        ${histories.map(x => `<option value="${escapeHTML(x.key)}" ${x === h ? 'selected' : ''}>${x.officeRegistry ? `${escapeHTML(x.officeRegistry)}　` : ''}${escapeHTML(x.insuredNo)}　${escapeHTML(x.name || x.kanaName)}（${x.monthly.length + x.bonus.length}件）</option>`).join('')}
+                    </select>
+                    <button id="history-csv" class="px-4 py-2 rounded-lg text-[12px] font-bold bg-emerald-600 text-white hover:bg-emerald-700">全員分をCSV保存</button>
+                </div>
+            </div>
+            <div class="mb-2 text-lg font-black">${h.officeRegistry ? `<span class="text-sm text-slate-400 font-bold">${escapeHTML(h.officeRegistry)}</span>　` : ''}${escapeHTML(h.insuredNo)}　${escapeHTML(h.name)} <span class="text-sm text-slate-400 font-bold">${escapeHTML(h.kanaName)}</span></div>
+            <div class="border border-slate-200 rounded-2xl p-4 mb-8">${renderChart(h)}</div>
+
+            <h3 class="text-sm font-black text-slate-700 mb-2">標準報酬月額</h3>
+            <table class="w-full text-[12px] border border-slate-200 mb-8">
+                <thead class="bg-slate-800 text-white"><tr>
+                    <th class="${th} w-28">適用年月</th><th class="${th} w-16">区分</th>
+                    <th class="${th} text-right">健保</th><th class="${th} text-right w-24">増減</th>
+                    <th class="${th} text-right">厚年</th><th class="${th} text-right w-24">増減</th>
+                    <th class="${th}">通知書</th>
+                </tr></thead>
+                <tbody class="divide-y divide-slate-100">
+                    ${h.monthly.length === 0 ? '<tr><td colspan="7" class="px-3 py-6 text-center text-slate-400">決定はありません</td></tr>' : h.monthly.map((e, i) => {
+                        const d = monthlyDelta(h.monthly, i);
+                        return `<tr>
+                            <td class="px-3 py-2 font-mono">${e.dateAD || '-'}<div class="text-[10px] text-slate-400">${e.dateJP}</div></td>
+                            <td class="px-3 py-2"><span class="px-2 py-0.5 rounded bg-slate-100 font-bold">${e.kind}</span></td>
+                            <td class="px-3 py-2 text-right font-mono font-bold">${e.health.toLocaleString()}円</td>
+                            <td class="px-3 py-2 text-right font-mono">${i === 0 ? '' : deltaCell(d.health)}</td>
+                            <td class="px-3 py-2 text-right font-mono font-bold">${e.pension.toLocaleString()}円</td>
+                            <td class="px-3 py-2 text-right font-mono">${i === 0 ? '' : deltaCell(d.pension)}</td>
+                            <td class="px-3 py-2">${sourceButton(e)}</td>
+                        </tr>`;
+                    }).join('')}
+                </tbody>
+            </table>
+
+            <h3 class="text-sm font-black text-slate-700 mb-2">標準賞与額</h3>
+            <table class="w-full text-[12px] border border-slate-200">
+                <thead class="bg-slate-800 text-white"><tr>
+                    <th class="${th} w-28">支払年月日</th><th class="${th} text-right">健保</th><th class="${th} text-right">厚年</th><th class="${th}">通知書</th>
+                </tr></thead>
+                <tbody class="divide-y divide-slate-100">
+                    ${h.bonus.length === 0 ? '<tr><td colspan="4" class="px-3 py-6 text-center text-slate-400">賞与の決定はありません</td></tr>' : h.bonus.map(e => `<tr>
+                        <td class="px-3 py-2 font-mono">${e.dateAD || '-'}<div class="text-[10px] text-slate-400">${e.dateJP}</div></td>
+                        <td class="px-3 py-2 text-right font-mono font-bold">${e.health.toLocaleString()}円</td>
+                        <td class="px-3 py-2 text-right font-mono font-bold">${e.pension.toLocaleString()}円</td>
+                        <td class="px-3 py-2">${sourceButton(e)}</td>
+                    </tr>`).join('')}
+                </tbody>
+            </table>
+        </div>
+    `;
+};
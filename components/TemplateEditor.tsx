@@ -0,0 +1,104 @@
+import {
+    AMOUNT_UNIT_LABELS, AmountUnit, DATE_STYLE_LABELS, DateStyle, ExportTemplate, RAW_ROW_PREFIX, TEMPLATE_FIELDS, fieldLabel
+} from "../services/templateService";
+import { escapeHTML } from "../utils";
+
+// --- Export Template Menu & Editor ---
+// CSV保存ボタンから開くテンプレート選択メニューと、列構成を編集するモーダル。
+
+export interface TemplateEditorHandlers {
+    onChange: () => void;
+    onSave: (tpl: ExportTemplate) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+export const renderExportMenu = (templates: ExportTemplate[]) => `
+    <div id="export-menu" class="absolute right-8 top-full mt-2 w-[460px] bg-white border border-slate-200 rounded-2xl shadow-2xl z-50 no-print overflow-hidden">
+        <div class="px-5 py-3 border-b text-[12px] font-bold text-slate-500">出力テンプレートを選択</div>
+        ${templates.map(t => `
+            <div class="flex items-center gap-2 px-5 py-2 hover:bg-slate-50">
+                <div class="flex-1 min-w-0">
+                    <div class="text-[13px] font-bold text-slate-800 truncate">${escapeHTML(t.name)}${t.builtin ? ' <span class="text-[9px] px-1.5 py-0.5 rounded bg-slate-200 text-slate-500 align-middle">プリセット</span>' : ''}</div>
+                    <div class="text-[10px] text-slate-400 truncate">${t.columns.map(c => escapeHTML(c.header)).join(' / ')}｜${DATE_STYLE_LABELS[t.dateStyle]}・${AMOUNT_UNIT_LABELS[t.amountUnit]}</div>
+                </div>
+                <button class="tpl-csv px-3 py-1 rounded-lg text-[11px] font-bold bg-emerald-600 text-white" data-tpl="${escapeHTML(t.id)}">CSV</button>
+                <button class="tpl-xlsx px-3 py-1 rounded-lg text-[11px] font-bold bg-emerald-700 text-white" data-tpl="${escapeHTML(t.id)}">Excel</button>
+                <button class="tpl-edit px-3 py-1 rounded-lg text-[11px] font-bold border" data-tpl="${escapeHTML(t.id)}">${t.builtin ? '複製' : '編集'}</button>
+            </div>`).join('')}
+        <div class="flex justify-between px-5 py-3 border-t bg-slate-50">
+            <button id="tpl-new" class="text-[12px] font-bold text-blue-700 hover:underline">＋ 新しいテンプレート</button>
+            <button id="export-menu-close" class="text-[12px] font-bold text-slate-500 hover:underline">閉じる</button>
+        </div>
+    </div>
+`;
+
+export const renderTemplateEditor = (draft: ExportTemplate, rowKeys: string[]) => {
+    const fieldOptions = (selected: string) => `
+        <optgroup label="定義済みの項目">${TEMPLATE_FIELDS.map(f => `<option value="${f.id}" ${selected === f.id ? 'selected' : ''}>${escapeHTML(f.label)}</option>`).join('')}</optgroup>
+        <optgroup label="通知書の項目（XML）">${rowKeys.map(k => `<option value="${escapeHTML(RAW_ROW_PREFIX + k)}" ${selected === RAW_ROW_PREFIX + k ? 'selected' : ''}>${escapeHTML(k)}</option>`).join('')}</optgroup>
+        ${selected.startsWith(RAW_ROW_PREFIX) && !rowKeys.includes(selected.slice(RAW_ROW_PREFIX.length)) ? `<option value="${escapeHTML(selected)}" selected>${escapeHTML(fieldLabel(selected))}</option>` : ''}`;
+    return `
+        <div class="fixed inset-0 bg-slate-900/50 z-[60] flex items-center justify-center no-print">
+            <div id="tpl-editor" class="bg-white w-[820px] max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-8">
+                <h2 class="text-xl font-black mb-6">出力テンプレートの編集</h2>
+                <div class="grid grid-cols-3 gap-4 mb-6 text-[12px] font-bold text-slate-600">
+                    <label class="col-span-3">テンプレート名<input id="tpl-name" value="${escapeHTML(draft.name)}" class="mt-1 w-full border rounded-lg px-3 py-2 text-[13px]"></label>
+                    <label>日付の表記<select id="tpl-date" class="mt-1 w-full border rounded-lg px-2 py-2">${(Object.keys(DATE_STYLE_LABELS) as DateStyle[]).map(k => `<option value="${k}" ${draft.dateStyle === k ? 'selected' : ''}>${DATE_STYLE_LABELS[k]}</option>`).join('')}</select></label>
+                    <label>金額の単位<select id="tpl-unit" class="mt-1 w-full border rounded-lg px-2 py-2">${(Object.keys(AMOUNT_UNIT_LABELS) as AmountUnit[]).map(k => `<option value="${k}" ${draft.amountUnit === k ? 'selected' : ''}>${AMOUNT_UNIT_LABELS[k]}</option>`).join('')}</select></label>
+                </div>
+                <table class="w-full text-[12px] mb-4">
+                    <thead><tr class="text-slate-500 border-b"><th class="py-2 w-10">列</th><th class="py-2 text-left">出力する項目</th><th class="py-2 text-left">見出し</th><th class="py-2 w-32"></th></tr></thead>
+                    <tbody>
+                        ${draft.columns.map((c, i) => `
+                            <tr class="border-b border-slate-100">
+                                <td class="py-2 text-center font-mono text-slate-400">${i + 1}</td>
+                                <td class="py-2 pr-2"><select class="tpl-field w-full border rounded-lg px-2 py-1" data-idx="${i}">${fieldOptions(c.field)}</select></td>
+                                <td class="py-2 pr-2"><input class="tpl-header w-full border rounded-lg px-2 py-1" data-idx="${i}" value="${escapeHTML(c.header)}"></td>
+                                <td class="py-2 text-right whitespace-nowrap">
+                                    <button class="tpl-up px-2 py-1 border rounded" data-idx="${i}" ${i === 0 ? 'disabled' : ''}>↑</button>
+                                    <button class="tpl-down px-2 py-1 border rounded" data-idx="${i}" ${i === draft.columns.length - 1 ? 'disabled' : ''}>↓</button>
+                                    <button class="tpl-remove px-2 py-1 border rounded text-rose-600" data-idx="${i}">削除</button>
+                                </td>
+                            </tr>`).join('')}
+                    </tbody>
+                </table>
+                <button id="tpl-add" class="text-[12px] font-bold text-blue-700 hover:underline mb-8">＋ 列を追加</button>
+                <div class="flex justify-between">
+                    <div>${draft.builtin ? '' : `<button id="tpl-delete" class="px-4 py-2 rounded-lg text-[12px] font-bold text-rose-600 border border-rose-200 hover:bg-rose-50">削除</button>`}</div>
+                    <div class="flex gap-2">
+                        <button id="tpl-cancel" class="px-4 py-2 rounded-lg text-[12px] font-bold border">キャンセル</button>
+                        <button id="tpl-save" class="px-6 py-2 rounded-lg text-[12px] font-bold bg-blue-600 text-white" ${draft.columns.length === 0 ? 'disabled' : ''}>保存</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    `;
+};
+
+export const attachTemplateEditor = (draft: ExportTemplate, handlers: TemplateEditorHandlers) => {
+    const idxOf = (e: Event) => parseInt((e.currentTarget as HTMLElement).dataset.idx || "0");
+    const move = (from: number, to: number) => {
+        const [c] = draft.columns.splice(from, 1);
+        draft.columns.splice(to, 0, c);
+        handlers.onChange();
+    };
+    document.getElementById('tpl-name')?.addEventListener('change', (e: any) => { draft.name = e.target.value; });
+    document.getElementById('tpl-date')?.addEventListener('change', (e: any) => { draft.dateStyle = e.target.value; });
+    document.getElementById('tpl-unit')?.addEventListener('change', (e: any) => { draft.amountUnit = e.target.value; });
+    document.querySelectorAll('.tpl-field').forEach(el => el.addEventListener('change', (e: any) => {
+        const c = draft.columns[idxOf(e)];
+        // 見出しが項目名のままなら、項目の変更に合わせて見出しも差し替える
+        if (c.header === fieldLabel(c.field)) c.header = fieldLabel(e.target.value);
+        c.field = e.target.value;
+        handlers.onChange();
+    }));
+    document.querySelectorAll('.tpl-header').forEach(el => el.addEventListener('change', (e: any) => { draft.columns[idxOf(e)].header = e.target.value; }));
+    document.querySelectorAll('.tpl-up').forEach(el => el.addEventListener('click', (e) => { const i = idxOf(e); move(i, i - 1); }));
+    document.querySelectorAll('.tpl-down').forEach(el => el.addEventListener('click', (e) => { const i = idxOf(e); move(i, i + 1); }));
+    document.querySelectorAll('.tpl-remove').forEach(el => el.addEventListener('click', (e) => { draft.columns.splice(idxOf(e), 1); handlers.onChange(); }));
+    document.getElementById('tpl-add')?.addEventListener('click', () => { draft.columns.push({ field: TEMPLATE_FIELDS[0].id, header: TEMPLATE_FIELDS[0].label }); handlers.onChange(); });
+    document.getElementById('tpl-save')?.addEventListener('click', () => handlers.onSave(draft));
+    document.getElementById('tpl-delete')?.addEventListener('click', () => handlers.onDelete(draft.id));
+    document.getElementById('tpl-cancel')?.addEventListener('click', handlers.onClose);
+};
@@ -0,0 +1,67 @@
+import { escapeHTML } from "../utils";
+
+// --- Upload Progress ---
+// 読み込み中のファイルごとの状態と全体の進み具合。読込画面とサイドバーの先頭に表示する。
+
+export type UploadItemStatus = 'queued' | 'unzipping' | 'parsing' | 'done' | 'error' | 'cancelled';
+
+export interface UploadItem {
+    name: string;
+    status: UploadItemStatus;
+    error?: string;
+}
+
+export interface UploadState {
+    items: UploadItem[];
+    active: boolean;
+    cancelled: boolean;
+}
+
+export interface UploadProgressHandlers {
+    onCancel: () => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<UploadItemStatus, { label: string, cls: string }> = {
+    queued: { label: "待機", cls: "bg-slate-100 text-slate-400" },
+    unzipping: { label: "展開中", cls: "bg-blue-100 text-blue-700" },
+    parsing: { label: "解析中", cls: "bg-blue-100 text-blue-700" },
+    done: { label: "完了", cls: "bg-emerald-100 text-emerald-700" },
+    error: { label: "失敗", cls: "bg-rose-100 text-rose-700" },
+    cancelled: { label: "中止", cls: "bg-slate-200 text-slate-500" }
+};
+
+export const isUploadItemFinished = (item: UploadItem) => item.status === 'done' || item.status === 'error' || item.status === 'cancelled';
+
+export const renderUploadProgress = (upload: UploadState, message: string) => {
+    const finished = upload.items.filter(isUploadItemFinished).length;
+    const failed = upload.items.filter(i => i.status === 'error').length;
+    const percent = upload.items.length > 0 ? Math.round(finished / upload.items.length * 100) : 0;
+    // 処理中・失敗したファイルを先に並べ、完了済みは後ろに回す
+    const order: UploadItemStatus[] = ['unzipping', 'parsing', 'error', 'queued', 'cancelled', 'done'];
+    const items = [...upload.items].sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status));
+    return `
+        <div id="upload-progress" class="mb-4 p-3 rounded-xl border border-blue-100 bg-blue-50/50 text-[11px] no-print">
+            <div class="flex justify-between items-center gap-2 mb-2">
+                <span class="font-black text-slate-700 ${upload.active ? 'animate-pulse' : ''}">${escapeHTML(message)}</span>
+                ${upload.active
+                    ? '<button id="upload-cancel" class="shrink-0 px-2 py-1 rounded-lg font-bold border border-rose-200 text-rose-600 bg-white hover:bg-rose-50">中止</button>'
+                    : '<button id="upload-close" class="shrink-0 px-2 py-1 rounded-lg font-bold border bg-white hover:bg-slate-50">閉じる</button>'}
+            </div>
+            <div class="h-2 bg-slate-200 rounded-full overflow-hidden"><div class="h-2 bg-blue-600" style="width:${percent}%"></div></div>
+            <div class="mt-1 text-slate-500 font-bold">${finished} / ${upload.items.length} 件${failed > 0 ? ` <span class="text-rose-600">（失敗 ${failed} 件）</span>` : ''}</div>
+            <ul class="mt-2 max-h-48 overflow-y-auto space-y-0.5">
+                ${items.map(i => `
+                    <li class="flex items-center gap-2">
+                        <span class="shrink-0 w-12 text-center px-1 py-0.5 rounded text-[9px] font-black ${STATUS_LABELS[i.status].cls}" ${i.error ? `title="${escapeHTML(i.error)}"` : ''}>${STATUS_LABELS[i.status].label}</span>
+                        <span class="truncate text-slate-600" title="${escapeHTML(i.name)}">${escapeHTML(i.name.split('/').pop() || i.name)}</span>
+                    </li>`).join('')}
+            </ul>
+        </div>
+    `;
+};
+
+export const attachUploadProgress = (handlers: UploadProgressHandlers) => {
+    document.getElementById('upload-cancel')?.addEventListener('click', handlers.onCancel);
+    document.getElementById('upload-close')?.addEventListener('click', handlers.onClose);
+};
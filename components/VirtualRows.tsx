@@ -0,0 +1,114 @@
+// --- Virtualized Table Rows ---
+// 行数の多い表は tbody にスクロール位置付近の行だけを描画し、前後を高さだけの空行で埋める。
+// 行の高さは描画した行の実測値で補正し、印刷時は全行を描画する。
+
+export interface VirtualRowsSpec {
+    id: string;
+    count: number;
+    rowHeight: number;
+    colSpan: number;
+    renderRow: (index: number) => string;
+}
+
+interface MountedRows extends VirtualRowsSpec {
+    range: string;
+}
+
+export const VIRTUAL_THRESHOLD = 200;
+const OVERSCAN = 12;
+const INITIAL_ROWS = 60;
+
+const mounted = new Map<string, MountedRows>();
+let scrollParent: HTMLElement | null = null;
+let frame = 0;
+let printing = false;
+
+export const shouldVirtualize = (count: number) => count > VIRTUAL_THRESHOLD;
+
+const spacer = (height: number, colSpan: number) =>
+    height > 0 ? `<tr class="virtual-spacer" aria-hidden="true" style="height:${height}px"><td colspan="${colSpan}" style="padding:0;border:0"></td></tr>` : '';
+
+const renderRange = (spec: VirtualRowsSpec, start: number, end: number) => {
+    const rows: string[] = [];
+    for (let i = start; i < end; i++) rows.push(spec.renderRow(i));
+    return `${spacer(start * spec.rowHeight, spec.colSpan)}${rows.join('')}${spacer((spec.count - end) * spec.rowHeight, spec.colSpan)}`;
+};
+
+// 件数が閾値以下なら全行、超える場合は先頭の一部だけを返す（残りは refreshVirtualRows で描画する）
+export const renderVirtualRows = (spec: VirtualRowsSpec) => {
+    if (!shouldVirtualize(spec.count)) {
+        mounted.delete(spec.id);
+        return renderRange(spec, 0, spec.count);
+    }
+    const end = Math.min(spec.count, INITIAL_ROWS);
+    mounted.set(spec.id, { ...spec, range: `0:${end}` });
+    return renderRange(spec, 0, end);
+};
+
+const measure = (tbody: HTMLElement, spec: MountedRows) => {
+    const rows = Array.from(tbody.children).filter(r => !r.classList.contains('virtual-spacer')) as HTMLElement[];
+    if (rows.length === 0) return;
+    const avg = rows.reduce((s, r) => s + r.offsetHeight, 0) / rows.length;
+    if (avg > 0) spec.rowHeight = avg;
+};
+
+const updateOne = (spec: MountedRows) => {
+    const tbody = document.getElementById(spec.id);
+    if (!tbody) { mounted.delete(spec.id); return; }
+    const view = scrollParent ? scrollParent.getBoundingClientRect() : { top: 0, height: window.innerHeight };
+    const offset = view.top - tbody.getBoundingClientRect().top;
+    const start = Math.max(0, Math.min(spec.count, Math.floor(offset / spec.rowHeight) - OVERSCAN));
+    const end = Math.max(start, Math.min(spec.count, Math.ceil((offset + view.height) / spec.rowHeight) + OVERSCAN));
+    const range = `${start}:${end}`;
+    if (range === spec.range) return;
+    spec.range = range;
+    tbody.innerHTML = renderRange(spec, start, end);
+    measure(tbody, spec);
+};
+
+export const refreshVirtualRows = () => {
+    if (printing) return;
+    mounted.forEach(updateOne);
+};
+
+const schedule = () => {
+    if (frame) return;
+    frame = requestAnimationFrame(() => { frame = 0; refreshVirtualRows(); });
+};
+
+// スクロール領域は画面の骨組みを作るときに一度だけ登録する
+export const mountVirtualScroller = (el: HTMLElement) => {
+    scrollParent = el;
+    el.addEventListener('scroll', schedule, { passive: true });
+};
+
+// tbody の data-focus に指定された行を画面中央へスクロールする
+export const revealVirtualRow = (id: string) => {
+    const tbody = document.getElementById(id);
+    const index = parseInt(tbody?.dataset.focus ?? "-1", 10);
+    if (!tbody || index < 0) return;
+    const spec = mounted.get(id);
+    if (!spec) { tbody.children[index]?.scrollIntoView({ block: 'center' }); return; }
+    if (!scrollParent) return;
+    // 実測した行の高さで位置がずれるため、描画し直した後にもう一度合わせる
+    for (let pass = 0; pass < 2; pass++) {
+        const view = scrollParent.getBoundingClientRect();
+        const rowTop = tbody.getBoundingClientRect().top + index * spec.rowHeight;
+        scrollParent.scrollTop += rowTop - view.top - (view.height - spec.rowHeight) / 2;
+        updateOne(spec);
+    }
+};
+
+window.addEventListener('resize', schedule);
+window.addEventListener('beforeprint', () => {
+    printing = true;
+    mounted.forEach(spec => {
+        const tbody = document.getElementById(spec.id);
+        if (tbody) tbody.innerHTML = renderRange(spec, 0, spec.count);
+        spec.range = "";
+    });
+});
+window.addEventListener('afterprint', () => {
+    printing = false;
+    refreshVirtualRows();
+});
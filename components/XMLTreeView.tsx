@@ -1 +1,171 @@
-// Consolidated into index.tsx
\ No newline at end of file
+import { XMLNode } from "../types";
+import { childPathSegments, escapeHTML, nodeText } from "../utils";
+
+// --- XML Structure Explorer ---
+// 展開中のノードだけを描画する折りたたみ式ツリー。パスは flattenXML と同じ「ルート/子要素/同名要素[n]」形式。
+
+export interface XMLTreeState {
+    expanded: Set<string>;
+    selected: string;
+    query: string;
+}
+
+export interface XMLTreeHandlers {
+    onChange: () => void;
+    onJump: (path: string) => void;
+}
+
+const DEFAULT_DEPTH = 2;
+const MAX_VALUE_LENGTH = 80;
+
+export const createXMLTreeState = (root?: XMLNode): XMLTreeState => {
+    const expanded = new Set<string>();
+    const walk = (node: XMLNode, path: string, depth: number) => {
+        if (depth >= DEFAULT_DEPTH || node.children.length === 0) return;
+        expanded.add(path);
+        const segs = childPathSegments(node);
+        node.children.forEach((c, i) => walk(c, `${path}/${segs[i]}`, depth + 1));
+    };
+    if (root) walk(root, root.name, 0);
+    return { expanded, selected: "", query: "" };
+};
+
+const highlight = (text: string, query: string): string => {
+    const safe = escapeHTML(text);
+    if (!query) return safe;
+    const q = escapeHTML(query).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return safe.replace(new RegExp(q, 'gi'), m => `<mark class="bg-yellow-300 text-slate-900 rounded px-0.5">${m}</mark>`);
+};
+
+const truncate = (text: string) => text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+
+const nodeMatches = (node: XMLNode, q: string): boolean =>
+    node.name.toLowerCase().includes(q)
+    || (node.content || "").toLowerCase().includes(q)
+    || (node.attributes || []).some(a => a.name.toLowerCase().includes(q) || a.value.toLowerCase().includes(q));
+
+// 検索語に一致するノードのパスと、それらを表示するために開く必要がある祖先のパスを求める
+const searchTree = (root: XMLNode, query: string) => {
+    const matches: string[] = [];
+    const ancestors = new Set<string>();
+    const q = query.toLowerCase();
+    if (!q) return { matches, ancestors };
+    const walk = (node: XMLNode, path: string, chain: string[]) => {
+        if (nodeMatches(node, q)) {
+            matches.push(path);
+            chain.forEach(p => ancestors.add(p));
+        }
+        const segs = childPathSegments(node);
+        node.children.forEach((c, i) => walk(c, `${path}/${segs[i]}`, [...chain, path]));
+    };
+    walk(root, root.name, []);
+    return { matches, ancestors };
+};
+
+const countDescendants = (node: XMLNode): number =>
+    node.children.reduce((s, c) => s + 1 + countDescendants(c), 0);
+
+const renderBreadcrumbs = (path: string) => {
+    const segs = path.split('/');
+    return segs.map((seg, i) => {
+        const p = segs.slice(0, i + 1).join('/');
+        return `<button class="tree-select hover:underline ${i === segs.length - 1 ? 'text-blue-700 font-black' : 'text-slate-500'}" data-path="${escapeHTML(p)}">${escapeHTML(seg)}</button>`;
+    }).join('<span class="text-slate-300 mx-1">/</span>');
+};
+
+export const renderXMLTreeView = (root: XMLNode | undefined, st: XMLTreeState): string => {
+    if (!root) {
+        return `<div class="text-center p-20 bg-white rounded-3xl shadow">表示対象のXMLがありません</div>`;
+    }
+    const { matches, ancestors } = searchTree(root, st.query);
+    const matchSet = new Set(matches);
+    const isOpen = (path: string) => st.expanded.has(path) || ancestors.has(path);
+
+    const renderNode = (node: XMLNode, path: string, depth: number): string => {
+        const hasChildren = node.children.length > 0;
+        const open = hasChildren && isOpen(path);
+        const value = node.content !== undefined ? node.content : node.mixed ? nodeText(node) : undefined;
+        const attrs = (node.attributes || []).map(a =>
+            `<span class="text-violet-600">@${highlight(a.name, st.query)}</span>=<span class="text-violet-900">"${highlight(truncate(a.value), st.query)}"</span>`
+        ).join(' ');
+        const segs = hasChildren ? childPathSegments(node) : [];
+        const label = path.split('/').pop() || node.name;
+        return `
+            <div>
+                <div class="flex items-center gap-2 py-0.5 pr-2 rounded-lg cursor-pointer ${st.selected === path ? 'bg-blue-100' : matchSet.has(path) ? 'bg-yellow-50' : 'hover:bg-slate-100'}" style="padding-left:${depth * 18}px">
+                    ${hasChildren
+                        ? `<button class="tree-toggle w-5 h-5 flex items-center justify-center text-slate-500 hover:text-slate-900 font-bold" data-path="${escapeHTML(path)}">${open ? '▾' : '▸'}</button>`
+                        : `<span class="w-5 h-5 inline-block"></span>`}
+                    <span class="tree-select font-bold text-blue-900" data-path="${escapeHTML(path)}">${highlight(label, st.query)}</span>
+                    ${hasChildren ? `<span class="text-[10px] text-slate-400 font-bold">${node.children.length}子 / ${countDescendants(node)}要素</span>` : ''}
+                    ${attrs ? `<span class="text-[11px] font-mono">${attrs}</span>` : ''}
+                    ${value !== undefined ? `<span class="text-slate-700 font-mono text-[12px] truncate">${value === "" ? '<span class="text-slate-300">（空）</span>' : highlight(truncate(value), st.query)}</span>` : ''}
+                </div>
+                ${open ? node.children.map((c, i) => renderNode(c, `${path}/${segs[i]}`, depth + 1)).join('') : ''}
+            </div>`;
+    };
+
+    return `
+        <div class="bg-white w-[1100px] mx-auto p-8 rounded-3xl shadow-xl border border-slate-200" id="xml-tree">
+            <div class="flex items-center justify-between mb-4 gap-4">
+                <h2 class="text-2xl font-black text-slate-900">XML構造解析</h2>
+                <div class="flex items-center gap-2 no-print">
+                    <input id="tree-search" type="search" value="${escapeHTML(st.query)}" placeholder="タグ名・値・属性で検索" class="border rounded-lg px-3 py-2 text-[13px] w-72">
+                    <button id="tree-search-btn" class="px-4 py-2 rounded-lg text-[12px] font-bold bg-slate-800 text-white">検索</button>
+                    <button id="tree-expand-all" class="px-3 py-2 rounded-lg text-[12px] font-bold border">全て展開</button>
+                    <button id="tree-collapse-all" class="px-3 py-2 rounded-lg text-[12px] font-bold border">全て閉じる</button>
+                </div>
+            </div>
+            ${st.query ? `<p class="text-[12px] font-bold mb-3 ${matches.length > 0 ? 'text-amber-700' : 'text-slate-400'}">「${escapeHTML(st.query)}」: ${matches.length}件一致</p>` : ''}
+            ${st.selected ? `
+                <div class="sticky top-0 z-10 mb-4 flex items-center justify-between gap-4 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-[12px] font-mono">
+                    <div class="flex flex-wrap items-center">${renderBreadcrumbs(st.selected)}</div>
+                    <div class="flex gap-2 shrink-0 font-sans no-print">
+                        <button id="tree-copy" class="px-3 py-1 rounded-lg font-bold bg-white border hover:bg-slate-100">パスをコピー</button>
+                        <button id="tree-jump" class="px-3 py-1 rounded-lg font-bold bg-blue-600 text-white hover:bg-blue-700">全項目一覧で表示</button>
+                    </div>
+                </div>` : ''}
+            <div class="text-[13px] leading-relaxed">${renderNode(root, root.name, 0)}</div>
+        </div>
+    `;
+};
+
+const collectPaths = (root: XMLNode): string[] => {
+    const out: string[] = [];
+    const walk = (node: XMLNode, path: string) => {
+        if (node.children.length === 0) return;
+        out.push(path);
+        const segs = childPathSegments(node);
+        node.children.forEach((c, i) => walk(c, `${path}/${segs[i]}`));
+    };
+    walk(root, root.name);
+    return out;
+};
+
+export const attachXMLTreeView = (root: XMLNode | undefined, st: XMLTreeState, handlers: XMLTreeHandlers) => {
+    const container = document.getElementById('xml-tree');
+    if (!container || !root) return;
+    container.addEventListener('click', (e) => {
+        const target = (e.target as HTMLElement).closest('[data-path]') as HTMLElement | null;
+        if (!target) return;
+        const path = target.dataset.path || "";
+        if (target.classList.contains('tree-toggle')) {
+            if (st.expanded.has(path)) st.expanded.delete(path); else st.expanded.add(path);
+        } else {
+            st.selected = path;
+            const segs = path.split('/');
+            for (let i = 1; i < segs.length; i++) st.expanded.add(segs.slice(0, i).join('/'));
+        }
+        handlers.onChange();
+    });
+    const search = () => {
+        st.query = ((document.getElementById('tree-search') as HTMLInputElement | null)?.value || "").trim();
+        handlers.onChange();
+    };
+    document.getElementById('tree-search-btn')?.addEventListener('click', search);
+    document.getElementById('tree-search')?.addEventListener('keydown', (e) => { if ((e as KeyboardEvent).key === 'Enter') search(); });
+    document.getElementById('tree-expand-all')?.addEventListener('click', () => { collectPaths(root).forEach(p => st.expanded.add(p)); handlers.onChange(); });
+    document.getElementById('tree-collapse-all')?.addEventListener('click', () => { st.expanded.clear(); handlers.onChange(); });
+    document.getElementById('tree-copy')?.addEventListener('click', () => { navigator.clipboard?.writeText(st.selected); });
+    document.getElementById('tree-jump')?.addEventListener('click', () => handlers.onJump(st.selected));
+};
@@ -1,514 +1,224 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import JSZip from "jszip";
-
-// --- Types ---
-interface XMLNode {
-    name: string;
-    content?: string;
-    children: XMLNode[];
-}
+import {
+    CustomInsurer, InsuranceRates, KYOKAI_ID, PREFECTURES, RATE_VERSION_MISSING_LABEL, ResolvedRates,
+    loadCustomInsurers, parsePrefCode, resolveRates, saveCustomInsurers, toYearMonth
+} from "./services/rateService";
+import { HEALTH_BONUS_ANNUAL_CAP, PENSION_BONUS_MONTHLY_CAP, computeBonusCaps } from "./services/bonusCapService";
+import { CalcOptions, DeductionResult, DeductionRow, PremiumBreakdown, ROUNDING_LABELS, RoundingMode, calculateDeductions, getReferenceDate, simulateSalary } from "./services/calcService";
+import {
+    DocumentExplanation, ExplanationProvider, createOfflineExplanationProvider, redactForExplanation, restoreAliases
+} from "./services/explanationService";
+import { createGeminiProvider } from "./services/geminiService";
+import { ENCODING_LABELS, ENCODING_SOURCE_LABELS } from "./services/encodingService";
+import { matchStylesheet, transformWithStylesheet } from "./services/xslService";
+import { buildAppFile } from "./services/documentService";
+import { ImportResult, ImportTask, caseFolderOf, isDocumentPath, isStylesheetPath } from "./services/importService";
+import { caseTables } from "./services/batchService";
+import { ImportCancelledError, ImportPool, createImportPool } from "./services/workerPool";
+import { SearchEntry, buildSearchIndex, searchEntries } from "./services/searchService";
+import { buildEmployeeHistories, historyCSVRows, historyKey } from "./services/historyService";
+import { Diagnostic, listValidationRules, validateCase } from "./services/validationService";
+import { XMLTreeState, attachXMLTreeView, createXMLTreeState, renderXMLTreeView } from "./components/XMLTreeView";
+import { renderRemunerationTimeline } from "./components/RemunerationTimeline";
+import { renderDocumentSheet } from "./components/DocumentSheets";
+import { attachGradeSimulator, createSimulatorState, renderGradeLabel, renderGradeSimulator, renderSimulatorResults } from "./components/GradeSimulator";
+import { attachDiagnosticsPanel, renderDiagnosticBadges, renderDiagnosticsPanel } from "./components/DiagnosticsPanel";
+import { CompareState, computeCompare, getFileByRef, renderCompareView } from "./components/CompareView";
+import { fieldDiffCSVRows, rowDiffCSVRows } from "./services/diffService";
+import { ExportTable, allFieldsTable, calculatorTable, tableToCSV } from "./services/exportService";
+import { documentTable, supportsCalculator, usesPayrollTemplates } from "./services/docTypeService";
+import { buildXLSX } from "./services/xlsxService";
+import { BUILTIN_TEMPLATES, ExportTemplate, applyTemplate, loadExportTemplates, saveExportTemplates } from "./services/templateService";
+import { attachTemplateEditor, renderExportMenu, renderTemplateEditor } from "./components/TemplateEditor";
+import { deleteCase, listStoredCases, loadCase, loadLibrarySettings, pruneCases, saveCase, saveLibrarySettings } from "./services/libraryService";
+import { LibraryState, renderLibraryView, renderRecentCases } from "./components/LibraryView";
+import { UploadItem, UploadState, attachUploadProgress, isUploadItemFinished, renderUploadProgress } from "./components/UploadProgress";
+import { mountVirtualScroller, refreshVirtualRows, renderVirtualRows, revealVirtualRow, shouldVirtualize } from "./components/VirtualRows";
+import { RouteState, buildRoute, parseRoute } from "./services/routeService";
+import { AppFile, CaseEntry, TextEncodingName, UniversalData, XMLNode } from "./types";
+import { escapeHTML, flattenXML, normalize, toCSV } from "./utils";
 
-interface UniversalData {
-    docType: 'SUMMARY' | 'NOTICE' | 'ANNOUNCEMENT' | 'BONUS_NOTICE';
-    title: string;
-    creationDateJP?: string;
-    docNo?: string;
-    idInfoPrefix?: string;
-    idInfoSuffix?: string;
-    officeRegistry?: { pref: string, dist: string, code: string };
-    officeNo?: string;
-    counts?: Record<string, string>;
-    zipCodePrefix?: string;
-    zipCodeSuffix?: string;
-    address?: string;
-    companyName?: string;
-    ownerName?: string;
-    phone?: { area: string, city: string, num: string };
-    submissionDateJP?: string;
-    attachmentStatus?: { mail: boolean, elec: boolean, none: boolean };
-    paperNoticeDesired?: boolean;
-    proxyName?: string;
-    remarks?: string;
-    arrivalNumber?: string;
-    noticeBox?: string;
-    rows: any[];
-    officeRegistryNotice?: string;
-    officeNoNotice?: string;
-    pensionOffice?: string;
-    noticeMgmtNo?: string;
-    noticeMgmtBranch?: string;
-    senderAff?: string;
-    senderName?: string;
-    mainText?: string[];
-    appendices?: { title: string, text?: string }[];
-    recipient?: { aff?: string, name?: string, honorific?: string };
-}
+// --- App State ---
+type ViewMode = 'summary' | 'tree' | 'calculator' | 'all' | 'explain' | 'official' | 'history' | 'compare' | 'diagnostics';
 
-interface AppFile {
-    name: string;
-    fullPath: string;
-    content: string;
-    parsed?: XMLNode;
-    analysis?: UniversalData;
-}
+const VIEW_MODES: ViewMode[] = ['summary', 'tree', 'calculator', 'all', 'explain', 'official', 'history', 'compare', 'diagnostics'];
 
-interface CaseEntry {
-    folderName: string;
-    files: AppFile[];
-    isOpen: boolean;
+interface ExplanationState {
+    status: 'loading' | 'done' | 'error';
+    providerLabel: string;
+    result?: DocumentExplanation;
+    error?: string;
 }
 
-// --- App State ---
+const explanationProviders: ExplanationProvider[] = [
+    ...(process.env.API_KEY ? [createGeminiProvider(process.env.API_KEY)] : []),
+    createOfflineExplanationProvider()
+];
+
 const state = {
     cases: [] as CaseEntry[],
     selectedCaseIdx: -1,
     selectedFileIdx: -1,
-    viewMode: 'summary' as 'summary' | 'tree' | 'calculator' | 'all',
+    viewMode: 'summary' as ViewMode,
+    officialCompare: false,
     isLoading: false,
     loadingMsg: "",
-    rates: { 
-        health: 10.0,
-        pension: 18.3,
-        nursing: 1.6,
+    upload: null as UploadState | null,
+    rates: {
+        insurerId: KYOKAI_ID,
+        prefCode: "",
+        overrides: {} as Partial<InsuranceRates>,
+        rounding: 'fiftySen' as RoundingMode,
         isNursingTarget: true
-    }
+    },
+    customInsurers: loadCustomInsurers() as CustomInsurer[],
+    simulator: createSimulatorState(),
+    explainProviderId: explanationProviders[0].id,
+    explanations: new WeakMap<AppFile, ExplanationState>(),
+    treeStates: new WeakMap<AppFile, XMLTreeState>(),
+    allFieldsFocus: "",
+    noticeFocusRow: -1,
+    historyKey: "",
+    compare: { left: null, right: null, mode: 'rows', hideUnchanged: false } as CompareState,
+    customTemplates: loadExportTemplates() as ExportTemplate[],
+    exportMenuOpen: false,
+    templateDraft: null as ExportTemplate | null,
+    showLibrary: false,
+    library: { items: [], loaded: false, message: "", ...loadLibrarySettings() } as LibraryState,
+    search: { query: "", open: false },
+    searchIndex: null as SearchEntry[] | null
 };
 
-// --- Utilities ---
-const normalize = (val: any): string => {
-    if (val === undefined || val === null) return "";
-    return String(val).replace(/[０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0)).trim();
+const getTreeState = (f?: AppFile): XMLTreeState => {
+    if (!f) return createXMLTreeState();
+    if (!state.treeStates.has(f)) state.treeStates.set(f, createXMLTreeState(f.parsed));
+    return state.treeStates.get(f)!;
 };
 
-const escapeHTML = (val: any): string => {
-    if (val === undefined || val === null) return "";
-    return String(val)
-        .replace(/&/g, "&amp;")
-        .replace(/</g, "&lt;")
-        .replace(/>/g, "&gt;");
-};
+// 検証結果は案件のファイル構成が変わるまで使い回す（読み込み中の追加・文字コードの変更で作り直す）
+const diagnosticsCache = new WeakMap<CaseEntry, { files: AppFile[], result: Map<AppFile, Diagnostic[]> }>();
 
-const parseStandardAmount = (val: string): number => {
-    if (!val) return 0;
-    const cleaned = normalize(val).replace(/[^0-9]/g, "");
-    return parseInt(cleaned, 10) || 0;
+const getCaseDiagnostics = (ci: number): Map<AppFile, Diagnostic[]> => {
+    const c = state.cases[ci];
+    if (!c) return new Map();
+    const cached = diagnosticsCache.get(c);
+    if (cached && cached.files.length === c.files.length && cached.files.every((f, i) => f === c.files[i])) return cached.result;
+    const result = validateCase(c.files);
+    diagnosticsCache.set(c, { files: [...c.files], result });
+    return result;
 };
 
-const calculateAge = (birthDateAD: string): number => {
-    if (!birthDateAD) return 0;
-    const birth = new Date(birthDateAD);
-    const today = new Date();
-    let age = today.getFullYear() - birth.getFullYear();
-    const m = today.getMonth() - birth.getMonth();
-    if (m < 0 || (m === 0 && today.getDate() < birth.getDate())) {
-        age--;
+// --- Rate Resolution ---
+const getDocPrefCode = (data: UniversalData): string =>
+    parsePrefCode(data.officeRegistry?.pref) || parsePrefCode(data.officeRegistryNotice);
+
+const getDocYearMonth = (data: UniversalData): string => {
+    const isBonus = data.docType === 'BONUS_NOTICE';
+    for (const r of data.rows) {
+        const d = getReferenceDate(r, isBonus);
+        if (d) return toYearMonth(d);
     }
-    return age;
-};
-
-const ERA_MAP: Record<string, string> = { "1": "明治", "3": "大正", "5": "昭和", "7": "平成", "9": "令和", "S": "昭和", "H": "平成", "R": "令和" };
-const ERA_OFFSETS: Record<string, number> = { "1": 1867, "3": 1911, "5": 1925, "7": 1988, "9": 2018, "S": 1925, "H": 1988, "R": 2018 };
-
-const getFormattedDates = (g: any, y: any, m: any, d: any = "1") => {
-    const gn = normalize(g);
-    const yn = parseInt(normalize(y).replace(/[^0-9]/g, ""), 10);
-    const mn = parseInt(normalize(m).replace(/[^0-9]/g, ""), 10);
-    const dn = parseInt(normalize(d).replace(/[^0-9]/g, ""), 10);
-    if (isNaN(yn)) return { ad: "", jp: "", fullJp: "" };
-    const offset = ERA_OFFSETS[gn] || 0;
-    const yearAD = yn + offset;
-    const eraName = ERA_MAP[gn] || "令和";
-    const eraChar = gn.length === 1 && !isNaN(parseInt(gn)) ? (gn === "9" ? "R" : gn === "7" ? "H" : gn === "5" ? "S" : gn) : gn;
-    
-    return {
-        ad: `${yearAD}/${String(mn).padStart(2, '0')}/${String(dn).padStart(2, '0')}`,
-        jp: `${eraChar}${String(yn).padStart(2, '0')}.${String(mn).padStart(2, '0')}.${String(dn).padStart(2, '0')}`,
-        fullJp: `${eraName} ${yn} 年 ${mn} 月 ${dn} 日`
-    };
+    return "";
 };
 
-const getRowDate = (row: Record<string, any>, prefixes: string[], defaultDay: string = "1") => {
-    const tryPrefix = (prefix: string) => {
-        const g = row[`${prefix}_元号`];
-        const y = row[`${prefix}_年`];
-        const m = row[`${prefix}_月`];
-        const d = row[`${prefix}_日`];
-        if (g || y || m || d) return { g, y, m, d };
-        const g2 = row[`${prefix}元号`];
-        const y2 = row[`${prefix}年`];
-        const m2 = row[`${prefix}月`];
-        const d2 = row[`${prefix}日`];
-        if (g2 || y2 || m2 || d2) return { g: g2, y: y2, m: m2, d: d2 };
-        return null;
-    };
+const getActiveRates = (data: UniversalData): ResolvedRates => resolveRates({
+    prefCode: state.rates.prefCode || getDocPrefCode(data),
+    yearMonth: getDocYearMonth(data),
+    insurerId: state.rates.insurerId,
+    customInsurers: state.customInsurers,
+    overrides: state.rates.overrides
+});
 
-    for (const p of prefixes) {
-        const parts = tryPrefix(p);
-        if (parts) {
-            return getFormattedDates(parts.g, parts.y, parts.m, parts.d || defaultDay);
-        }
-    }
+// 同一案件に含まれる全ての標準賞与額決定通知書を合算して上限を判定する
+const getCaseBonusCaps = (caseIdx: number) => computeBonusCaps(
+    (state.cases[caseIdx]?.files || []).filter(f => f.analysis).map(f => ({ fileName: f.name, data: f.analysis! }))
+);
 
-    for (const p of prefixes) {
-        const keys = Object.keys(row);
-        const yKey = keys.find(k => k.includes(p) && k.endsWith("_年"));
-        const mKey = keys.find(k => k.includes(p) && k.endsWith("_月"));
-        const gKey = keys.find(k => k.includes(p) && k.endsWith("_元号"));
-        const dKey = keys.find(k => k.includes(p) && k.endsWith("_日"));
-        if (yKey || mKey || gKey || dKey) {
-            return getFormattedDates(row[gKey || ""], row[yKey || ""], row[mKey || ""], row[dKey || ""] || defaultDay);
-        }
-    }
+// 報酬月額の試算は表示中の書類と同じ料率・等級表（適用年月）で行う
+const getSimulation = (data: UniversalData) => simulateSalary(state.simulator.salary, state.simulator.age, getDocYearMonth(data), {
+    rates: getActiveRates(data),
+    rounding: state.rates.rounding,
+    autoNursing: state.rates.isNursingTarget
+});
 
-    return { ad: "", jp: "", fullJp: "" };
-};
-
-const flattenXML = (root: XMLNode) => {
-    const rows: { path: string; value: string }[] = [];
-    const walk = (node: XMLNode, path: string) => {
-        if (node.content !== undefined) rows.push({ path, value: node.content });
-        const totals: Record<string, number> = {};
-        node.children.forEach(c => { totals[c.name] = (totals[c.name] || 0) + 1; });
-        const seen: Record<string, number> = {};
-        node.children.forEach(child => {
-            const count = totals[child.name] || 0;
-            const idx = (seen[child.name] || 0) + 1;
-            seen[child.name] = idx;
-            const seg = count > 1 ? `${child.name}[${idx}]` : child.name;
-            const nextPath = path ? `${path}/${seg}` : seg;
-            walk(child, nextPath);
-        });
-    };
-    walk(root, root.name);
-    return rows;
+const getCalcOptions = (data: UniversalData): CalcOptions => ({
+    rates: getActiveRates(data),
+    rounding: state.rates.rounding,
+    autoNursing: state.rates.isNursingTarget,
+    bonusCaps: data.docType === 'BONUS_NOTICE' ? getCaseBonusCaps(state.selectedCaseIdx) : undefined
+});
+
+// --- Export Functions ---
+// 表示中のビューに対応する表を作る（控除計算 → 計算結果、全項目一覧 → パスと値、それ以外 → 書類ごとの表）
+const getCurrentExportTable = (): ExportTable | null => {
+    const cur = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx];
+    if (!cur) return null;
+    const data = cur.analysis;
+    if (state.viewMode === 'calculator' && data && supportsCalculator(data)) return getActiveRates(data).unavailable.length > 0 ? null : calculatorTable(calculateDeductions(data, getCalcOptions(data)), `${data.title}_控除シミュレーション`);
+    if (state.viewMode === 'all' || !data) return cur.parsed ? allFieldsTable(cur.parsed, `${cur.name.replace(/\.xml$/i, '')}_全項目一覧`) : null;
+    return documentTable(data, `${data.title}_データ一覧`);
 };
 
-// --- Data Extraction ---
-const extractDetailed = (node: XMLNode): UniversalData | null => {
-    const dataMap: Record<string, any> = {};
-    const mainText: string[] = [];
-    const appendices: { title: string, text?: string }[] = [];
-    let recipient: any = {};
-    let author: any = {};
+const downloadCSV = () => {
+    const table = getCurrentExportTable();
+    if (table) saveCSV(tableToCSV(table), `${table.name}.csv`);
+};
 
-    const traverse = (n: XMLNode) => {
-        if (n.content !== undefined && n.content !== "") {
-            dataMap[n.name] = n.content;
-        }
-        if (n.name === "P") {
-            if (n.content) mainText.push(n.content);
-        }
-        if (n.name === "APPENDIX") {
-            const titleNode = n.children.find(c => c.name === "APPTITLE");
-            if (titleNode && titleNode.content) {
-                appendices.push({ 
-                    title: titleNode.content,
-                    text: n.children.find(c => c.name === "APPTEXT")?.content
-                });
-            }
-        }
-        if (n.name === "TO") {
-            recipient.aff = n.children.find(c => c.name === "AFF")?.content;
-            recipient.name = n.children.find(c => c.name === "NAME")?.content;
-            recipient.honorific = n.children.find(c => c.name === "HONORIFC")?.content;
-        }
-        if (n.name === "AUTHOR") {
-            author.aff = n.children.find(c => c.name === "AFF")?.content;
-            author.name = n.children.find(c => c.name === "NAME")?.content;
-        }
-        n.children.forEach(traverse);
-    };
-    traverse(node);
-
-    if (node.name === "DOC" || dataMap["TITLE"] === "日本年金機構からのお知らせ") {
-        return {
-            docType: 'ANNOUNCEMENT',
-            title: dataMap["TITLE"] || "日本年金機構からのお知らせ",
-            docNo: dataMap["DOCNO"] || "",
-            creationDateJP: dataMap["DATE"] || "",
-            recipient: recipient,
-            senderAff: author.aff || "",
-            senderName: author.name || "",
-            mainText: mainText,
-            appendices: appendices,
-            rows: []
-        };
-    }
+const getExportTemplates = (): ExportTemplate[] => [...BUILTIN_TEMPLATES, ...state.customTemplates];
 
-    if (dataMap["識別情報x提出元ID"] || dataMap["届書総件数x届書合計"] || node.name === "DataRoot") {
-        const targetNode = node.children.find(c => c.name.includes("-001_1")) || node;
-        const creationNode = targetNode.children.find(c => c.name === "作成年月日");
-        const cY = creationNode?.children.find(c => c.name === "年")?.content;
-        const cM = creationNode?.children.find(c => c.name === "月")?.content;
-        const cD = creationNode?.children.find(c => c.name === "日")?.content;
-        const createDate = getFormattedDates("9", cY, cM, cD);
-        const submissionNode = targetNode.children.find(c => c.name === "提出年月日");
-        const sY = submissionNode?.children.find(c => c.name === "年")?.content;
-        const sM = submissionNode?.children.find(c => c.name === "月")?.content;
-        const sD = submissionNode?.children.find(c => c.name === "日")?.content;
-        const submissionDate = getFormattedDates("9", sY, sM, sD);
-        const phoneNode = targetNode.children.find(c => c.name === "電話番号");
-        const attachNode = targetNode.children.find(c => c.name === "添付書類");
-
-        return {
-            docType: 'SUMMARY',
-            title: "CSV形式届書総括票",
-            idInfoPrefix: dataMap["識別情報x提出元ID"] || "",
-            idInfoSuffix: dataMap["識別情報x通番"] || "",
-            creationDateJP: createDate.fullJp,
-            officeRegistry: {
-                pref: dataMap["事業所整理記号x都道府県コード"] || "",
-                dist: dataMap["事業所整理記号x郡市区記号"] || "",
-                code: dataMap["事業所整理記号x事業所記号"] || ""
-            },
-            officeNo: dataMap["事業所番号"] || "",
-            zipCodePrefix: dataMap["事業所所在地x郵便番号x親番号"] || "",
-            zipCodeSuffix: dataMap["事業所所在地x郵便番号x子番号"] || "",
-            address: dataMap["事業所所在地"] || "",
-            companyName: dataMap["事業所名称"] || "",
-            ownerName: dataMap["事業主氏名"] || "",
-            phone: {
-                area: phoneNode?.children.find(c => c.name === "市外局番")?.content || "",
-                city: phoneNode?.children.find(c => c.name === "局番")?.content || "",
-                num: phoneNode?.children.find(c => c.name === "番号")?.content || ""
-            },
-            submissionDateJP: submissionDate.fullJp,
-            attachmentStatus: {
-                mail: (attachNode?.children.find(c => c.name === "郵送")?.content === "1") || (dataMap["郵送"] === "1"),
-                elec: (attachNode?.children.find(c => c.name === "電子")?.content === "1") || (dataMap["電子"] === "1"),
-                none: (attachNode?.children.find(c => c.name === "なし")?.content === "1") || (dataMap["なし"] === "1")
-            },
-            paperNoticeDesired: dataMap["通知書希望形式"] === "1",
-            proxyName: dataMap["社会保険労務士の提出代行者名"] || "",
-            remarks: dataMap["備考"] || "",
-            counts: {
-                "資格取得": dataMap["届書総件数x資格取得届70歳以上被用者該当届"] || "",
-                "被扶養者": dataMap["届書数x被扶養者異動届国年3号被保険者関係届"] || "",
-                "資格喪失": dataMap["届書数x資格喪失届70歳以上被用者不該当届"] || "",
-                "月額変更": dataMap["届書数x月額変更届70歳以上被用者月額変更届"] || "",
-                "算定基礎": dataMap["届書数x算定基礎届70歳以上被用者算定基礎届"] || "",
-                "賞与支払": dataMap["届書数x賞与支払届70歳以上被用者賞与支払届"] || "",
-                "育児休業": dataMap["届書数x育児休業等取得者申出書終了届"] || dataMap["届書数x育児休業等取得者申出書(新規・延長)／終了届"] || "",
-                "産前産後": dataMap["届書数x産前産後休業取得者申出書変更届"] || dataMap["届書数x産前産後休業取得者申出書／変更(終了)届"] || "",
-                "合計": dataMap["届書総件数x届書合計"] || "",
-                "国年3号": dataMap["届書総件数x国年x国民年金第3号被保険者関係届"] || "",
-                "国年合計": dataMap["届書総件数x国年x届書合計"] || ""
-            },
-            rows: []
-        };
-    }
+// 通知書の帳票表示では、CSV保存ボタンから出力テンプレートを選ぶ
+const usesExportTemplates = (data?: UniversalData) =>
+    usesPayrollTemplates(data) && state.viewMode !== 'calculator' && state.viewMode !== 'all';
 
-    const rows: any[] = [];
-    const findRows = (n: XMLNode) => {
-        if (n.name === "_被保険者") {
-            const r: any = {};
-            n.children.forEach(c => r[c.name] = c.content);
-            if (!r["被保険者氏名"]) {
-                r["被保険者氏名"] =
-                    r["被保険者漢字氏名"] ||
-                    r["被保険者カナ氏名"] ||
-                    r["被保険者氏名_漢字"] ||
-                    r["氏名"] ||
-                    "";
-            }
-            rows.push(r);
-        }
-        n.children.forEach(findRows);
-    };
-    findRows(node);
-
-    if (rows.length > 0) {
-        const isBonus = JSON.stringify(rows).includes("賞与");
-        const h = rows[0];
-        return {
-            docType: isBonus ? 'BONUS_NOTICE' : 'NOTICE',
-            title: isBonus ? "健康保険・厚生年金保険 標準賞与額決定通知書" : "健康保険・厚生年金保険 被保険者標準報酬決定通知書",
-            rows,
-            arrivalNumber: h["到達番号_項目"] || "",
-            noticeBox: h["機構からのお知らせ"] || "",
-            zipCodeSuffix: h["事業所郵便番号_送付先"] || "",
-            address: h["事業所所在地_送付先"] || "",
-            companyName: h["事業所名称_送付先"] || "",
-            ownerName: h["事業主氏名_送付先"] || "",
-            creationDateJP: h["通知年月日"] || "",
-            officeRegistryNotice: h["事業所整理記号"] || "",
-            officeNoNotice: h["事業所番号"] || "",
-            pensionOffice: h["年金事務所名"] || "",
-            noticeMgmtNo: h["通知管理番号"] || "",
-            noticeMgmtBranch: h["通知管理番号枝番"] || "",
-        };
-    }
-    return null;
+const downloadWithTemplate = async (templateId: string, format: 'csv' | 'xlsx') => {
+    const data = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx]?.analysis;
+    const tpl = getExportTemplates().find(t => t.id === templateId);
+    if (!data || !tpl) return;
+    const table = applyTemplate(data, tpl);
+    if (format === 'csv') saveCSV(tableToCSV(table), `${table.name}.csv`);
+    else saveXLSX(await buildXLSX([table]), `${table.name}.xlsx`);
 };
 
-// --- Export Functions ---
-const downloadCSV = () => {
-    const data = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx]?.analysis;
-    if (!data) return;
-    const isBonus = data.docType === 'BONUS_NOTICE';
+const downloadXLSX = async () => {
+    const table = getCurrentExportTable();
+    if (!table) return;
+    saveXLSX(await buildXLSX([table]), `${table.name}.xlsx`);
+};
 
-    let csv = "";
-    if (state.viewMode === 'calculator') {
-        const headers = ["氏名", "年齢", "健保標準額", "厚年標準額", "健保控除", "厚年控除", "介護控除", "控除額合計"];
-        csv = [headers.join(","), ...data.rows.map(r => {
-            const birthData = getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]);
-            const age = calculateAge(birthData.ad);
-            const rawAmtH = parseStandardAmount(r[isBonus ? "決定後の標準賞与額_健保" : "決定後の標準報酬月額_健保"]);
-            const rawAmtP = parseStandardAmount(r[isBonus ? "決定後の標準賞与額_厚年" : "決定後の標準報酬月額_厚年"]);
-            const amtH = rawAmtH * 1000;
-            const amtP = rawAmtP * 1000;
-            const isNursingTargetAge = age >= 40 && age <= 64;
-            const isNursingActive = state.rates.isNursingTarget ? isNursingTargetAge : false;
-            const hDeduct = Math.floor(amtH * (state.rates.health / 100) / 2);
-            const pDeduct = Math.floor(amtP * (state.rates.pension / 100) / 2);
-            const nDeduct = isNursingActive ? Math.floor(amtH * (state.rates.nursing / 100) / 2) : 0;
-            const total = hDeduct + pDeduct + nDeduct;
-            return [`"${normalize(r["被保険者氏名"])}"`, age, amtH, amtP, hDeduct, pDeduct, nDeduct, total].join(",");
-        })].join("\n");
-    } else {
-        const h = ["整理番号", "氏名", "支払日/適用月", "標準額(健保)", "標準額(厚年)", "生年月日", "種別"];
-        csv = [h.join(","), ...data.rows.map(r => {
-            const payDate = getRowDate(
-                r,
-                isBonus
-                    ? ["賞与支払年月日", "賞与支払年月"]
-                    : ["適用年月", "適用年月日", "改定年月", "資格喪失年月日", "資格喪失年月"]
-            ).ad;
-            const birthDate = getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]).ad;
-            let amtH = parseStandardAmount(r[isBonus ? "決定後の標準賞与額_健保" : "決定後の標準報酬月額_健保"]);
-            let amtP = parseStandardAmount(r[isBonus ? "決定後の標準賞与額_厚年" : "決定後の標準報酬月額_厚年"]);
-            amtH *= 1000;
-            amtP *= 1000;
-            return [normalize(r["被保険者整理番号"]), `"${normalize(r["被保険者氏名"])}"`, payDate, amtH, amtP, birthDate, normalize(r["種別"])].join(",");
-        })].join("\n");
-    }
-    
-    const blob = new Blob(["\uFEFF" + csv], { type: 'text/csv;charset=utf-8;' });
+// 案件内の全ファイルを1シートずつ書き出す。独自レイアウト対象外のファイルは全項目一覧で出力する
+const downloadCaseXLSX = async () => {
+    const c = state.cases[state.selectedCaseIdx];
+    if (!c) return;
+    const tables = caseTables(c);
+    if (tables.length === 0) return;
+    saveXLSX(await buildXLSX(tables), `${c.folderName}.xlsx`);
+};
+
+const saveBlob = (blob: Blob, fileName: string) => {
     const link = document.createElement("a");
     link.href = URL.createObjectURL(blob);
-    link.download = `${data.title}_${state.viewMode === 'calculator' ? '控除シミュレーション' : 'データ一覧'}.csv`;
+    link.download = fileName;
     link.click();
 };
 
-const renderAnnouncementSheet = (data: UniversalData) => {
-    return `
-        <div class="bg-white w-[1000px] min-h-[1414px] p-24 text-black shadow-2xl relative font-['Noto_Sans_JP'] border border-slate-200 mx-auto print:shadow-none print:border-none">
-            <div class="flex flex-col items-end text-lg font-bold mb-8">
-                <p>${data.docNo || ''}</p>
-                <p>${data.creationDateJP || ''}</p>
-            </div>
-            <div class="mb-16"><p class="text-xl font-bold">${data.recipient?.aff || ''}</p><p class="text-xl font-bold">${data.recipient?.name || ''}　${data.recipient?.honorific || ''}</p></div>
-            <div class="flex flex-col items-end mb-24"><p class="text-lg font-bold">${data.senderAff || ''}</p><p class="text-lg font-bold">${data.senderName || ''}</p></div>
-            <div class="text-center mb-16"><h1 class="text-3xl font-black tracking-tight">${data.title}</h1></div>
-            <div class="text-lg leading-relaxed space-y-6 mb-16 text-justify">${(data.mainText || []).map(p => `<p>${p.replace(/\n/g, '<br>')}</p>`).join('')}</div>
-            <div class="space-y-4 no-print">${(data.appendices || []).map(app => `<div class="text-blue-600 font-black text-xl underline cursor-pointer hover:text-blue-800">${app.title}</div>`).join('')}</div>
-        </div>
-    `;
-};
+const saveCSV = (csv: string, fileName: string) => saveBlob(new Blob(["\uFEFF" + csv], { type: 'text/csv;charset=utf-8;' }), fileName);
 
-const renderSummarySheet = (data: UniversalData) => {
-    const labelClass = "px-2 py-1 flex items-center h-full border-r border-black text-[11px] leading-tight font-bold";
-    const countValClass = "flex-1 px-4 py-1 text-right text-[14px] font-mono tracking-wider";
-    return `
-        <div class="bg-white w-[1120px] min-h-[1580px] p-[50px] text-black shadow-2xl relative font-['MS_PMincho', 'serif'] border border-gray-400 mx-auto print:shadow-none print:border-none">
-            <div class="flex justify-between items-start mb-8">
-                <div class="text-[13px] font-bold leading-tight">健康保険<br>厚生年金保険<br>国民年金</div>
-                <div class="absolute left-1/2 -translate-x-1/2 text-[28px] font-bold tracking-[0.5em] pt-2">ＣＳＶ形式届書総括票</div>
-                <div class="border-2 border-black px-5 py-2 font-bold text-[18px]">電子申請用</div>
-            </div>
-            <div class="grid grid-cols-2 gap-x-20 gap-y-4 mb-8 text-[14px]">
-                <div class="flex items-center"><span class="w-[100px] font-bold">①識別情報</span><div class="flex-1 flex items-center border-b border-black font-mono py-1"><span class="px-4">${data.idInfoPrefix}</span><span class="mx-auto">－</span><span class="px-4">${data.idInfoSuffix}</span></div></div>
-                <div class="flex items-center"><span class="w-[100px] font-bold">②作成年月日</span><span class="flex-1 px-4 font-bold border-b border-black text-center py-1">${data.creationDateJP}</span></div>
-                <div class="flex items-center"><span class="w-[120px] font-bold">③事業所整理記号</span><div class="flex-1 flex items-center border-b border-black font-mono py-1"><span class="px-4">${data.officeRegistry?.pref}</span><span class="px-4">${data.officeRegistry?.dist}</span><span class="mx-auto">－</span><span class="px-4">${data.officeRegistry?.code}</span></div></div>
-                <div class="flex items-center"><span class="w-[100px] font-bold">④事業所番号</span><span class="flex-1 px-4 font-mono border-b border-black text-center py-1">${data.officeNo}</span></div>
-            </div>
-            <div class="flex gap-4">
-                <div class="w-[40px] flex flex-col items-center text-[10px] leading-tight space-y-8 pt-4 font-bold select-none opacity-80" style="writing-mode: vertical-rl;"><p>◎必ず電子署名を付して申請してください。</p><p>◎入力方法については、記載要領をご覧ください。</p></div>
-                <div class="flex-1 flex gap-4">
-                    <div class="flex-1">
-                        <p class="text-[12px] font-bold mb-1 text-center">届書総件数（健康保険・厚生年金保険）</p>
-                        <div class="border-2 border-black text-[12px]">
-                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑤資格取得届／70歳以上被用者該当届</span><span class="${countValClass}">${data.counts?.["資格取得"] || ""} 件</span></div>
-                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑥被扶養者異動届／国民年金第３号被保険者関係届</span><span class="${countValClass}">${data.counts?.["被扶養者"] || ""} 件</span></div>
-                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑦資格喪失届／70歳以上被用者不該当届</span><span class="${countValClass}">${data.counts?.["資格喪失"] || ""} 件</span></div>
-                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑧月額変更届／70歳以上被用者月額変更届</span><span class="${countValClass}">${data.counts?.["月額変更"] || ""} 件</span></div>
-                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑨算定基礎届／70歳以上被用者算定基礎届</span><span class="${countValClass}">${data.counts?.["算定基礎"] || ""} 件</span></div>
-                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑩賞与支払届／70歳以上被用者賞与支払届</span><span class="${countValClass}">${data.counts?.["賞与支払"] || ""} 件</span></div>
-                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑪育児休業等取得者申出書(新規・延長)／終了届</span><span class="${countValClass}">${data.counts?.["育児休業"] || ""} 件</span></div>
-                            <div class="flex h-11 border-b border-black"><span class="w-[320px] ${labelClass}">⑫産前産後休業取得者申出書／変更(終了)届</span><span class="${countValClass}">${data.counts?.["産前産後"] || ""} 件</span></div>
-                            <div class="flex h-12 bg-gray-50 font-bold"><span class="w-[180px] mx-auto text-center border-l border-r border-black flex items-center justify-center">⑬届書合計</span><span class="${countValClass} border-l border-black flex items-center justify-end">${data.counts?.["合計"] || ""} 件</span></div>
-                        </div>
-                    </div>
-                    <div class="w-[450px] flex gap-4">
-                        <div class="flex-1 flex flex-col">
-                            <p class="text-[12px] font-bold mb-1 text-center">届書総件数（国民年金）</p>
-                            <div class="border-2 border-black h-[400px]">
-                                <div class="flex h-11 border-b border-black"><span class="w-[280px] ${labelClass}">⑭国民年金第３号被保険者関係届</span><span class="${countValClass}">${data.counts?.["国年3号"] || ""} 件</span></div>
-                                <div class="mt-auto flex h-12 bg-gray-50 font-bold border-t border-black"><span class="w-[140px] mx-auto text-center border-l border-r border-black flex items-center justify-center">⑮届書合計</span><span class="${countValClass} border-l border-black flex items-center justify-end">${data.counts?.["国年合計"] || ""} 件</span></div>
-                            </div>
-                            <div class="mt-8 text-center text-[15px] font-bold">${data.submissionDateJP} 提出</div>
-                        </div>
-                        <div class="w-[140px] flex flex-col"><p class="text-[12px] font-bold mb-1 text-center">⑯ 備考</p><div class="flex-1 border-2 border-black p-4 text-[11px] leading-relaxed break-all">${data.remarks || ""}</div></div>
-                    </div>
-                </div>
-            </div>
-            <div class="mt-12 flex gap-10">
-                <div class="flex-1 border-2 border-black p-8 text-[15px] font-bold space-y-6">
-                    <div class="flex items-center"><span class="w-[120px]">⑰ 郵便番号</span><div class="flex items-baseline font-mono text-[18px]"><span class="mr-4">〒</span><span class="px-2">${data.zipCodePrefix}</span><span class="mx-4">－</span><span class="px-2">${data.zipCodeSuffix}</span></div></div>
-                    <div class="flex items-start"><span class="w-[120px]">所在地</span><span class="flex-1 leading-relaxed pl-4">${data.address}</span></div>
-                    <div class="flex items-center"><span class="w-[120px]">名称</span><span class="flex-1 pl-4">${data.companyName}</span></div>
-                    <div class="flex items-center"><span class="w-[120px]">氏名</span><span class="flex-1 pl-4">${data.ownerName}</span></div>
-                    <div class="flex items-baseline"><span class="w-[120px]">電話番号</span><div class="flex items-baseline font-mono text-[18px] pl-4"><span class="px-2">${data.phone?.area}</span><span class="mx-2">（</span><span class="px-2">${data.phone?.city} 局</span><span class="mx-2">）</span><span class="px-2">${data.phone?.num} 番</span></div></div>
-                </div>
-                <div class="w-[500px] space-y-6">
-                    <div class="border-2 border-black"><div class="bg-gray-50 border-b-2 border-black p-2 text-center font-bold text-[13px]">⑱ 代行者名記載欄</div><div class="h-[100px] p-6 text-[16px] leading-relaxed">${data.proxyName || ""}</div></div>
-                    <div class="border-2 border-black p-6 space-y-6">
-                        <div class="flex justify-between items-start text-[12px]"><div class="flex flex-col gap-1"><span class="font-bold">⑲ （通知書）</span><span>紙の通知書を希望しますか</span></div><div class="flex items-center gap-4 pt-2"><span class="font-bold">希望します</span><div class="w-6 h-6 border-2 border-black flex items-center justify-center font-bold bg-white text-lg">${data.paperNoticeDesired ? '✓' : ''}</div></div></div>
-                        <div class="flex justify-between items-center text-[12px] pt-6 border-t-2 border-dotted border-gray-300">
-                            <span class="font-bold">⑳ （添付書類）</span>
-                            <div class="flex gap-8 items-center font-bold">${["郵送", "電子", "なし"].map(l => `<div class="flex items-center gap-3"><span>${l}</span><div class="w-5 h-5 border-2 border-black flex items-center justify-center">${(l === "なし" && data.attachmentStatus?.none) || (l === "郵送" && data.attachmentStatus?.mail) || (l === "電子" && data.attachmentStatus?.elec) ? '✓' : ''}</div></div>`).join('')}</div>
-                        </div>
-                    </div>
-                </div>
-            </div>
-        </div>
-    `;
-};
+const saveXLSX = (bytes: Uint8Array, fileName: string) =>
+    saveBlob(new Blob([new Uint8Array(bytes)], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }), fileName);
 
-const renderNoticeSheet = (data: UniversalData) => {
-    const isBonusDoc = data.docType === 'BONUS_NOTICE';
-    return `
-        <div class="bg-white w-[1000px] min-h-[1414px] p-16 text-black shadow-2xl relative font-['Noto_Sans_JP'] border border-slate-200 mx-auto print:shadow-none print:border-none">
-            <div class="flex justify-between items-start mb-10">
-                <div class="text-[14px] leading-relaxed space-y-1"><p class="font-bold text-lg">${data.zipCodeSuffix || ''}</p><p class="text-base">${data.address || ''}</p><p class="pt-4 text-2xl font-black tracking-tighter">${data.companyName || ''}</p><p class="text-2xl font-black">${data.ownerName || ''}　　様</p></div>
-                <div class="flex flex-col items-end"><p class="text-sm font-bold mb-1">到達番号 ${data.arrivalNumber || ''}</p><div class="border border-black p-4 w-[380px] h-[260px] text-[13px] leading-relaxed overflow-hidden text-justify">${data.noticeBox || ''}</div></div>
-            </div>
-            <div class="text-center mb-16 mt-8"><h1 class="text-3xl font-black tracking-tight">${data.title}</h1></div>
-            <table class="w-full border-collapse border-[1.5px] border-black text-sm mb-12">
-                <thead class="bg-gray-50"><tr class="h-14"><th class="border border-black px-1 py-1 font-bold w-20">整理番号</th><th class="border border-black px-4 py-1 font-bold">氏名</th><th class="border border-black px-1 py-1 font-bold w-32">${isBonusDoc ? '支払年月日' : '適用年月'}<br>(西暦)</th><th class="border border-black px-1 py-1 font-bold" colspan="2">${isBonusDoc ? '標準賞与額' : '標準報酬月額'}</th><th class="border border-black px-1 py-1 font-bold w-32">生年月日<br>(西暦)</th><th class="border border-black px-1 py-1 font-bold w-20">種別</th></tr></thead>
-                <tbody>${data.rows.map(r => {
-                    const payDate = getRowDate(
-                        r,
-                        isBonusDoc
-                            ? ["賞与支払年月日", "賞与支払年月"]
-                            : ["適用年月", "適用年月日", "改定年月", "資格喪失年月日", "資格喪失年月"]
-                    );
-                    const birthDate = getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]);
-                    const val1 = parseStandardAmount(r[isBonusDoc ? "決定後の標準賞与額_健保" : "決定後の標準報酬月額_健保"]).toLocaleString();
-                    const val2 = parseStandardAmount(r[isBonusDoc ? "決定後の標準賞与額_厚年" : "決定後の標準報酬月額_厚年"]).toLocaleString();
-                    return `<tr class="h-20 text-center border-b border-black"><td class="border-r border-black">${normalize(r["被保険者整理番号"] || "")}</td><td class="border-r border-black text-left px-6 font-black text-xl">${normalize(r["被保険者氏名"] || "")}</td><td class="border-r border-black"><div>${payDate.jp}</div><div class="text-blue-600 text-[11px] font-bold">(${payDate.ad})</div></td><td class="border-r border-black px-2 font-black text-lg w-32"><div class="text-[10px] font-normal text-slate-400 mb-1">(健保)</div>${val1}千円</td><td class="border-r border-black px-2 font-black text-lg w-32"><div class="text-[10px] font-normal text-slate-400 mb-1">(厚年)</div>${val2}千円</td><td class="border-r border-black"><div>${birthDate.jp}</div><div class="text-emerald-600 text-[11px] font-bold">(${birthDate.ad})</div></td><td>${normalize(r["種別"] || "")}</td></tr>`;
-                }).join('')}</tbody>
-            </table>
-            <div class="mt-20 text-right space-y-4"><p class="text-lg font-bold underline underline-offset-4 decoration-slate-300">${data.creationDateJP || ''}</p><div class="pt-6"><p class="text-2xl font-black tracking-[0.3em]">日本年金機構理事長</p><p class="text-lg font-bold text-slate-600">(${data.pensionOffice || ''}年金事務所)</p></div></div>
-        </div>
-    `;
+// 判別できない書類は帳票の代わりに全項目一覧を表示する
+const renderGenericSheet = (f?: AppFile) => {
+    if (!f?.parsed) return '<div class="text-center p-20 bg-white rounded-3xl shadow no-print">プレビュー対象外のファイルです</div>';
+    return `<div class="mb-4 mx-auto w-fit px-5 py-2 rounded-xl bg-slate-50 border border-slate-300 text-slate-600 text-[12px] font-bold no-print">独自レイアウト対象外の書類のため、全項目一覧で表示しています</div>${renderAllFields(f.parsed)}`;
 };
 
-const renderAllFields = (parsed?: XMLNode) => {
+const renderAllFields = (parsed?: XMLNode, focusPath: string = "") => {
     if (!parsed) {
         return `<div class="text-center p-20 bg-white rounded-3xl shadow">表示対象のXMLがありません</div>`;
     }
     const rows = flattenXML(parsed);
+    // 構造ビューから要素を指定された場合、その要素自身か配下の最初の行に印を付ける
+    const focusIdx = focusPath ? rows.findIndex(r => r.path === focusPath || r.path.startsWith(`${focusPath}/`)) : -1;
+    const virtual = shouldVirtualize(rows.length);
     return `
         <div class="bg-white w-[1100px] mx-auto p-10 rounded-3xl shadow-xl border border-slate-200">
             <div class="flex items-center justify-between mb-6">
@@ -516,24 +226,33 @@ const renderAllFields = (parsed?: XMLNode) => {
                     <h2 class="text-2xl font-black text-slate-900">全項目一覧</h2>
                     <p class="text-sm text-slate-500 mt-1">XMLに含まれる全タグを階層パスで表示します（${rows.length}件）</p>
                 </div>
-                <div class="text-[11px] text-slate-500">パス形式: ルート/子要素/同名要素[n]</div>
+                <div class="text-[11px] text-slate-500">パス形式: ルート/子要素/同名要素[n]/@属性名</div>
             </div>
             <div class="border border-slate-200 rounded-2xl overflow-hidden">
-                <table class="w-full text-[12px]">
+                <table class="w-full text-[12px] ${virtual ? 'table-fixed' : ''}">
                     <thead class="bg-slate-800 text-white">
                         <tr>
                             <th class="text-left px-4 py-3 w-[55%]">パス</th>
                             <th class="text-left px-4 py-3">値</th>
                         </tr>
                     </thead>
-                    <tbody class="divide-y divide-slate-100">
-                        ${rows.map(r => {
-                            const val = r.value === "" ? `<span class="text-slate-300">（空）</span>` : escapeHTML(r.value);
-                            return `<tr class="hover:bg-slate-50">
-                                <td class="px-4 py-2 font-mono text-slate-700 break-all">${escapeHTML(r.path)}</td>
-                                <td class="px-4 py-2 text-slate-900 break-all">${val}</td>
-                            </tr>`;
-                        }).join('')}
+                    <tbody id="all-fields-rows" class="divide-y divide-slate-100" data-focus="${focusIdx}">
+                        ${renderVirtualRows({
+                            id: 'all-fields-rows',
+                            count: rows.length,
+                            rowHeight: 33,
+                            colSpan: 2,
+                            renderRow: i => {
+                                const r = rows[i];
+                                const val = r.value === "" ? `<span class="text-slate-300">（空）</span>` : escapeHTML(r.value);
+                                // 仮想化する場合は行の高さを揃えるため折り返さず、全文はツールチップで示す
+                                const wrap = virtual ? 'truncate' : 'break-all';
+                                return `<tr class="${i === focusIdx ? 'bg-yellow-100 field-focus' : 'hover:bg-slate-50'}" data-field-path="${escapeHTML(r.path)}">
+                                    <td class="px-4 py-2 font-mono ${wrap} ${r.path.includes('/@') ? 'text-violet-700' : 'text-slate-700'}"${virtual ? ` title="${escapeHTML(r.path)}"` : ''}>${escapeHTML(r.path)}</td>
+                                    <td class="px-4 py-2 text-slate-900 ${wrap}"${virtual ? ` title="${escapeHTML(r.value)}"` : ''}>${val}</td>
+                                </tr>`;
+                            }
+                        })}
                     </tbody>
                 </table>
             </div>
@@ -541,224 +260,1130 @@ const renderAllFields = (parsed?: XMLNode) => {
     `;
 };
 
+const renderEligibilityBadges = (r: DeductionRow) => {
+    const badges = [
+        ...(!r.eligibility.health ? ['<span class="bg-slate-200 text-slate-600">健保対象外</span>'] : []),
+        ...(!r.eligibility.pension ? ['<span class="bg-slate-200 text-slate-600">厚年対象外</span>'] : []),
+        ...r.boundaries.map(b => `<span class="bg-amber-100 text-amber-700" title="${b.label}">${b.label} ${b.yearMonth.replace('-', '/')}</span>`)
+    ];
+    if (badges.length === 0) return '';
+    return `<div class="flex flex-col gap-0.5 mt-1 text-[9px] font-bold [&>span]:px-1 [&>span]:rounded whitespace-nowrap">${badges.join('')}</div>`;
+};
+
+const renderStandardAmount = (amount: number, rawBeforeCap: number | undefined, capLabel: string) => {
+    if (rawBeforeCap === undefined) return `${amount.toLocaleString()}円`;
+    return `<div class="text-rose-700 font-bold">${amount.toLocaleString()}円</div><div class="text-[10px] text-slate-400 line-through">${rawBeforeCap.toLocaleString()}円</div><div class="text-[9px] font-bold text-rose-600">${capLabel}適用</div>`;
+};
+
+const renderBonusCapSummary = (result: DeductionResult) => {
+    const capped = result.rows.filter(r => r.bonusCap && (r.bonusCap.healthCapped || r.bonusCap.pensionCapped));
+    const undated = result.rows.filter(r => r.bonusCap?.payDateUnknown);
+    const files = Array.from(new Set(result.rows.flatMap(r => r.bonusCap?.sourceFiles || [])));
+    return `
+        <div class="mb-6 p-4 rounded-2xl border ${capped.length > 0 ? 'bg-rose-50 border-rose-200' : 'bg-slate-50 border-slate-200'} text-[12px]">
+            <p class="font-black ${capped.length > 0 ? 'text-rose-700' : 'text-slate-700'}">賞与上限の判定: ${capped.length > 0 ? `${capped.length}名に上限を適用` : '上限該当者なし'}</p>
+            <p class="text-slate-500 mt-1">健康保険は年度累計${(HEALTH_BONUS_ANNUAL_CAP / 10000).toLocaleString()}万円、厚生年金は1か月${(PENSION_BONUS_MONTHLY_CAP / 10000).toLocaleString()}万円を上限とし、同一案件内の標準賞与額決定通知書（${files.length}件: ${files.map(f => escapeHTML(f)).join('、')}）を被保険者整理番号ごとに支払日順で累計しています。</p>
+            ${undated.length > 0 ? `<p class="text-amber-700 font-bold mt-1">支払年月日を読み取れない${undated.length}名（${undated.map(r => escapeHTML(r.name || r.insuredNo)).join('、')}）は累計に含めず、上限を判定していません。</p>` : ''}
+        </div>`;
+};
+
+const renderCalculatorCaption = (rates: ResolvedRates) => `
+    <p class="text-slate-500 mt-2 font-bold">被保険者・事業主負担分シミュレーション (端数処理: ${ROUNDING_LABELS[state.rates.rounding]})</p>
+    <p class="text-slate-700 mt-4 text-[13px] font-bold">適用料率: ${escapeHTML(rates.insurerName)}${state.rates.insurerId === KYOKAI_ID ? ` ${rates.prefName}` : ''} / ${rates.versionLabel}${rates.overridden.length > 0 ? ' <span class="text-rose-500">(一部手入力)</span>' : ''}</p>
+`;
+
+const renderCalculatorSettings = (data: UniversalData, rates: ResolvedRates) => {
+    const docPref = getDocPrefCode(data);
+    const rateInput = (key: keyof InsuranceRates, label: string) => `
+        <div class="flex flex-col"><label class="text-[11px] font-bold text-blue-600 mb-1">${label} (%)${rates.overridden.includes(key) ? ' <span class="text-rose-500">手入力</span>' : ''}</label><input type="number" step="0.001" value="${rates.unavailable.includes(key) ? '' : rates[key]}" class="border rounded-lg px-3 py-1 font-bold ${rates.overridden.includes(key) ? 'border-rose-300 bg-rose-50' : ''}" id="rate-${key}"></div>`;
+    return `
+        <div class="flex flex-col"><label class="text-[11px] font-bold text-blue-600 mb-1">保険者</label><select id="rate-insurer" class="border rounded-lg px-3 py-1 font-bold bg-white">
+            <option value="${KYOKAI_ID}" ${state.rates.insurerId === KYOKAI_ID ? 'selected' : ''}>協会けんぽ</option>
+            ${state.customInsurers.map(c => `<option value="${escapeHTML(c.id)}" ${state.rates.insurerId === c.id ? 'selected' : ''}>${escapeHTML(c.name)}</option>`).join('')}
+        </select></div>
+        <div class="flex flex-col"><label class="text-[11px] font-bold text-blue-600 mb-1">都道府県</label><select id="rate-pref" class="border rounded-lg px-3 py-1 font-bold bg-white" ${state.rates.insurerId !== KYOKAI_ID ? 'disabled' : ''}>
+            <option value="" ${state.rates.prefCode === '' ? 'selected' : ''}>自動判定 (${docPref ? PREFECTURES[docPref] : '不明→東京都'})</option>
+            ${Object.entries(PREFECTURES).map(([code, name]) => `<option value="${code}" ${state.rates.prefCode === code ? 'selected' : ''}>${name}</option>`).join('')}
+        </select></div>
+        ${rateInput('health', '健康保険料率')}
+        ${rateInput('pension', '厚生年金料率')}
+        ${rateInput('nursing', '介護保険料率')}
+        ${rateInput('childcare', '子ども・子育て拠出金率')}
+        <div class="flex flex-col"><label class="text-[11px] font-bold text-blue-600 mb-1">端数処理 (被保険者負担分)</label><select id="calc-rounding" class="border rounded-lg px-3 py-1 font-bold bg-white">
+            ${(Object.keys(ROUNDING_LABELS) as RoundingMode[]).map(m => `<option value="${m}" ${state.rates.rounding === m ? 'selected' : ''}>${ROUNDING_LABELS[m]}</option>`).join('')}
+        </select></div>
+        <div class="flex items-end pb-1"><div class="flex items-center gap-2 bg-white px-3 py-1 rounded-lg border border-blue-100 w-full shadow-sm"><input type="checkbox" id="calc-nursing" ${state.rates.isNursingTarget ? 'checked' : ''} class="w-4 h-4"><label class="text-[12px] font-bold text-slate-700" for="calc-nursing">介護保険を自動判定(40-64歳)</label></div></div>
+        <div class="col-span-2 flex gap-2 pt-2 border-t border-blue-100">
+            <button id="rate-reset" class="px-3 py-1 rounded-lg text-[11px] font-bold bg-white border border-blue-200 text-blue-700 hover:bg-blue-100" ${rates.overridden.length === 0 ? 'disabled' : ''}>料率表の値に戻す</button>
+            <button id="rate-add-insurer" class="px-3 py-1 rounded-lg text-[11px] font-bold bg-white border border-blue-200 text-blue-700 hover:bg-blue-100" ${rates.unavailable.length > 0 ? 'disabled' : ''}>現在の料率を健保組合として登録</button>
+            ${state.rates.insurerId !== KYOKAI_ID ? `<button id="rate-del-insurer" class="px-3 py-1 rounded-lg text-[11px] font-bold bg-white border border-rose-200 text-rose-600 hover:bg-rose-50">この組合を削除</button>` : ''}
+        </div>
+    `;
+};
+
+const renderCalculatorRow = (r: DeductionRow) => {
+    const yen = (v: number) => `${v.toLocaleString()}円`;
+    return `
+        <tr class="h-14 border-b border-slate-100 hover:bg-slate-50 transition-colors">
+            <td class="px-3 font-bold text-slate-900 text-lg">${escapeHTML(r.name)}</td>
+            <td class="px-2 text-center font-bold ${r.isNursingAge ? 'text-teal-600' : 'text-slate-400'}">${r.age}歳${renderEligibilityBadges(r)}</td>
+            <td class="px-3 text-right font-mono text-slate-600">${renderStandardAmount(r.stdHealth, r.bonusCap?.healthCapped ? r.bonusCap.rawHealth : undefined, '年度上限')}${r.healthGrade ? `<div class="text-[10px] font-sans font-bold text-slate-400">${renderGradeLabel(r.healthGrade)}</div>` : ''}</td>
+            <td class="px-3 text-right font-mono text-slate-600">${renderStandardAmount(r.stdPension, r.bonusCap?.pensionCapped ? r.bonusCap.rawPension : undefined, '月上限')}${r.pensionGrade ? `<div class="text-[10px] font-sans font-bold text-slate-400">${renderGradeLabel(r.pensionGrade)}</div>` : ''}</td>
+            <td class="px-3 text-right font-mono text-blue-800 font-bold">${yen(r.employee.health)}</td>
+            <td class="px-3 text-right font-mono ${r.employee.nursing > 0 ? 'text-teal-800 font-bold' : 'text-slate-300'}">${r.employee.nursing > 0 ? yen(r.employee.nursing) : '-'}</td>
+            <td class="px-3 text-right font-mono text-indigo-800 font-bold">${yen(r.employee.pension)}</td>
+            <td class="px-4 text-right font-mono text-xl font-black bg-slate-50 text-slate-900 print:bg-slate-100">${yen(r.employee.total)}</td>
+            <td class="px-3 text-right font-mono text-amber-800">${yen(r.employer.health)}</td>
+            <td class="px-3 text-right font-mono ${r.employer.nursing > 0 ? 'text-amber-800' : 'text-slate-300'}">${r.employer.nursing > 0 ? yen(r.employer.nursing) : '-'}</td>
+            <td class="px-3 text-right font-mono text-amber-800">${yen(r.employer.pension)}</td>
+            <td class="px-3 text-right font-mono text-amber-800">${yen(r.employer.childcare)}</td>
+            <td class="px-4 text-right font-mono font-black bg-slate-50 text-slate-900 print:bg-slate-100">${yen(r.employer.total)}</td>
+        </tr>`;
+};
+
+const renderCalculatorResults = (data: UniversalData, result: DeductionResult) => {
+    const t = result.totals;
+    const yen = (v: number) => `${v.toLocaleString()}円`;
+    return `
+        ${data.docType === 'BONUS_NOTICE' ? renderBonusCapSummary(result) : ''}
+        <table class="w-full border-collapse border border-slate-200">
+            <thead class="bg-slate-800 text-white text-[12px] print:bg-slate-200 print:text-black">
+                <tr class="h-10">
+                    <th class="px-3 border border-slate-600" rowspan="2">氏名</th>
+                    <th class="px-2 border border-slate-600 w-16 text-center" rowspan="2">年齢</th>
+                    <th class="px-3 border border-slate-600 text-right" rowspan="2">健保標準額</th>
+                    <th class="px-3 border border-slate-600 text-right" rowspan="2">厚年標準額</th>
+                    <th class="px-3 border border-slate-600 text-center bg-blue-900/40 print:bg-blue-100" colspan="4">被保険者負担（控除額）</th>
+                    <th class="px-3 border border-slate-600 text-center bg-amber-900/40 print:bg-amber-100" colspan="5">事業主負担</th>
+                </tr>
+                <tr class="h-10">
+                    <th class="px-3 border border-slate-600 text-right bg-blue-900/40 print:bg-blue-100">健保</th>
+                    <th class="px-3 border border-slate-600 text-right bg-teal-900/40 print:bg-teal-100">介護</th>
+                    <th class="px-3 border border-slate-600 text-right bg-indigo-900/40 print:bg-indigo-100">厚年</th>
+                    <th class="px-4 border border-slate-600 text-right bg-slate-900 text-[14px] print:bg-slate-300">控除額合計</th>
+                    <th class="px-3 border border-slate-600 text-right bg-amber-900/40 print:bg-amber-100">健保</th>
+                    <th class="px-3 border border-slate-600 text-right bg-amber-900/40 print:bg-amber-100">介護</th>
+                    <th class="px-3 border border-slate-600 text-right bg-amber-900/40 print:bg-amber-100">厚年</th>
+                    <th class="px-3 border border-slate-600 text-right bg-amber-900/40 print:bg-amber-100">子育て拠出金</th>
+                    <th class="px-4 border border-slate-600 text-right bg-slate-900 print:bg-slate-300">事業主計</th>
+                </tr>
+            </thead>
+            <tbody id="calc-rows" class="text-[13px]">${renderVirtualRows({ id: 'calc-rows', count: result.rows.length, rowHeight: 56, colSpan: 13, renderRow: i => renderCalculatorRow(result.rows[i]) })}</tbody>
+            <tfoot class="text-[13px] font-bold bg-slate-100">
+                <tr class="h-14 border-t-2 border-slate-400">
+                    <td class="px-3" colspan="2">合計 (${result.rows.length}名)</td>
+                    <td class="px-3 text-right font-mono">${yen(t.stdHealth)}</td>
+                    <td class="px-3 text-right font-mono">${yen(t.stdPension)}</td>
+                    <td class="px-3 text-right font-mono">${yen(t.employee.health)}</td>
+                    <td class="px-3 text-right font-mono">${yen(t.employee.nursing)}</td>
+                    <td class="px-3 text-right font-mono">${yen(t.employee.pension)}</td>
+                    <td class="px-4 text-right font-mono text-lg font-black">${yen(t.employee.total)}</td>
+                    <td class="px-3 text-right font-mono">${yen(t.employer.health)}</td>
+                    <td class="px-3 text-right font-mono">${yen(t.employer.nursing)}</td>
+                    <td class="px-3 text-right font-mono">${yen(t.employer.pension)}</td>
+                    <td class="px-3 text-right font-mono">${yen(t.employer.childcare)}</td>
+                    <td class="px-4 text-right font-mono text-lg font-black">${yen(t.employer.total)}</td>
+                </tr>
+            </tfoot>
+        </table>
+        <div class="mt-8 border-2 border-slate-800 rounded-2xl overflow-hidden">
+            <div class="bg-slate-800 text-white px-6 py-3 font-black">会社全体の負担額（保険料納入告知額との照合用）</div>
+            <table class="w-full text-[13px]">
+                <thead class="bg-slate-50 text-slate-500">
+                    <tr><th class="text-left px-6 py-2">区分</th><th class="text-right px-6 py-2">対象標準額合計</th><th class="text-right px-6 py-2">納入告知額（試算）</th><th class="text-right px-6 py-2">被保険者負担計</th><th class="text-right px-6 py-2">事業主負担計</th></tr>
+                </thead>
+                <tbody class="divide-y divide-slate-100 font-mono">
+                    ${([
+                        ['健康保険料', t.stdHealth, 'health'],
+                        ['介護保険料', t.stdNursing, 'nursing'],
+                        ['厚生年金保険料', t.stdPension, 'pension'],
+                        ['子ども・子育て拠出金', t.stdPension, 'childcare']
+                    ] as [string, number, keyof PremiumBreakdown][]).map(([label, base, key]) => `
+                    <tr><td class="px-6 py-2 font-sans font-bold">${label}</td><td class="text-right px-6 py-2">${yen(base)}</td><td class="text-right px-6 py-2 font-black">${yen(t.notice[key])}</td><td class="text-right px-6 py-2">${yen(t.employee[key])}</td><td class="text-right px-6 py-2">${yen(t.employer[key])}</td></tr>`).join('')}
+                    <tr class="bg-slate-50 font-black text-[15px]"><td class="px-6 py-3 font-sans">合計</td><td></td><td class="text-right px-6 py-3">${yen(t.notice.total)}</td><td class="text-right px-6 py-3">${yen(t.employee.total)}</td><td class="text-right px-6 py-3">${yen(t.employer.total)}</td></tr>
+                </tbody>
+            </table>
+        </div>
+        <div class="mt-6 p-4 bg-gray-50 rounded-xl border border-gray-100 text-[11px] text-gray-500 space-y-1">
+            <p class="font-bold text-slate-700">【計算根拠について】</p>
+            <p>※0. <b>料率:</b> 協会けんぽは事業所整理記号の都道府県コードと適用年月から料率表（3月分改定）を自動選択しています。手入力した料率が優先されます。</p>
+            <p>※1. <b>単位換算:</b> XML内の標準額（千円単位）を1,000倍して円単位として算出しています。</p>
+            <p>※2. <b>資格判定:</b> 年齢は適用年月（賞与は支払年月日）時点で、誕生日の前日に加齢する法定の方法で算出しています。介護保険は40歳到達月から65歳到達月の前月まで、厚生年金は70歳到達月の前月まで、健康保険は75歳誕生月の前月までを対象とし、適用期間中に資格が切り替わる被保険者には印を付けています。</p>
+            <p>※3. <b>端数処理:</b> 被保険者負担分は選択した方式（既定は50銭以下切捨て・50銭超切上げ）で処理し、介護保険料は健康保険料と合算した額から健保分を差し引いて求めています。</p>
+            <p>※4. <b>事業主負担:</b> 納入告知額は標準額の合計に料率を乗じ円未満を切り捨てた額です。事業主負担計は告知額から被保険者負担計を差し引いた額で、個人別の事業主負担は参考値です。子ども・子育て拠出金は全額事業主負担です。</p>
+            <p>※5. <b>賞与上限:</b> 標準賞与額は健康保険の年度累計上限・厚生年金の月上限を案件内の賞与通知書を通算して適用した後の額で計算しています。</p>
+        </div>
+    `;
+};
+
+const RATE_LABELS: Record<keyof InsuranceRates, string> = {
+    health: "健康保険料率",
+    pension: "厚生年金料率",
+    nursing: "介護保険料率",
+    childcare: "子ども・子育て拠出金率"
+};
+
+// 料率表に該当年度が無い場合は別の年度の料率で計算せず、手入力を促す
+const renderRatesUnavailable = (data: UniversalData, rates: ResolvedRates) => `
+    <div class="p-10 text-center rounded-2xl border border-dashed border-amber-300 bg-amber-50 text-amber-800 font-bold">
+        <p class="text-lg">${RATE_VERSION_MISSING_LABEL}（適用年月 ${escapeHTML(getDocYearMonth(data))}）</p>
+        <p class="text-[12px] mt-2">${rates.unavailable.map(k => RATE_LABELS[k]).join('・')}を手入力すると計算できます。</p>
+    </div>`;
+
+const renderCalculatorBody = (data: UniversalData, rates: ResolvedRates) => rates.unavailable.length > 0
+    ? renderRatesUnavailable(data, rates)
+    : renderCalculatorResults(data, calculateDeductions(data, getCalcOptions(data)));
+
+const renderSimulatorBody = (data: UniversalData, rates: ResolvedRates) => rates.unavailable.length > 0
+    ? renderRatesUnavailable(data, rates)
+    : renderSimulatorResults(getSimulation(data), getDocYearMonth(data));
+
 const renderCalculatorView = (data: UniversalData) => {
-    const isBonus = data.docType === 'BONUS_NOTICE';
+    const rates = getActiveRates(data);
     return `
-        <div class="bg-white w-[1150px] min-h-[800px] p-10 text-black shadow-2xl font-['Noto_Sans_JP'] border border-gray-300 mx-auto rounded-3xl print:shadow-none print:border-none">
-            <div class="flex justify-between items-center mb-8 border-b pb-6">
+        <div class="bg-white w-[1400px] min-h-[800px] p-10 text-black shadow-2xl font-['Noto_Sans_JP'] border border-gray-300 mx-auto rounded-3xl print:shadow-none print:border-none">
+            <div class="flex justify-between items-start mb-8 border-b pb-6 gap-6">
                 <div>
                     <h2 class="text-3xl font-black text-slate-900">${data.title} - 社会保険料算出</h2>
-                    <p class="text-slate-500 mt-2 font-bold">被保険者負担分シミュレーション (個人負担=事業主折半後)</p>
+                    <div id="calc-caption">${renderCalculatorCaption(rates)}</div>
+                </div>
+                <div id="calc-settings" class="bg-blue-50 p-6 rounded-2xl border border-blue-100 grid grid-cols-2 gap-x-6 gap-y-3 shadow-inner no-print">${renderCalculatorSettings(data, rates)}</div>
+            </div>
+            ${renderGradeSimulator(state.simulator, renderSimulatorBody(data, rates))}
+            <div id="calc-results">${renderCalculatorBody(data, rates)}</div>
+        </div>
+    `;
+};
+
+const requestExplanation = async (file: AppFile) => {
+    const provider = explanationProviders.find(p => p.id === state.explainProviderId) || explanationProviders[0];
+    state.explanations.set(file, { status: 'loading', providerLabel: provider.label });
+    render();
+    try {
+        const { request, aliases } = redactForExplanation(file);
+        const result = restoreAliases(await provider.explain(request), aliases);
+        state.explanations.set(file, { status: 'done', providerLabel: provider.label, result });
+    } catch (err: any) {
+        state.explanations.set(file, { status: 'error', providerLabel: provider.label, error: err?.message || String(err) });
+    }
+    render();
+};
+
+const renderExplanationPanel = (file?: AppFile) => {
+    if (!file) {
+        return `<div class="text-center p-20 bg-white rounded-3xl shadow">解説対象のファイルがありません</div>`;
+    }
+    const ex = state.explanations.get(file);
+    const section = (title: string, body: string) => `<div class="mb-8"><h3 class="text-sm font-black text-violet-700 mb-3 border-b border-violet-100 pb-2">${title}</h3>${body}</div>`;
+    const list = (items: string[]) => items.length > 0
+        ? `<ul class="list-disc pl-6 space-y-1 text-[14px]">${items.map(i => `<li>${escapeHTML(i)}</li>`).join('')}</ul>`
+        : `<p class="text-slate-400 text-[13px]">該当なし</p>`;
+    const body = !ex ? `<div class="text-center py-16 text-slate-400">「解説を生成」を押すと、この書類の内容を平易な言葉で説明します。</div>`
+        : ex.status === 'loading' ? `<div class="text-center py-16 text-violet-600 font-bold animate-pulse">${escapeHTML(ex.providerLabel)} で解説を生成中...</div>`
+        : ex.status === 'error' ? `<div class="p-6 bg-rose-50 border border-rose-200 rounded-2xl text-rose-700 text-[13px]"><p class="font-black mb-2">解説の生成に失敗しました</p><p class="break-all">${escapeHTML(ex.error)}</p></div>`
+        : `
+            ${section('この書類について', `<p class="text-[15px] leading-relaxed">${escapeHTML(ex.result!.documentSummary)}</p>`)}
+            ${section('会社として必要な対応', list(ex.result!.requiredActions))}
+            ${section('期限・適用時期', ex.result!.deadlines.length > 0
+                ? `<table class="w-full text-[13px]"><tbody class="divide-y divide-slate-100">${ex.result!.deadlines.map(d => `<tr><td class="py-2 pr-4">${escapeHTML(d.item)}</td><td class="py-2 font-bold text-right whitespace-nowrap">${escapeHTML(d.date)}</td></tr>`).join('')}</tbody></table>`
+                : list([]))}
+            ${section('被保険者ごとの変更点', ex.result!.employeeChanges.length > 0
+                ? `<table class="w-full text-[13px]"><tbody class="divide-y divide-slate-100">${ex.result!.employeeChanges.map(c => `<tr><td class="py-2 pr-4 font-bold whitespace-nowrap">${escapeHTML(c.employee)}</td><td class="py-2">${escapeHTML(c.change)}</td></tr>`).join('')}</tbody></table>`
+                : list([]))}
+            ${ex.result!.notes ? section('補足', `<p class="text-[13px] text-slate-600 leading-relaxed">${escapeHTML(ex.result!.notes)}</p>`) : ''}
+            <p class="text-[11px] text-slate-400 text-right">生成: ${escapeHTML(ex.providerLabel)}</p>
+        `;
+    return `
+        <div class="bg-white w-[1000px] mx-auto p-10 rounded-3xl shadow-xl border border-slate-200">
+            <div class="flex items-center justify-between mb-8">
+                <div>
+                    <h2 class="text-2xl font-black text-slate-900">AI解説</h2>
+                    <p class="text-sm text-slate-500 mt-1">${escapeHTML(file.name)}</p>
                 </div>
-                <div class="bg-blue-50 p-6 rounded-2xl border border-blue-100 grid grid-cols-2 gap-x-6 gap-y-3 shadow-inner no-print">
-                    <div class="flex flex-col"><label class="text-[11px] font-bold text-blue-600 mb-1">健康保険料率 (%)</label><input type="number" step="0.001" value="${state.rates.health}" class="border rounded-lg px-3 py-1 font-bold" id="rate-health"></div>
-                    <div class="flex flex-col"><label class="text-[11px] font-bold text-blue-600 mb-1">厚生年金料率 (%)</label><input type="number" step="0.001" value="${state.rates.pension}" class="border rounded-lg px-3 py-1 font-bold" id="rate-pension"></div>
-                    <div class="flex flex-col"><label class="text-[11px] font-bold text-blue-600 mb-1">介護保険料率 (%)</label><input type="number" step="0.001" value="${state.rates.nursing}" class="border rounded-lg px-3 py-1 font-bold" id="rate-nursing"></div>
-                    <div class="flex items-end pb-1"><div class="flex items-center gap-2 bg-white px-3 py-1 rounded-lg border border-blue-100 w-full shadow-sm"><input type="checkbox" id="calc-nursing" ${state.rates.isNursingTarget ? 'checked' : ''} class="w-4 h-4"><label class="text-[12px] font-bold text-slate-700" for="calc-nursing">自動判定(40-64歳)を優先</label></div></div>
+                <div class="flex items-center gap-2 no-print">
+                    <select id="explain-provider" class="border rounded-lg px-3 py-2 text-[12px] font-bold bg-white">
+                        ${explanationProviders.map(p => `<option value="${p.id}" ${state.explainProviderId === p.id ? 'selected' : ''}>${escapeHTML(p.label)}</option>`).join('')}
+                    </select>
+                    <button id="explain-run" class="px-5 py-2 rounded-xl font-bold bg-violet-600 text-white hover:bg-violet-700 shadow-md disabled:opacity-50" ${ex?.status === 'loading' ? 'disabled' : ''}>${ex?.status === 'done' ? '再生成' : '解説を生成'}</button>
                 </div>
             </div>
-            <table class="w-full border-collapse border border-slate-200">
-                <thead class="bg-slate-800 text-white text-[12px] print:bg-slate-200 print:text-black">
-                    <tr class="h-14">
-                        <th class="px-3 border border-slate-600">氏名</th>
-                        <th class="px-2 border border-slate-600 w-16 text-center">年齢</th>
-                        <th class="px-3 border border-slate-600 text-right">健保標準額</th>
-                        <th class="px-3 border border-slate-600 text-right">厚年標準額</th>
-                        <th class="px-3 border border-slate-600 text-right bg-blue-900/40 print:bg-blue-100">健保控除</th>
-                        <th class="px-3 border border-slate-600 text-right bg-indigo-900/40 print:bg-indigo-100">厚年控除</th>
-                        <th class="px-3 border border-slate-600 text-right bg-teal-900/40 print:bg-teal-100">介護控除</th>
-                        <th class="px-4 border border-slate-600 text-right bg-slate-900 text-[14px] print:bg-slate-300">控除額合計</th>
-                    </tr>
-                </thead>
-                <tbody class="text-[14px]">
-                    ${data.rows.map(r => {
-                        const birthData = getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]);
-                        const age = calculateAge(birthData.ad);
-                        const rawAmtH = parseStandardAmount(r[isBonus ? "決定後の標準賞与額_健保" : "決定後の標準報酬月額_健保"]);
-                        const rawAmtP = parseStandardAmount(r[isBonus ? "決定後の標準賞与額_厚年" : "決定後の標準報酬月額_厚年"]);
-                        const amtH = rawAmtH * 1000;
-                        const amtP = rawAmtP * 1000;
-                        const isNursingTargetAge = age >= 40 && age <= 64;
-                        const isNursingActive = state.rates.isNursingTarget ? isNursingTargetAge : false;
-                        const hDeduct = Math.floor(amtH * (state.rates.health / 100) / 2);
-                        const pDeduct = Math.floor(amtP * (state.rates.pension / 100) / 2);
-                        const nDeduct = isNursingActive ? Math.floor(amtH * (state.rates.nursing / 100) / 2) : 0;
-                        const total = hDeduct + pDeduct + nDeduct;
-                        return `
-                        <tr class="h-14 border-b border-slate-100 hover:bg-slate-50 transition-colors">
-                            <td class="px-3 font-bold text-slate-900 text-lg">${normalize(r["被保険者氏名"])}</td>
-                            <td class="px-2 text-center font-bold ${isNursingTargetAge ? 'text-teal-600' : 'text-slate-400'}">${age}歳</td>
-                            <td class="px-3 text-right font-mono text-slate-600">${amtH.toLocaleString()}円</td>
-                            <td class="px-3 text-right font-mono text-slate-600">${amtP.toLocaleString()}円</td>
-                            <td class="px-3 text-right font-mono text-blue-800 font-bold">${hDeduct.toLocaleString()}円</td>
-                            <td class="px-3 text-right font-mono text-indigo-800 font-bold">${pDeduct.toLocaleString()}円</td>
-                            <td class="px-3 text-right font-mono ${nDeduct > 0 ? 'text-teal-800 font-bold' : 'text-slate-300'}">${nDeduct > 0 ? nDeduct.toLocaleString() + '円' : '-'}</td>
-                            <td class="px-4 text-right font-mono text-2xl font-black bg-slate-50 text-slate-900 print:bg-slate-100">${total.toLocaleString()}円</td>
-                        </tr>`;
-                    }).join('')}
-                </tbody>
-            </table>
-            <div class="mt-6 p-4 bg-gray-50 rounded-xl border border-gray-100 text-[11px] text-gray-500 space-y-1">
-                <p class="font-bold text-slate-700">【計算根拠について】</p>
-                <p>※1. <b>単位換算:</b> XML内の標準額（千円単位）を1,000倍して円単位として算出しています。</p>
-                <p>※2. <b>介護保険料:</b> 年齢が40歳以上64歳以下の被保険者を自動判定して個別に算出しています。</p>
-                <p>※3. <b>端数処理:</b> 各項目ごとに端数は切捨て処理を行っています。端数処理設定（50銭等）により数円の誤差が出る場合があります。</p>
+            <p class="mb-8 text-[11px] text-slate-500 bg-slate-50 rounded-xl p-3 no-print">送信前に被保険者氏名は仮名（被保険者1, 2…）に置き換え、生年月日・基礎年金番号・住所・電話番号などは除去しています。解説内の仮名は画面表示時に元の氏名へ戻します。</p>
+            ${body}
+        </div>
+    `;
+};
+
+const renderOfficialView = (caseEntry?: CaseEntry, f?: AppFile) => {
+    if (!caseEntry || !f) {
+        return `<div class="text-center p-20 bg-white rounded-3xl shadow">表示対象のXMLがありません</div>`;
+    }
+    const xsl = matchStylesheet(f.fullPath, f.stylesheetHref, caseEntry.stylesheets);
+    if (!xsl) {
+        return `<div class="text-center p-20 bg-white rounded-3xl shadow no-print">
+            <p class="font-bold text-slate-700">このXMLに対応するXSL（公式様式）が見つかりません</p>
+            <p class="text-[12px] text-slate-400 mt-2">${f.stylesheetHref ? `参照先: ${escapeHTML(f.stylesheetHref)}` : 'xml-stylesheet 処理命令がありません'}</p>
+        </div>`;
+    }
+    let html = "";
+    try {
+        html = transformWithStylesheet(f.content, xsl.content);
+    } catch (err: any) {
+        return `<div class="p-10 bg-rose-50 border border-rose-200 rounded-3xl text-rose-700 w-[1000px] mx-auto"><p class="font-black mb-2">公式様式の変換に失敗しました（${escapeHTML(xsl.name)}）</p><p class="text-[12px]">${escapeHTML(err?.message || String(err))}</p></div>`;
+    }
+    // 同梱XSLのスクリプトは実行させず、表示のみの sandbox iframe に閉じ込める
+    const frame = `<iframe sandbox="" class="bg-white w-[1100px] h-[1500px] shadow-2xl border border-slate-300 mx-auto block" srcdoc="${escapeHTML(html)}"></iframe>`;
+    const header = `
+        <div class="mb-4 flex items-center justify-center gap-4 text-[12px] font-bold text-slate-600 no-print">
+            <span>様式: ${escapeHTML(xsl.fullPath)}</span>
+            <label class="flex items-center gap-2 bg-white px-3 py-1 rounded-lg border"><input type="checkbox" id="official-compare" ${state.officialCompare ? 'checked' : ''}>独自レイアウトと並べて比較</label>
+        </div>`;
+    if (!state.officialCompare) return header + frame;
+    const data = f.analysis;
+    const ours = (data && renderDocumentSheet(data, { caseFiles: caseEntry?.files })) ?? renderGenericSheet(f);
+    return `${header}<div class="flex gap-8 items-start w-fit mx-auto"><div>${frame}</div><div>${ours}</div></div>`;
+};
+
+const renderParseError = (f: AppFile) => {
+    const err = f.parseError!;
+    const lines = f.content.split(/\r?\n/);
+    const from = Math.max(0, (err.line || 1) - 3);
+    const snippet = err.line ? lines.slice(from, err.line + 2).map((l, i) => {
+        const no = from + i + 1;
+        const mark = no === err.line;
+        return `<div class="${mark ? 'bg-rose-100 text-rose-800' : 'text-slate-500'}"><span class="inline-block w-12 text-right pr-3 select-none">${no}</span>${escapeHTML(l)}</div>${mark && err.column ? `<div class="text-rose-600"><span class="inline-block w-12"></span>${' '.repeat(Math.max(0, err.column - 1))}^</div>` : ''}`;
+    }).join('') : '';
+    return `
+        <div class="bg-white w-[1000px] mx-auto p-10 rounded-3xl shadow-xl border-2 border-rose-200 mb-8">
+            <h2 class="text-xl font-black text-rose-700">XMLの構文エラー</h2>
+            <p class="text-sm text-slate-700 mt-2">${escapeHTML(f.fullPath)}${err.line ? ` — ${err.line}行 ${err.column ?? '?'}列` : ''}</p>
+            <p class="text-[13px] text-rose-600 mt-2 break-all">${escapeHTML(err.message)}</p>
+            ${snippet ? `<pre class="mt-6 bg-slate-50 rounded-xl p-4 text-[12px] font-mono overflow-x-auto whitespace-pre">${snippet}</pre>` : ''}
+        </div>
+    `;
+};
+
+const renderEncodingBar = (f?: AppFile) => {
+    if (!f?.encoding) return '';
+    const encodings = Object.keys(ENCODING_LABELS) as TextEncodingName[];
+    return `
+        <div class="mb-6 mx-auto w-fit flex items-center gap-3 bg-white px-4 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-600 no-print">
+            <span>文字コード</span>
+            <select id="enc-body" class="border rounded-lg px-2 py-1 bg-white">
+                ${encodings.map(e => `<option value="${e}" ${f.encoding === e ? 'selected' : ''}>${ENCODING_LABELS[e]}</option>`).join('')}
+            </select>
+            <span class="${f.encodingSource === 'manual' ? 'text-rose-500' : 'text-slate-400'}">(${ENCODING_SOURCE_LABELS[f.encodingSource || 'heuristic']})</span>
+            <span class="ml-4">ファイル名</span>
+            <select id="enc-name" class="border rounded-lg px-2 py-1 bg-white" ${f.rawName ? '' : 'disabled title="UTF-8フラグ付きのため変更不要です"'}>
+                <option value="" ${!f.nameEncoding ? 'selected' : ''}>自動</option>
+                ${encodings.map(e => `<option value="${e}" ${f.nameEncoding === e ? 'selected' : ''}>${ENCODING_LABELS[e]}</option>`).join('')}
+            </select>
+        </div>
+    `;
+};
+
+// --- Library ---
+const refreshLibrary = async () => {
+    try {
+        state.library.items = await listStoredCases();
+    } catch {
+        state.library.items = [];
+    }
+    state.library.loaded = true;
+    render();
+};
+
+// 読み込んだ案件をライブラリに保存し、既存と重複した場合はその旨を表示する
+const persistCases = async (cases: CaseEntry[]) => {
+    if (!state.library.autoSave) return;
+    const notes: string[] = [];
+    for (const c of cases) {
+        try {
+            const result = await saveCase(c);
+            if (result.duplicateOf) {
+                c.libraryId = result.duplicateOf.id;
+                notes.push(`「${c.folderName}」は保存済みの案件「${result.duplicateOf.folderName}」と到達番号または内容が一致するため、新たに保存しませんでした。`);
+            } else {
+                c.libraryId = result.id;
+                if (result.duplicateFiles > 0) notes.push(`「${c.folderName}」の${result.duplicateFiles}ファイルは保存済みの案件にも含まれています。`);
+            }
+        } catch (err: any) {
+            notes.push(`「${c.folderName}」をライブラリに保存できませんでした: ${err?.message || err}`);
+        }
+    }
+    state.library.message = notes.join(" ");
+    await refreshLibrary();
+};
+
+const openStoredCase = async (id: string) => {
+    const existing = state.cases.findIndex(c => c.libraryId === id);
+    if (existing >= 0) {
+        state.selectedCaseIdx = existing;
+    } else {
+        let entry: CaseEntry | null;
+        try {
+            entry = await loadCase(id);
+        } catch (err: any) {
+            state.library.message = `案件を読み込めませんでした: ${err?.message || err}`;
+            render();
+            return;
+        }
+        if (!entry) { state.library.message = "案件を読み込めませんでした。"; render(); return; }
+        state.cases = [...state.cases, entry];
+        state.selectedCaseIdx = state.cases.length - 1;
+        state.searchIndex = null;
+    }
+    state.selectedFileIdx = 0;
+    state.viewMode = 'summary';
+    state.noticeFocusRow = -1;
+    state.showLibrary = false;
+    await refreshLibrary();
+};
+
+const attachLibrary = () => {
+    document.getElementById('library-back')?.addEventListener('click', () => { state.showLibrary = false; render(); });
+    document.getElementById('open-library')?.addEventListener('click', () => { state.showLibrary = true; render(); });
+    document.querySelectorAll('.library-open').forEach(b => b.addEventListener('click', (e) => openStoredCase((e.currentTarget as HTMLElement).dataset.lib || "")));
+    document.querySelectorAll('.library-delete').forEach(b => b.addEventListener('click', async (e) => {
+        const id = (e.currentTarget as HTMLElement).dataset.lib || "";
+        if (!confirm("この案件をライブラリから削除しますか？")) return;
+        try {
+            await deleteCase(id);
+            state.cases.forEach(c => { if (c.libraryId === id) c.libraryId = undefined; });
+        } catch (err: any) {
+            state.library.message = `案件を削除できませんでした: ${err?.message || err}`;
+        }
+        await refreshLibrary();
+    }));
+    document.getElementById('library-autosave')?.addEventListener('change', (e: any) => {
+        state.library.autoSave = e.target.checked;
+        saveLibrarySettings({ retentionDays: state.library.retentionDays, autoSave: state.library.autoSave });
+    });
+    document.getElementById('library-retention')?.addEventListener('change', (e: any) => {
+        state.library.retentionDays = parseInt(e.target.value, 10) || 0;
+        saveLibrarySettings({ retentionDays: state.library.retentionDays, autoSave: state.library.autoSave });
+        render();
+    });
+    document.getElementById('library-prune')?.addEventListener('click', async () => {
+        try {
+            const removed = await pruneCases(state.library.retentionDays);
+            state.library.message = `保存期間を過ぎた${removed}件の案件を削除しました。`;
+        } catch (err: any) {
+            state.library.message = `保存期間を過ぎた案件を削除できませんでした: ${err?.message || err}`;
+        }
+        await refreshLibrary();
+    });
+};
+
+// --- Routing ---
+// 案件・ファイル・表示モードが変わったときだけ履歴を積み、料率の変更などは現在の履歴を置き換える
+let lastNavKey = "";
+let routeRestored = false;
+
+const currentRoute = (): RouteState => {
+    const c = state.cases[state.selectedCaseIdx];
+    const f = c?.files[state.selectedFileIdx];
+    return {
+        library: state.showLibrary,
+        caseKey: state.showLibrary ? undefined : c ? c.libraryId || c.folderName : undefined,
+        filePath: state.showLibrary ? undefined : f?.fullPath,
+        view: c && !state.showLibrary ? state.viewMode : undefined,
+        insurerId: state.rates.insurerId !== KYOKAI_ID ? state.rates.insurerId : undefined,
+        prefCode: state.rates.prefCode || undefined,
+        overrides: state.rates.overrides,
+        rounding: state.rates.rounding,
+        autoNursing: state.rates.isNursingTarget
+    };
+};
+
+const syncRoute = (replace: boolean = false) => {
+    // 起動直後はハッシュからの復元が終わるまで URL を書き換えない
+    if (!routeRestored) return;
+    const hash = buildRoute(currentRoute());
+    const navKey = [state.showLibrary, state.cases.length, state.selectedCaseIdx, state.selectedFileIdx, state.viewMode].join(":");
+    if (hash !== location.hash) {
+        const url = hash || `${location.pathname}${location.search}`;
+        if (navKey !== lastNavKey && !replace) history.pushState(null, "", url);
+        else history.replaceState(null, "", url);
+    }
+    lastNavKey = navKey;
+};
+
+// ハッシュから表示状態を復元する。未読込の案件はライブラリから読み込む
+const applyRoute = async (hash: string) => {
+    const r = parseRoute(hash);
+    state.rates = {
+        ...state.rates,
+        insurerId: r.insurerId || KYOKAI_ID,
+        prefCode: r.prefCode || "",
+        overrides: r.overrides,
+        rounding: r.rounding || 'fiftySen',
+        isNursingTarget: r.autoNursing ?? true
+    };
+    state.showLibrary = !!r.library;
+    if (r.caseKey) {
+        let ci = state.cases.findIndex(c => c.libraryId === r.caseKey || (!c.libraryId && c.folderName === r.caseKey));
+        if (ci < 0) {
+            // 読み込めなかった案件はライブラリ画面に理由を表示する
+            try {
+                const entry = await loadCase(r.caseKey);
+                if (entry) {
+                    state.cases = [...state.cases, entry];
+                    ci = state.cases.length - 1;
+                    state.searchIndex = null;
+                } else {
+                    state.library.message = "案件がライブラリに見つかりませんでした。";
+                    state.showLibrary = true;
+                }
+            } catch (err: any) {
+                state.library.message = `案件を読み込めませんでした: ${err?.message || err}`;
+                state.showLibrary = true;
+            }
+        }
+        if (ci >= 0) {
+            const fi = r.filePath ? state.cases[ci].files.findIndex(f => f.fullPath === r.filePath) : 0;
+            state.selectedCaseIdx = ci;
+            state.selectedFileIdx = Math.max(fi, 0);
+            state.viewMode = VIEW_MODES.includes(r.view as ViewMode) ? r.view as ViewMode : 'summary';
+            state.noticeFocusRow = -1;
+        }
+    } else if (!r.library) {
+        // ライブラリに保存していない案件は戻ると失われるため確認する。取り消した場合は表示中の案件の URL に戻す
+        const unsaved = state.cases.filter(c => !c.libraryId).length;
+        if (unsaved === 0 || confirm(`ライブラリに保存していない${unsaved}件の案件を閉じます。よろしいですか？`)) {
+            state.cases = [];
+            state.searchIndex = null;
+        }
+    }
+    routeRestored = true;
+    render();
+    syncRoute(true);
+};
+
+// 復元に失敗しても URL の同期は続け、理由をライブラリのメッセージに表示する
+const restoreRoute = () => applyRoute(location.hash).catch((err: any) => {
+    state.library.message = `表示状態を復元できませんでした: ${err?.message || err}`;
+    routeRestored = true;
+    render();
+});
+
+window.addEventListener('popstate', () => { restoreRoute(); });
+
+// --- Cross-case Search ---
+const getSearchIndex = (): SearchEntry[] => {
+    if (!state.searchIndex) state.searchIndex = buildSearchIndex(state.cases);
+    return state.searchIndex;
+};
+
+const renderSearchResults = () => {
+    if (!state.search.open || !state.search.query) return '';
+    const groups = searchEntries(getSearchIndex(), state.cases, state.search.query);
+    const total = groups.reduce((s, g) => s + g.hits.length, 0);
+    return `
+        <div id="search-panel" class="absolute right-8 top-full mt-2 w-[640px] max-h-[70vh] overflow-y-auto bg-white border border-slate-200 rounded-2xl shadow-2xl z-50 no-print">
+            <div class="sticky top-0 bg-white flex justify-between items-center px-5 py-3 border-b text-[12px] font-bold">
+                <span class="${total > 0 ? 'text-slate-700' : 'text-slate-400'}">「${escapeHTML(state.search.query)}」: ${total}件${total >= 300 ? '（上位300件を表示）' : ''}</span>
+                <button id="search-close" class="px-3 py-1 rounded-lg border hover:bg-slate-50">閉じる</button>
             </div>
+            ${groups.length === 0 ? '<div class="p-10 text-center text-slate-400 text-sm">一致する項目はありません</div>' : groups.map(g => `
+                <div class="px-5 py-3 border-b border-slate-100">
+                    <div class="text-[11px] font-bold text-slate-500 mb-2">${escapeHTML(g.folderName)} <span class="text-slate-300">/</span> <span class="text-slate-800">${escapeHTML(g.fileName)}</span></div>
+                    ${g.hits.map(h => `
+                        <button class="search-hit w-full text-left px-3 py-2 rounded-lg hover:bg-blue-50 flex items-baseline gap-3" data-sci="${h.caseIdx}" data-sfi="${h.fileIdx}" data-kind="${h.kind}" data-row="${h.rowIdx ?? -1}" data-path="${escapeHTML(h.path || '')}">
+                            <span class="shrink-0 px-1.5 py-0.5 rounded text-[9px] font-black ${h.kind === 'row' ? 'bg-blue-600 text-white' : 'bg-slate-200 text-slate-600'}">${h.kind === 'row' ? '被保険者' : '項目'}</span>
+                            <span class="font-bold text-[13px] text-slate-900">${escapeHTML(h.label)}</span>
+                            <span class="text-[11px] font-mono text-slate-400 truncate">${escapeHTML(h.detail)}</span>
+                        </button>`).join('')}
+                </div>`).join('')}
+        </div>
+    `;
+};
+
+// --- Rendering ---
+// 案件表示中は画面の骨組み（ヘッダー・サイドバー・本文・モーダルの枠）を作り直さず、変化した領域だけを差し替える。
+type Region = 'header' | 'sidebar' | 'body' | 'overlay';
+
+const ALL_REGIONS: Region[] = ['header', 'sidebar', 'body', 'overlay'];
+
+let lastBodyKey = "";
+
+const renderHeader = () => {
+    const cur = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx];
+    const data = cur?.analysis;
+    const canCalc = supportsCalculator(data);
+    return `
+        <div class="flex items-center gap-4">
+            <button id="home" class="p-2 border rounded-xl hover:bg-slate-50 transition-colors"><i data-lucide="home"></i></button>
+            <h1 class="font-black text-xl">e-Gov Explorer <span class="text-blue-600">Hidelity</span></h1>
+        </div>
+        <div class="flex gap-2 items-center">
+            <input id="global-search" type="search" value="${escapeHTML(state.search.query)}" placeholder="氏名・カナ・整理番号・値で全案件を検索" class="border rounded-xl px-4 py-2 text-[13px] w-80">
+            <button id="btn-open" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold bg-slate-700 text-white hover:bg-slate-800 transition-all shadow-md">
+                <i data-lucide="folder-open" size="18"></i> ファイルを開く
+            </button>
+            <button id="open-library" class="flex items-center gap-2 px-4 py-2 rounded-xl font-bold border border-slate-300 hover:bg-slate-50 transition-all">
+                <i data-lucide="library" size="18"></i> ライブラリ
+            </button>
+            ${canCalc ? `
+            <button id="btn-calc" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold ${state.viewMode === 'calculator' ? 'bg-blue-600 text-white' : 'bg-slate-800 text-white'} transition-all shadow-md">
+                <i data-lucide="${state.viewMode === 'calculator' ? 'file-text' : 'calculator'}" size="18"></i> ${state.viewMode === 'calculator' ? '帳票表示に戻る' : '控除額計算シミュレータ'}
+            </button>` : ''}
+            ${data || cur?.parsed ? `
+            <button id="btn-csv" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all shadow-md">
+                <i data-lucide="download" size="18"></i> CSV保存
+            </button>
+            <button id="btn-xlsx" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold bg-emerald-700 text-white hover:bg-emerald-800 transition-all shadow-md">
+                <i data-lucide="sheet" size="18"></i> Excel保存
+            </button>` : ''}
+            ${state.cases[state.selectedCaseIdx] ? `
+            <button id="btn-case-xlsx" class="flex items-center gap-2 px-4 py-2 rounded-xl font-bold border border-emerald-700 text-emerald-800 hover:bg-emerald-50 transition-all" title="案件内の全ファイルを1シートずつ出力">
+                <i data-lucide="files" size="18"></i> 案件一括Excel
+            </button>` : ''}
+            <button id="btn-pdf" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold bg-rose-600 text-white hover:bg-rose-700 transition-all shadow-md">
+                <i data-lucide="printer" size="18"></i> PDF保存(印刷)
+            </button>
+        </div>
+        ${renderSearchResults()}
+        ${state.exportMenuOpen && usesExportTemplates(data) ? renderExportMenu(getExportTemplates()) : ''}
+    `;
+};
+
+const renderSidebar = () => (state.upload ? renderUploadProgress(state.upload, state.loadingMsg) : '') + state.cases.map((c, ci) => `
+    <button class="w-full text-left p-3 bg-slate-50 font-bold mb-2 rounded-xl toggle-case flex justify-between items-center" data-idx="${ci}">${c.folderName} <i data-lucide="${c.isOpen ? 'chevron-up' : 'chevron-down'}" size="14"></i></button>
+    ${c.isOpen ? c.files.map((f, fi) => `
+        <button class="w-full text-left p-4 text-[11px] font-bold mb-1 rounded-xl border transition-all ${ci === state.selectedCaseIdx && fi === state.selectedFileIdx ? 'bg-blue-600 text-white border-blue-600 shadow-lg translate-x-1' : 'bg-white hover:bg-slate-50 border-slate-100'}" data-ci="${ci}" data-fi="${fi}">${f.name}${f.parseError ? ' <span class="ml-1 px-1.5 py-0.5 rounded bg-rose-500 text-white text-[9px]">構文エラー</span>' : ''}${renderDiagnosticBadges(getCaseDiagnostics(ci).get(f) || [])}</button>
+    `).join('') : ''}
+`).join('');
+
+const renderBody = () => {
+    const cur = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx];
+    const data = cur?.analysis;
+    return `
+        <div class="mb-8 flex justify-center bg-white p-2 rounded-2xl w-fit mx-auto shadow-sm no-print border border-slate-300">
+            <button id="sumV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'summary' || state.viewMode === 'calculator' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">帳票プレビュー</button>
+            <button id="allV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'all' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">全項目一覧</button>
+            <button id="treeV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'tree' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">XML構造解析</button>
+            <button id="historyV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'history' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">標準報酬履歴</button>
+            <button id="compareV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'compare' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">比較</button>
+            <button id="officialV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'official' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">公式様式</button>
+            <button id="diagnosticsV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'diagnostics' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">検証結果</button>
+            <button id="explainV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'explain' ? 'bg-violet-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">AI解説</button>
+        </div>
+        ${state.library.message ? `<div class="mb-6 mx-auto w-fit max-w-[1000px] flex items-center gap-4 px-5 py-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 text-[12px] font-bold no-print"><span>${escapeHTML(state.library.message)}</span><button id="library-message-close" class="shrink-0 underline">閉じる</button></div>` : ''}
+        ${renderEncodingBar(cur)}
+        ${cur?.parseError ? renderParseError(cur) : ''}
+        <div class="print-area print:m-0 print:w-full">
+            ${state.viewMode === 'calculator' && data && supportsCalculator(data) ? renderCalculatorView(data) :
+              state.viewMode === 'explain' ? renderExplanationPanel(cur) :
+              state.viewMode === 'compare' ? renderCompareView(state.cases, state.compare) :
+              state.viewMode === 'diagnostics' ? renderDiagnosticsPanel(state.cases, getCaseDiagnostics, listValidationRules()) :
+              state.viewMode === 'history' ? renderRemunerationTimeline(buildEmployeeHistories(state.cases), state.historyKey) :
+              state.viewMode === 'official' ? renderOfficialView(state.cases[state.selectedCaseIdx], cur) :
+              (state.viewMode === 'all' ? renderAllFields(cur?.parsed, state.allFieldsFocus) :
+              (state.viewMode === 'tree' ? renderXMLTreeView(cur?.parsed, getTreeState(cur)) :
+              ((data && renderDocumentSheet(data, { focusRow: state.noticeFocusRow, caseFiles: state.cases[state.selectedCaseIdx]?.files })) ?? renderGenericSheet(cur))))}
         </div>
     `;
 };
 
+const renderOverlay = () => {
+    if (!state.templateDraft) return '';
+    const data = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx]?.analysis;
+    return renderTemplateEditor(state.templateDraft, Array.from(new Set((data?.rows || []).flatMap(r => Object.keys(r)))));
+};
+
+const renderShell = () => `
+    <div id="app-shell" class="h-screen flex flex-col bg-slate-100 overflow-hidden print:h-auto print:overflow-visible print:bg-white">
+        <header id="region-header" class="relative bg-white border-b px-8 py-4 flex justify-between items-center z-50 no-print"></header>
+        <input type="file" id="zipIn2" class="hidden" accept=".zip,.xml,.csv" />
+        <div class="flex-1 flex overflow-hidden print:block print:overflow-visible">
+            <aside id="region-sidebar" class="w-80 bg-white border-r overflow-y-auto p-4 no-print"></aside>
+            <main id="region-body" class="flex-1 bg-slate-200 overflow-y-auto p-12 print:p-0 print:bg-white print:overflow-visible print:h-auto"></main>
+        </div>
+        <div id="region-overlay"></div>
+        <style>
+            @media print {
+                html, body, #root, .flex-col, .flex-1 { 
+                    height: auto !important; 
+                    overflow: visible !important; 
+                    display: block !important; 
+                    background: white !important;
+                }
+                .no-print, header, aside, .mb-8 { display: none !important; }
+                main { 
+                    padding: 0 !important; 
+                    margin: 0 !important;
+                    overflow: visible !important; 
+                }
+                .print-area { 
+                    width: 100% !important; 
+                    margin: 0 !important; 
+                    padding: 0 !important;
+                }
+                * { 
+                    -webkit-print-color-adjust: exact !important; 
+                    print-color-adjust: exact !important; 
+                }
+            }
+        </style>
+    </div>
+`;
+
+const REGION_RENDERERS: Record<Region, () => string> = { header: renderHeader, sidebar: renderSidebar, body: renderBody, overlay: renderOverlay };
+
+// 指定した領域だけを描き直す。骨組みがまだ無い（別の画面を表示中の）場合は全体を描画する
+const update = (...regions: Region[]) => {
+    if (!document.getElementById('app-shell')) { render(); return; }
+    regions.forEach(region => {
+        document.getElementById(`region-${region}`)!.innerHTML = REGION_RENDERERS[region]();
+        REGION_ATTACHERS[region]();
+    });
+    if (regions.includes('body')) afterBodyUpdate();
+    if ((window as any).lucide) (window as any).lucide.createIcons();
+    syncRoute();
+};
+
+// 別のファイル・表示に切り替えたときだけ先頭へ戻し、同じ表示の描き直しではスクロール位置を保つ
+const afterBodyUpdate = () => {
+    const main = document.getElementById('region-body')!;
+    const bodyKey = [state.selectedCaseIdx, state.selectedFileIdx, state.viewMode].join(":");
+    if (bodyKey !== lastBodyKey) main.scrollTop = 0;
+    lastBodyKey = bodyKey;
+    refreshVirtualRows();
+    if (state.viewMode === 'all' && state.allFieldsFocus) revealVirtualRow('all-fields-rows');
+    if (state.viewMode === 'summary' && state.noticeFocusRow >= 0) revealVirtualRow('notice-rows');
+};
+
+// 料率の変更では計算に関わる部分（見出しの料率表示・設定欄・計算結果）だけを描き直す
+const updateSimulator = () => {
+    const data = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx]?.analysis;
+    const el = document.getElementById('sim-results');
+    if (data && el) el.innerHTML = renderSimulatorBody(data, getActiveRates(data));
+};
+
+const updateCalculator = () => {
+    const data = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx]?.analysis;
+    const settings = document.getElementById('calc-settings');
+    if (state.viewMode !== 'calculator' || !data || !settings) { update('body'); return; }
+    const rates = getActiveRates(data);
+    const focused = document.activeElement?.id;
+    document.getElementById('calc-caption')!.innerHTML = renderCalculatorCaption(rates);
+    settings.innerHTML = renderCalculatorSettings(data, rates);
+    document.getElementById('calc-results')!.innerHTML = renderCalculatorBody(data, rates);
+    updateSimulator();
+    attachCalculator();
+    if (focused) document.getElementById(focused)?.focus();
+    refreshVirtualRows();
+    syncRoute(true);
+};
+
 const render = () => {
     const root = document.getElementById('root');
     if (!root) return;
-    if (state.isLoading) { root.innerHTML = `<div class="h-screen flex items-center justify-center bg-slate-900 text-white animate-pulse text-xl">解析中...</div>`; return; }
+    // 最初のファイルの解析が終わるまでは読込画面を表示し、以降はサイドバーで進み具合を示す
+    if (state.isLoading && state.cases.length === 0) {
+        root.innerHTML = `
+            <div class="h-screen flex items-center justify-center bg-slate-900 p-6">
+                <div class="w-[560px] bg-white rounded-3xl shadow-2xl p-6">
+                    ${state.upload ? renderUploadProgress(state.upload, state.loadingMsg) : `<p class="text-center animate-pulse">${escapeHTML(state.loadingMsg)}</p>`}
+                </div>
+            </div>`;
+        attachUploadProgress(uploadHandlers);
+        return;
+    }
+    if (state.showLibrary) {
+        root.innerHTML = renderLibraryView(state.library, new Set(state.cases.map(c => c.libraryId || "")));
+        attachLibrary();
+        if ((window as any).lucide) (window as any).lucide.createIcons();
+        syncRoute();
+        return;
+    }
     if (state.cases.length === 0) {
         root.innerHTML = `
             <div class="h-screen flex flex-col items-center justify-center bg-slate-50 p-6">
                 <h1 class="text-6xl font-black mb-12 text-slate-800 tracking-tight">e-GOV公文書確認用</h1>
                 <label class="bg-blue-600 text-white px-12 py-6 rounded-2xl font-bold text-xl cursor-pointer shadow-2xl hover:bg-blue-700 hover:scale-105 active:scale-95 transition-all duration-300">
-                    ファイル読込 (XML/ZIP)
-                    <input type="file" id="zipIn" class="hidden" accept=".zip,.xml" />
+                    ファイル読込 (XML/CSV/ZIP)
+                    <input type="file" id="zipIn" class="hidden" accept=".zip,.xml,.csv" />
                 </label>
-                <p class="mt-8 text-slate-400 font-medium">XMLまたはZIPファイルをこちらにドラッグ＆ドロップしてください</p>
+                <p class="mt-8 text-slate-400 font-medium">XML・CSVまたはZIPファイルをこちらにドラッグ＆ドロップしてください</p>
+                ${renderRecentCases(state.library)}
             </div>
         `;
-        document.getElementById('zipIn')?.addEventListener('change', handleUpload); return;
+        document.getElementById('zipIn')?.addEventListener('change', handleUpload);
+        attachLibrary();
+        syncRoute();
+        return;
     }
-    const cur = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx];
-    const data = cur?.analysis;
-    const isNotice = data?.docType === 'NOTICE' || data?.docType === 'BONUS_NOTICE';
-
-    root.innerHTML = `
-        <div class="h-screen flex flex-col bg-slate-100 overflow-hidden print:h-auto print:overflow-visible print:bg-white">
-            <header class="bg-white border-b px-8 py-4 flex justify-between items-center z-50 no-print">
-                <div class="flex items-center gap-4">
-                    <button id="home" class="p-2 border rounded-xl hover:bg-slate-50 transition-colors"><i data-lucide="home"></i></button>
-                    <h1 class="font-black text-xl">e-Gov Explorer <span class="text-blue-600">Hidelity</span></h1>
-                </div>
-                <div class="flex gap-2">
-                    <button id="btn-open" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold bg-slate-700 text-white hover:bg-slate-800 transition-all shadow-md">
-                        <i data-lucide="folder-open" size="18"></i> ファイルを開く
-                    </button>
-                    ${isNotice ? `
-                    <button id="btn-calc" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold ${state.viewMode === 'calculator' ? 'bg-blue-600 text-white' : 'bg-slate-800 text-white'} transition-all shadow-md">
-                        <i data-lucide="${state.viewMode === 'calculator' ? 'file-text' : 'calculator'}" size="18"></i> ${state.viewMode === 'calculator' ? '帳票表示に戻る' : '控除額計算シミュレータ'}
-                    </button>
-                    <button id="btn-csv" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all shadow-md">
-                        <i data-lucide="download" size="18"></i> CSV保存
-                    </button>` : ''}
-                    <button id="btn-pdf" class="flex items-center gap-2 px-6 py-2 rounded-xl font-bold bg-rose-600 text-white hover:bg-rose-700 transition-all shadow-md">
-                        <i data-lucide="printer" size="18"></i> PDF保存(印刷)
-                    </button>
-                </div>
-            </header>
-            <input type="file" id="zipIn2" class="hidden" accept=".zip,.xml" />
-            <div class="flex-1 flex overflow-hidden print:block print:overflow-visible">
-                <aside class="w-80 bg-white border-r overflow-y-auto p-4 no-print">
-                    ${state.cases.map((c, ci) => `
-                        <button class="w-full text-left p-3 bg-slate-50 font-bold mb-2 rounded-xl toggle-case flex justify-between items-center" data-idx="${ci}">${c.folderName} <i data-lucide="${c.isOpen ? 'chevron-up' : 'chevron-down'}" size="14"></i></button>
-                        ${c.isOpen ? c.files.map((f, fi) => `
-                            <button class="w-full text-left p-4 text-[11px] font-bold mb-1 rounded-xl border transition-all ${ci === state.selectedCaseIdx && fi === state.selectedFileIdx ? 'bg-blue-600 text-white border-blue-600 shadow-lg translate-x-1' : 'bg-white hover:bg-slate-50 border-slate-100'}" data-ci="${ci}" data-fi="${fi}">${f.name}</button>
-                        `).join('') : ''}
-                    `).join('')}
-                </aside>
-                <main class="flex-1 bg-slate-200 overflow-y-auto p-12 print:p-0 print:bg-white print:overflow-visible print:h-auto">
-                    <div class="mb-8 flex justify-center bg-white p-2 rounded-2xl w-fit mx-auto shadow-sm no-print border border-slate-300">
-                        <button id="sumV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'summary' || state.viewMode === 'calculator' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">帳票プレビュー</button>
-                        <button id="allV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'all' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">全項目一覧</button>
-                        <button id="treeV" class="px-10 py-3 rounded-xl font-black ${state.viewMode === 'tree' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}">XML構造解析</button>
-                    </div>
-                    <div class="print-area print:m-0 print:w-full">
-                        ${state.viewMode === 'calculator' && data ? renderCalculatorView(data) :
-                          (state.viewMode === 'all' ? renderAllFields(cur?.parsed) :
-                          (state.viewMode !== 'tree' && data ? 
-                            (data.docType === 'SUMMARY' ? renderSummarySheet(data) : 
-                             data.docType === 'ANNOUNCEMENT' ? renderAnnouncementSheet(data) :
-                             renderNoticeSheet(data)) : 
-                          (state.viewMode === 'tree' ? `<pre class="bg-slate-900 text-blue-400 p-10 rounded-3xl font-mono text-xs overflow-auto shadow-2xl">${JSON.stringify(cur?.parsed, null, 2)}</pre>` : '<div class="text-center p-20 bg-white rounded-3xl shadow no-print">プレビュー対象外のファイルです</div>')))}
-                    </div>
-                </main>
-            </div>
-            <style>
-                @media print {
-                    html, body, #root, .flex-col, .flex-1 { 
-                        height: auto !important; 
-                        overflow: visible !important; 
-                        display: block !important; 
-                        background: white !important;
-                    }
-                    .no-print, header, aside, .mb-8 { display: none !important; }
-                    main { 
-                        padding: 0 !important; 
-                        margin: 0 !important;
-                        overflow: visible !important; 
-                    }
-                    .print-area { 
-                        width: 100% !important; 
-                        margin: 0 !important; 
-                        padding: 0 !important;
-                    }
-                    * { 
-                        -webkit-print-color-adjust: exact !important; 
-                        print-color-adjust: exact !important; 
-                    }
-                }
-            </style>
-        </div>
-    `;
-    attach();
-    if ((window as any).lucide) (window as any).lucide.createIcons();
+    if (!document.getElementById('app-shell')) {
+        root.innerHTML = renderShell();
+        document.getElementById('zipIn2')?.addEventListener('change', handleUpload);
+        mountVirtualScroller(document.getElementById('region-body')!);
+        lastBodyKey = "";
+    }
+    update(...ALL_REGIONS);
+};
+
+// 手動で文字コードを指定し直したときは元のバイト列から再デコード・再解析する
+const reencodeFile = (ci: number, fi: number, forced: { body?: TextEncodingName, name?: TextEncodingName }) => {
+    const f = state.cases[ci]?.files[fi];
+    if (!f?.raw) return;
+    state.cases[ci].files[fi] = buildAppFile(f.fullPath, f.raw, f.rawName, {
+        body: forced.body ?? (f.encodingSource === 'manual' ? f.encoding : undefined),
+        name: 'name' in forced ? forced.name : f.nameEncoding
+    });
+    state.searchIndex = null;
+    render();
+    const c = state.cases[ci];
+    if (c.libraryId && state.library.autoSave) {
+        saveCase(c).catch((err: any) => {
+            state.library.message = `「${c.folderName}」をライブラリに保存できませんでした: ${err?.message || err}`;
+            render();
+        });
+    }
+};
+
+// --- Upload ---
+// ZIP の展開と XML の解析は Worker に任せ、解析が終わったファイルから順にサイドバーへ追加する
+let activeImport: ImportPool | null = null;
+let uploadFrame = 0;
+
+// 結果が届くたびに描き直すと重いため、1フレームに1回にまとめる
+const scheduleUploadRender = () => {
+    if (uploadFrame) return;
+    uploadFrame = requestAnimationFrame(() => {
+        uploadFrame = 0;
+        if (document.getElementById('app-shell') && state.cases.length > 0) update('sidebar');
+        else render();
+    });
+};
+
+const cancelUpload = () => {
+    if (!activeImport || !state.upload) return;
+    state.upload.cancelled = true;
+    activeImport.cancel();
+};
+
+const uploadMessage = (upload: UploadState) => {
+    const finished = upload.items.filter(isUploadItemFinished).length;
+    if (upload.active) return upload.cancelled ? "中止しています..." : `解析中... (${finished}/${upload.items.length})`;
+    if (upload.cancelled) return `読み込みを中止しました (${upload.items.filter(i => i.status === 'done').length}/${upload.items.length})`;
+    const failed = upload.items.filter(i => i.status === 'error').length;
+    return failed > 0 ? `${failed}件のファイルを読み込めませんでした` : "読み込みが完了しました";
 };
 
 const handleUpload = async (e: Event) => {
-    const files = Array.from((e.target as HTMLInputElement).files || []);
+    const input = e.target as HTMLInputElement;
+    const files = Array.from(input.files || []);
+    input.value = "";
     if (files.length === 0) return;
+    cancelUpload();
+    const pool = createImportPool();
+    const upload: UploadState = { items: [], active: true, cancelled: false };
+    const folders = new Map<string, { entry: CaseEntry, slots: (AppFile | undefined)[] }>();
+    const pending: Promise<void>[] = [];
+    activeImport = pool;
+    state.upload = upload;
+    state.cases = [];
+    state.selectedCaseIdx = -1;
+    state.selectedFileIdx = -1;
+    state.searchIndex = null;
+    state.noticeFocusRow = -1;
+    state.compare = { ...state.compare, left: null, right: null };
+    state.loadingMsg = uploadMessage(upload);
     state.isLoading = true; render();
-    const caseMap = new Map<string, AppFile[]>();
+
+    const folderOf = (path: string) => {
+        const name = caseFolderOf(path);
+        if (!folders.has(name)) folders.set(name, { entry: { folderName: name, files: [], stylesheets: [], isOpen: true }, slots: [] });
+        return folders.get(name)!;
+    };
+
+    // 解析済みのファイルを ZIP 内の並び順のまま案件に反映し、選択中のファイルは同じものを指し続ける
+    const publish = () => {
+        const selected = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx];
+        state.cases = Array.from(folders.values()).filter(f => f.slots.some(Boolean)).map(f => {
+            f.entry.files = f.slots.filter((x): x is AppFile => !!x);
+            return f.entry;
+        });
+        state.selectedCaseIdx = selected ? state.cases.findIndex(c => c.files.includes(selected)) : 0;
+        state.selectedFileIdx = selected ? state.cases[state.selectedCaseIdx].files.indexOf(selected) : 0;
+        state.searchIndex = null;
+    };
+
+    const track = (name: string, task: ImportTask, onDone: (result: ImportResult) => void) => {
+        const item: UploadItem = { name, status: 'queued' };
+        upload.items.push(item);
+        const started = () => { item.status = task.type === 'unzip' ? 'unzipping' : 'parsing'; scheduleUploadRender(); };
+        pending.push(pool.run(task, started).then(result => {
+            if (upload.cancelled) { item.status = 'cancelled'; return; }
+            item.status = 'done';
+            onDone(result);
+        }, (err: Error) => {
+            item.status = err instanceof ImportCancelledError ? 'cancelled' : 'error';
+            item.error = err.message;
+        }).finally(() => {
+            state.loadingMsg = uploadMessage(upload);
+            scheduleUploadRender();
+        }));
+    };
+
+    const addEntry = (path: string, raw: Uint8Array, rawName?: Uint8Array) => {
+        if (isStylesheetPath(path)) {
+            const folder = folderOf(path);
+            track(path, { type: 'xsl', path, raw }, r => { if (r.type === 'xsl') folder.entry.stylesheets.push(r.asset); });
+        } else if (isDocumentPath(path)) {
+            const folder = folderOf(path);
+            const slot = folder.slots.push(undefined) - 1;
+            track(path, { type: 'xml', path, raw, rawName }, r => {
+                if (r.type !== 'xml') return;
+                folder.slots[slot] = r.file;
+                publish();
+            });
+        }
+    };
+
     for (const f of files) {
-        const proc = async (path: string, name: string, content: string) => {
-            if (!name.toLowerCase().endsWith('.xml')) return;
-            const doc = new DOMParser().parseFromString(content, "text/xml");
-            const walk = (el: Element): XMLNode => {
-                const n = el.tagName.split(':').pop() || el.tagName;
-                const children: XMLNode[] = [];
-                Array.from(el.childNodes).forEach(c => { if (c.nodeType === Node.ELEMENT_NODE) children.push(walk(c as Element)); });
-                return { name: n, content: el.children.length === 0 ? el.textContent?.trim() : undefined, children };
-            };
-            const parsed = walk(doc.documentElement);
-            const dir = path.split('/')[0] || "一括";
-            if (!caseMap.has(dir)) caseMap.set(dir, []);
-            caseMap.get(dir)!.push({ name, fullPath: path, content, parsed, analysis: extractDetailed(parsed) || undefined });
-        };
-        if (f.name.endsWith('.zip')) {
-            const zip = await new JSZip().loadAsync(f);
-            for (const p of Object.keys(zip.files)) if (!zip.files[p].dir) await proc(p, p.split('/').pop()!, await zip.files[p].async('string'));
-        } else await proc(f.name, f.name, await f.text());
+        if (/\.zip$/i.test(f.name)) {
+            track(f.name, { type: 'unzip', name: f.name, bytes: await f.arrayBuffer() }, r => {
+                if (r.type === 'unzip') r.entries.forEach(en => addEntry(en.path, en.raw, en.rawName));
+            });
+        } else addEntry(f.name, new Uint8Array(await f.arrayBuffer()));
     }
-    state.cases = Array.from(caseMap.entries()).map(([folderName, files]) => ({ folderName, files, isOpen: true }));
-    if (state.cases.length > 0) { state.selectedCaseIdx = 0; state.selectedFileIdx = 0; }
+    // ZIP を展開すると解析タスクが追加されるため、新しいタスクが無くなるまで待つ
+    while (pending.length > 0) await Promise.all(pending.splice(0));
+    pool.dispose();
+
+    // 後から別の読み込みが始まった場合は、そちらに任せる
+    if (activeImport !== pool) return;
+    activeImport = null;
+    upload.active = false;
+    state.loadingMsg = uploadMessage(upload);
+    if (!upload.cancelled && upload.items.every(i => i.status === 'done')) state.upload = null;
     state.isLoading = false; render();
+    if (!upload.cancelled) persistCases(state.cases);
 };
 
-const attach = () => {
-    document.getElementById('home')?.addEventListener('click', () => { state.cases = []; render(); });
+const uploadHandlers = {
+    onCancel: () => { cancelUpload(); render(); },
+    onClose: () => { state.upload = null; render(); }
+};
+
+const attachHeader = () => {
+    document.getElementById('home')?.addEventListener('click', () => {
+        cancelUpload();
+        state.upload = null;
+        state.cases = [];
+        state.searchIndex = null;
+        state.search = { query: "", open: false };
+        state.compare = { ...state.compare, left: null, right: null };
+        render();
+    });
     document.getElementById('btn-open')?.addEventListener('click', () => document.getElementById('zipIn2')?.click());
-    document.getElementById('zipIn2')?.addEventListener('change', handleUpload);
-    document.getElementById('sumV')?.addEventListener('click', () => { state.viewMode = 'summary'; render(); });
-    document.getElementById('allV')?.addEventListener('click', () => { state.viewMode = 'all'; render(); });
-    document.getElementById('treeV')?.addEventListener('click', () => { state.viewMode = 'tree'; render(); });
-    document.getElementById('btn-calc')?.addEventListener('click', () => { state.viewMode = state.viewMode === 'calculator' ? 'summary' : 'calculator'; render(); });
-    document.getElementById('btn-csv')?.addEventListener('click', downloadCSV);
+    attachLibrary();
+    document.getElementById('btn-calc')?.addEventListener('click', () => { state.viewMode = state.viewMode === 'calculator' ? 'summary' : 'calculator'; update('header', 'body'); });
+    document.getElementById('btn-csv')?.addEventListener('click', () => {
+        const data = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx]?.analysis;
+        if (!usesExportTemplates(data)) { downloadCSV(); return; }
+        state.exportMenuOpen = !state.exportMenuOpen;
+        state.search.open = false;
+        update('header');
+    });
+    document.getElementById('export-menu-close')?.addEventListener('click', () => { state.exportMenuOpen = false; update('header'); });
+    document.querySelectorAll('.tpl-csv').forEach(b => b.addEventListener('click', (e) => downloadWithTemplate((e.currentTarget as HTMLElement).dataset.tpl || "", 'csv')));
+    document.querySelectorAll('.tpl-xlsx').forEach(b => b.addEventListener('click', (e) => downloadWithTemplate((e.currentTarget as HTMLElement).dataset.tpl || "", 'xlsx')));
+    document.querySelectorAll('.tpl-edit').forEach(b => b.addEventListener('click', (e) => {
+        const src = getExportTemplates().find(t => t.id === (e.currentTarget as HTMLElement).dataset.tpl);
+        if (!src) return;
+        const copy: ExportTemplate = JSON.parse(JSON.stringify(src));
+        // プリセットは上書きせず、複製を編集する
+        state.templateDraft = src.builtin ? { ...copy, id: `tpl-${Date.now()}`, name: `${src.name} のコピー`, builtin: false } : copy;
+        update('overlay');
+    }));
+    document.getElementById('tpl-new')?.addEventListener('click', () => {
+        state.templateDraft = { id: `tpl-${Date.now()}`, name: "新しいテンプレート", dateStyle: 'ad', amountUnit: 'yen', columns: JSON.parse(JSON.stringify(BUILTIN_TEMPLATES[0].columns)) };
+        update('overlay');
+    });
+    document.getElementById('btn-xlsx')?.addEventListener('click', downloadXLSX);
+    document.getElementById('btn-case-xlsx')?.addEventListener('click', downloadCaseXLSX);
     document.getElementById('btn-pdf')?.addEventListener('click', () => window.print());
-    document.querySelectorAll('.toggle-case').forEach(b => b.addEventListener('click', (e) => { const i = parseInt((e.currentTarget as any).dataset.idx); state.cases[i].isOpen = !state.cases[i].isOpen; render(); }));
-    document.querySelectorAll('[data-ci]').forEach(b => b.addEventListener('click', (e) => { const t = e.currentTarget as any; state.selectedCaseIdx = parseInt(t.dataset.ci); state.selectedFileIdx = parseInt(t.dataset.fi); state.viewMode = 'summary'; render(); }));
-    if (state.viewMode === 'calculator') {
-        ['rate-health', 'rate-pension', 'rate-nursing', 'calc-nursing'].forEach(id => document.getElementById(id)?.addEventListener('change', (e: any) => {
-            if (id === 'calc-nursing') state.rates.isNursingTarget = e.target.checked;
-            else (state.rates as any)[id.split('-')[1]] = parseFloat(e.target.value) || 0;
-            render();
+    document.getElementById('global-search')?.addEventListener('keydown', (e) => {
+        if ((e as KeyboardEvent).key !== 'Enter') return;
+        state.search.query = ((e.target as HTMLInputElement).value || "").trim();
+        state.search.open = state.search.query !== "";
+        update('header');
+    });
+    document.getElementById('search-close')?.addEventListener('click', () => { state.search.open = false; update('header'); });
+    // 検索結果から該当ファイルを開き、被保険者行は帳票上の行、項目は全項目一覧の行へ移動する
+    document.querySelectorAll('.search-hit').forEach(b => b.addEventListener('click', (e) => {
+        const t = (e.currentTarget as HTMLElement).dataset;
+        state.selectedCaseIdx = parseInt(t.sci || "0");
+        state.selectedFileIdx = parseInt(t.sfi || "0");
+        state.cases[state.selectedCaseIdx].isOpen = true;
+        if (t.kind === 'row') {
+            state.viewMode = 'summary';
+            state.noticeFocusRow = parseInt(t.row || "-1");
+        } else {
+            state.viewMode = 'all';
+            state.allFieldsFocus = t.path || "";
+        }
+        state.search.open = false;
+        update('header', 'sidebar', 'body');
+    }));
+};
+
+const attachSidebar = () => {
+    const aside = document.getElementById('region-sidebar')!;
+    attachUploadProgress(uploadHandlers);
+    aside.querySelectorAll('.toggle-case').forEach(b => b.addEventListener('click', (e) => { const i = parseInt((e.currentTarget as any).dataset.idx); state.cases[i].isOpen = !state.cases[i].isOpen; update('sidebar'); }));
+    aside.querySelectorAll('[data-ci]').forEach(b => b.addEventListener('click', (e) => { const t = e.currentTarget as any; state.selectedCaseIdx = parseInt(t.dataset.ci); state.selectedFileIdx = parseInt(t.dataset.fi); state.viewMode = 'summary'; state.noticeFocusRow = -1; update('header', 'sidebar', 'body'); }));
+};
+
+const attachOverlay = () => {
+    if (!state.templateDraft) return;
+    attachTemplateEditor(state.templateDraft, {
+        onChange: () => update('overlay'),
+        onSave: (tpl) => {
+            const exists = state.customTemplates.some(t => t.id === tpl.id);
+            state.customTemplates = exists ? state.customTemplates.map(t => t.id === tpl.id ? tpl : t) : [...state.customTemplates, tpl];
+            saveExportTemplates(state.customTemplates);
+            state.templateDraft = null;
+            update('header', 'overlay');
+        },
+        onDelete: (id) => {
+            state.customTemplates = state.customTemplates.filter(t => t.id !== id);
+            saveExportTemplates(state.customTemplates);
+            state.templateDraft = null;
+            update('header', 'overlay');
+        },
+        onClose: () => { state.templateDraft = null; update('overlay'); }
+    });
+};
+
+const attachCalculator = () => {
+    (['health', 'pension', 'nursing', 'childcare'] as (keyof InsuranceRates)[]).forEach(key => document.getElementById(`rate-${key}`)?.addEventListener('change', (e: any) => {
+        const v = parseFloat(e.target.value);
+        if (isNaN(v)) delete state.rates.overrides[key];
+        else state.rates.overrides[key] = v;
+        updateCalculator();
+    }));
+    document.getElementById('calc-rounding')?.addEventListener('change', (e: any) => { state.rates.rounding = e.target.value; updateCalculator(); });
+    document.getElementById('calc-nursing')?.addEventListener('change', (e: any) => { state.rates.isNursingTarget = e.target.checked; updateCalculator(); });
+    document.getElementById('rate-insurer')?.addEventListener('change', (e: any) => { state.rates.insurerId = e.target.value; state.rates.overrides = {}; updateCalculator(); });
+    document.getElementById('rate-pref')?.addEventListener('change', (e: any) => { state.rates.prefCode = e.target.value; state.rates.overrides = {}; updateCalculator(); });
+    document.getElementById('rate-reset')?.addEventListener('click', () => { state.rates.overrides = {}; updateCalculator(); });
+    document.getElementById('rate-add-insurer')?.addEventListener('click', () => {
+        const data = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx]?.analysis;
+        if (!data) return;
+        const name = prompt("健保組合名を入力してください");
+        if (!name) return;
+        const rates = getActiveRates(data);
+        const entry: CustomInsurer = {
+            id: `custom-${Date.now()}`,
+            name,
+            effectiveFrom: getDocYearMonth(data) || toYearMonth(new Date().toISOString().slice(0, 7)),
+            health: rates.health,
+            nursing: rates.nursing,
+            pension: rates.pension
+        };
+        state.customInsurers = [...state.customInsurers, entry];
+        saveCustomInsurers(state.customInsurers);
+        state.rates.insurerId = entry.id;
+        state.rates.overrides = {};
+        updateCalculator();
+    });
+    document.getElementById('rate-del-insurer')?.addEventListener('click', () => {
+        state.customInsurers = state.customInsurers.filter(c => c.id !== state.rates.insurerId);
+        saveCustomInsurers(state.customInsurers);
+        state.rates.insurerId = KYOKAI_ID;
+        state.rates.overrides = {};
+        updateCalculator();
+    });
+};
+
+const attachBody = () => {
+    document.getElementById('library-message-close')?.addEventListener('click', () => { state.library.message = ""; update('body'); });
+    document.getElementById('sumV')?.addEventListener('click', () => { state.viewMode = 'summary'; state.noticeFocusRow = -1; update('header', 'body'); });
+    document.getElementById('allV')?.addEventListener('click', () => { state.viewMode = 'all'; state.allFieldsFocus = ""; update('header', 'body'); });
+    document.getElementById('treeV')?.addEventListener('click', () => { state.viewMode = 'tree'; update('header', 'body'); });
+    document.getElementById('explainV')?.addEventListener('click', () => { state.viewMode = 'explain'; update('header', 'body'); });
+    document.getElementById('officialV')?.addEventListener('click', () => { state.viewMode = 'official'; update('header', 'body'); });
+    document.getElementById('diagnosticsV')?.addEventListener('click', () => { state.viewMode = 'diagnostics'; update('header', 'body'); });
+    document.getElementById('compareV')?.addEventListener('click', () => {
+        // 初回は表示中のファイルを変更前側に置く
+        if (!state.compare.left && state.selectedCaseIdx >= 0) state.compare.left = { ci: state.selectedCaseIdx, fi: state.selectedFileIdx };
+        state.viewMode = 'compare';
+        update('header', 'body');
+    });
+    document.getElementById('historyV')?.addEventListener('click', () => {
+        const data = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx]?.analysis;
+        const no = normalize(data?.rows[state.noticeFocusRow]?.["被保険者整理番号"]);
+        if (no) state.historyKey = historyKey(data?.officeRegistryNotice, no);
+        state.viewMode = 'history';
+        update('header', 'body');
+    });
+    document.getElementById('official-compare')?.addEventListener('change', (e: any) => { state.officialCompare = e.target.checked; update('body'); });
+    document.getElementById('enc-body')?.addEventListener('change', (e: any) => reencodeFile(state.selectedCaseIdx, state.selectedFileIdx, { body: e.target.value }));
+    document.getElementById('enc-name')?.addEventListener('change', (e: any) => reencodeFile(state.selectedCaseIdx, state.selectedFileIdx, { name: e.target.value || undefined }));
+    if (state.viewMode === 'tree') {
+        const cur = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx];
+        attachXMLTreeView(cur?.parsed, getTreeState(cur), {
+            onChange: () => update('body'),
+            onJump: (path) => { state.viewMode = 'all'; state.allFieldsFocus = path; update('header', 'body'); }
+        });
+    }
+    if (state.viewMode === 'compare') {
+        const toRef = (v: string) => v ? { ci: parseInt(v.split(':')[0]), fi: parseInt(v.split(':')[1]) } : null;
+        document.getElementById('compare-left')?.addEventListener('change', (e: any) => { state.compare.left = toRef(e.target.value); update('body'); });
+        document.getElementById('compare-right')?.addEventListener('change', (e: any) => { state.compare.right = toRef(e.target.value); update('body'); });
+        document.getElementById('compare-swap')?.addEventListener('click', () => { const { left, right } = state.compare; state.compare.left = right; state.compare.right = left; update('body'); });
+        document.querySelectorAll('input[name="compare-mode"]').forEach(b => b.addEventListener('change', (e: any) => { state.compare.mode = e.target.value; update('body'); }));
+        document.getElementById('compare-hide')?.addEventListener('change', (e: any) => { state.compare.hideUnchanged = e.target.checked; update('body'); });
+        document.getElementById('compare-csv')?.addEventListener('click', () => {
+            const result = computeCompare(state.cases, state.compare);
+            const l = getFileByRef(state.cases, state.compare.left);
+            const r = getFileByRef(state.cases, state.compare.right);
+            if (!l || !r) return;
+            const rows = result.rows ? rowDiffCSVRows(result.rows) : result.fields ? fieldDiffCSVRows(result.fields) : null;
+            if (rows) saveCSV(toCSV(rows), `差分_${l.name.replace(/\.xml$/i, '')}_${r.name.replace(/\.xml$/i, '')}.csv`);
+        });
+    }
+    if (state.viewMode === 'history') {
+        document.getElementById('history-employee')?.addEventListener('change', (e: any) => { state.historyKey = e.target.value; update('body'); });
+        document.getElementById('history-csv')?.addEventListener('click', () => saveCSV(toCSV(historyCSVRows(buildEmployeeHistories(state.cases))), "標準報酬履歴.csv"));
+        document.querySelectorAll('.history-source').forEach(b => b.addEventListener('click', (e) => {
+            const t = (e.currentTarget as HTMLElement).dataset;
+            state.selectedCaseIdx = parseInt(t.hci || "0");
+            state.selectedFileIdx = parseInt(t.hfi || "0");
+            state.noticeFocusRow = parseInt(t.hrow || "-1");
+            state.viewMode = 'summary';
+            update('header', 'sidebar', 'body');
         }));
     }
+    if (state.viewMode === 'diagnostics') {
+        attachDiagnosticsPanel({
+            onJump: (ci, fi, row) => {
+                state.selectedCaseIdx = ci;
+                state.selectedFileIdx = fi;
+                state.noticeFocusRow = row;
+                state.viewMode = 'summary';
+                update('header', 'sidebar', 'body');
+            }
+        });
+    }
+    if (state.viewMode === 'explain') {
+        document.getElementById('explain-provider')?.addEventListener('change', (e: any) => { state.explainProviderId = e.target.value; });
+        document.getElementById('explain-run')?.addEventListener('click', () => {
+            const cur = state.cases[state.selectedCaseIdx]?.files[state.selectedFileIdx];
+            if (cur) requestExplanation(cur);
+        });
+    }
+    if (state.viewMode === 'calculator') {
+        attachCalculator();
+        attachGradeSimulator(state.simulator, { onChange: updateSimulator });
+    }
 };
 
+const REGION_ATTACHERS: Record<Region, () => void> = { header: attachHeader, sidebar: attachSidebar, body: attachBody, overlay: attachOverlay };
+
 render();
+pruneCases(state.library.retentionDays).catch(() => 0).then(restoreRoute).then(refreshLibrary);
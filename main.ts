@@ -1 +1,21 @@
-// 削除されました
\ No newline at end of file
+// --- Core Library ---
+// DOM に依存しない解析・判別・出力の公開窓口。ブラウザ画面（index.tsx）以外、CLI などから使う。
+
+export type { AnnouncementData, AppFile, CaseEntry, CsvFormGroup, CsvSubmissionData, DependentEntry, DependentNoticeData, DocDataMap, DocTypeId, EmploymentNoticeData, EmploymentPerson, FormattedDate, NoticeData, QualificationNoticeData, QualificationPerson, StylesheetAsset, SummaryData, UniversalData, XMLNode, XMLParseIssue } from "./types";
+export { XMLParseError, parseXMLContent } from "./services/xmlParser";
+export { buildAppFile, extractDetailed } from "./services/documentService";
+export type { ArchiveEntry, ImportResult, ImportTask } from "./services/importService";
+export { caseFolderOf, isCSVPath, isDocumentPath, isStylesheetPath, isXMLPath, runImportTask } from "./services/importService";
+export type { ExportColumn, ExportTable } from "./services/exportService";
+export { allFieldsTable, announcementTable, calculatorTable, csvSubmissionTable, dependentTable, employmentTable, noticeTable, qualificationTable, rowsTable, summaryTable, tableToCSV } from "./services/exportService";
+export type { DocScan, DocTypeDefinition } from "./services/docTypeService";
+export { classifyDocument, documentTable, getDocType, hasPersonRows, isDocType, listDocTypes, registerDocType, scanDocument, supportsCalculator, usesPayrollTemplates } from "./services/docTypeService";
+export type { CountCheck } from "./services/csvSubmissionService";
+export { caseCountChecks, crossCheckCounts, parseCSVRows, parseCSVSubmission } from "./services/csvSubmissionService";
+export type { Grade, GradeTableVersion, InsuranceKind } from "./services/gradeService";
+export { GRADE_TABLES, findGradeTable, formatGradeRange, gradeForAmount, gradeForSalary, isStandardMonthlyAmount, pensionAmountForHealth } from "./services/gradeService";
+export type { Diagnostic, DiagnosticCounts, Finding, Severity, ValidationContext, ValidationRule } from "./services/validationService";
+export { SEVERITY_LABELS, countDiagnostics, listValidationRules, registerValidationRule, validateCase, validateFile } from "./services/validationService";
+export { buildXLSX } from "./services/xlsxService";
+export type { BatchInput, BatchResult, FileJSON, ImportIssue, ImportIssueKind } from "./services/batchService";
+export { ISSUE_LABELS, caseJSON, caseTables, countIssues, fileIssue, formatIssue, loadBatch } from "./services/batchService";
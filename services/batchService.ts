@@ -0,0 +1,119 @@
+import { AppFile, CaseEntry, DocTypeId, UniversalData, XMLParseIssue } from "../types";
+import { flattenXML } from "../utils";
+import { caseCountChecks } from "./csvSubmissionService";
+import { documentTable } from "./docTypeService";
+import { ExportTable, allFieldsTable } from "./exportService";
+import { ArchiveEntry, caseFolderOf, isDocumentPath, isStylesheetPath, runImportTask } from "./importService";
+
+// --- Batch Conversion ---
+// 入力ファイル（XML・CSV・XSL・ZIP）の一括読み込みと、案件単位の出力データ作成。ブラウザの案件一括出力と CLI で共用する。
+
+export type ImportIssueKind = 'malformed' | 'unrecognized' | 'failed' | 'count_mismatch';
+
+export interface ImportIssue {
+    path: string;
+    kind: ImportIssueKind;
+    message: string;
+    line?: number;
+    column?: number;
+}
+
+export const ISSUE_LABELS: Record<ImportIssueKind, string> = {
+    malformed: "構文エラー",
+    unrecognized: "未対応の書類",
+    failed: "読込失敗",
+    count_mismatch: "件数不一致"
+};
+
+export interface BatchInput {
+    path: string;
+    bytes: Uint8Array;
+}
+
+export interface BatchResult {
+    cases: CaseEntry[];
+    issues: ImportIssue[];
+}
+
+export const fileIssue = (f: AppFile): ImportIssue | null => {
+    if (f.parseError) return { path: f.fullPath, kind: 'malformed', message: f.parseError.message, line: f.parseError.line, column: f.parseError.column };
+    if (!f.analysis) return { path: f.fullPath, kind: 'unrecognized', message: f.parsed ? "書類の種類を判別できません（全項目一覧として出力します）" : "CSV形式届書として読めません（出力しません）" };
+    return null;
+};
+
+// 総括票の届書件数と CSV 形式届書のレコード数が合わない届書ごとに1件
+export const countIssues = (c: CaseEntry): ImportIssue[] =>
+    (caseCountChecks(c.files) || []).filter(k => !k.ok).map(k => ({
+        path: c.folderName,
+        kind: 'count_mismatch',
+        message: `${k.label}: 総括票 ${k.declared ?? "（数値でない記入）"} 件／CSV ${k.actual} 件`
+    }));
+
+// ZIP は展開して中の XML・CSV・XSL を読み、案件（先頭フォルダ名）ごとにまとめる
+export const loadBatch = async (inputs: BatchInput[]): Promise<BatchResult> => {
+    const issues: ImportIssue[] = [];
+    const entries: ArchiveEntry[] = [];
+    for (const input of inputs) {
+        if (!/\.zip$/i.test(input.path)) { entries.push({ path: input.path, raw: input.bytes }); continue; }
+        try {
+            const result = await runImportTask({ type: 'unzip', name: input.path, bytes: input.bytes.slice().buffer });
+            if (result.type === 'unzip') entries.push(...result.entries);
+        } catch (err: any) {
+            issues.push({ path: input.path, kind: 'failed', message: `ZIPを展開できません: ${err?.message || err}` });
+        }
+    }
+    const cases = new Map<string, CaseEntry>();
+    const caseOf = (path: string) => {
+        const name = caseFolderOf(path);
+        if (!cases.has(name)) cases.set(name, { folderName: name, files: [], stylesheets: [], isOpen: true });
+        return cases.get(name)!;
+    };
+    for (const e of entries) {
+        if (isStylesheetPath(e.path)) {
+            const result = await runImportTask({ type: 'xsl', path: e.path, raw: e.raw });
+            if (result.type === 'xsl') caseOf(e.path).stylesheets.push(result.asset);
+        } else if (isDocumentPath(e.path)) {
+            const result = await runImportTask({ type: 'xml', path: e.path, raw: e.raw, rawName: e.rawName });
+            if (result.type !== 'xml') continue;
+            caseOf(e.path).files.push(result.file);
+            const issue = fileIssue(result.file);
+            if (issue) issues.push(issue);
+        }
+    }
+    const loaded = Array.from(cases.values()).filter(c => c.files.length > 0);
+    loaded.forEach(c => issues.push(...countIssues(c)));
+    return { cases: loaded, issues };
+};
+
+// 案件内の全ファイルを1ファイル1表にする。独自レイアウト対象外のファイルは全項目一覧で出力する
+export const caseTables = (c: CaseEntry): ExportTable[] => c.files.flatMap(f => {
+    const name = f.name.replace(/\.(xml|csv)$/i, '');
+    return f.analysis ? [documentTable(f.analysis, name)] : f.parsed ? [allFieldsTable(f.parsed, name)] : [];
+});
+
+export interface FileJSON {
+    name: string;
+    path: string;
+    encoding?: string;
+    docType?: DocTypeId;
+    data?: UniversalData;
+    fields?: { path: string, value: string }[];
+    error?: XMLParseIssue;
+}
+
+// 判別できた書類は抽出データを、判別できない書類は全項目をそのまま載せる
+export const caseJSON = (c: CaseEntry): { folderName: string, files: FileJSON[] } => ({
+    folderName: c.folderName,
+    files: c.files.map(f => ({
+        name: f.name,
+        path: f.fullPath,
+        encoding: f.encoding,
+        docType: f.analysis?.docType,
+        data: f.analysis,
+        fields: !f.analysis && f.parsed ? flattenXML(f.parsed) : undefined,
+        error: f.parseError
+    }))
+});
+
+export const formatIssue = (issue: ImportIssue) =>
+    `[${ISSUE_LABELS[issue.kind]}] ${issue.path}${issue.line ? ` (${issue.line}行${issue.column ? ` ${issue.column}列` : ''})` : ''}: ${issue.message}`;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { UniversalData } from "../types";
+import { computeBonusCaps } from "./bonusCapService";
+
+// 令和の支払年月日と標準賞与額（千円）で賞与の行を作る
+const bonus = (insuredNo: string, ymd: [number, number, number], health: number, pension: number = health) => ({
+    "被保険者整理番号": insuredNo,
+    "賞与支払年月日_元号": "9",
+    "賞与支払年月日_年": String(ymd[0]),
+    "賞与支払年月日_月": String(ymd[1]),
+    "賞与支払年月日_日": String(ymd[2]),
+    "決定後の標準賞与額_健保": String(health),
+    "決定後の標準賞与額_厚年": String(pension)
+});
+
+const notice = (rows: Record<string, any>[], officeRegistryNotice: string = "11-アイウ"): UniversalData => ({ docType: 'BONUS_NOTICE', title: "", rows, officeRegistryNotice });
+
+const capsOf = (rows: Record<string, any>[]) => {
+    const caps = computeBonusCaps([{ fileName: "bonus.xml", data: notice(rows) }]);
+    return rows.map(r => caps.get(r)!);
+};
+
+describe("computeBonusCaps", () => {
+    it("健保は年度累計573万円ちょうどまでは上限を適用しない", () => {
+        const [a, b, c] = capsOf([bonus("1", [6, 6, 10], 3000, 1000), bonus("1", [6, 12, 10], 2730, 1000), bonus("1", [7, 3, 10], 1, 1)]);
+        expect([a.cappedHealth, b.cappedHealth, c.cappedHealth]).toEqual([3000000, 2730000, 0]);
+        expect([a.healthCapped, b.healthCapped, c.healthCapped]).toEqual([false, false, true]);
+        expect(c.priorHealth).toBe(5730000);
+    });
+
+    it("健保の累計は4月で新しい年度になる", () => {
+        const [a, b] = capsOf([bonus("1", [6, 3, 31], 5730, 1000), bonus("1", [6, 4, 1], 1000, 1000)]);
+        expect([a.fiscalYear, b.fiscalYear]).toEqual([2023, 2024]);
+        expect(b.healthCapped).toBe(false);
+    });
+
+    it.each([
+        ["同月の2回目", [6, 7, 25], 500000, true],
+        ["翌月", [6, 8, 1], 600000, false]
+    ] as [string, [number, number, number], number, boolean][])("厚年の月150万円上限: %s", (_, second, cappedPension, capped) => {
+        const [, b] = capsOf([bonus("1", [6, 7, 10], 1000, 1000), bonus("1", second, 600, 600)]);
+        expect(b.cappedPension).toBe(cappedPension);
+        expect(b.pensionCapped).toBe(capped);
+    });
+
+    it("1回で150万円を超える厚年の標準賞与額は150万円になる", () => {
+        const [a] = capsOf([bonus("1", [6, 7, 10], 1600, 1600)]);
+        expect(a.cappedPension).toBe(1500000);
+        expect(a.cappedHealth).toBe(1600000);
+    });
+
+    it("被保険者ごとに別々に累計する", () => {
+        const [, b] = capsOf([bonus("1", [6, 7, 10], 5730, 1500), bonus("2", [6, 7, 10], 5730, 1500)]);
+        expect(b.healthCapped || b.pensionCapped).toBe(false);
+    });
+
+    it("整理番号が同じでも事業所が違えば別の被保険者として累計する", () => {
+        const a = bonus("1", [6, 7, 10], 5730, 1500);
+        const b = bonus("1", [6, 7, 10], 5730, 1500);
+        const caps = computeBonusCaps([
+            { fileName: "office1.xml", data: notice([a], "11-アイウ") },
+            { fileName: "office2.xml", data: notice([b], "22-エオカ") }
+        ]);
+        expect(caps.get(b)!.healthCapped || caps.get(b)!.pensionCapped).toBe(false);
+        expect(caps.get(a)!.insuredKey).not.toBe(caps.get(b)!.insuredKey);
+    });
+});
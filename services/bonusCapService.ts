@@ -0,0 +1,111 @@
+import { UniversalData } from "../types";
+import { normalize } from "../utils";
+import { getReferenceDate, getStandardAmounts } from "./calcService";
+import { parseAD } from "./eligibilityService";
+import { historyKey } from "./historyService";
+
+// --- Bonus Caps ---
+// 健康保険の標準賞与額は年度（4月～翌3月）累計573万円、
+// 厚生年金は同一月に支払われた賞与の合計で150万円が上限となる。
+// 同一案件内の複数の標準賞与額決定通知書をまたいで、被保険者ごとに累計する。
+// 被保険者整理番号は事業所内でしか一意でないため、標準報酬履歴と同じく事業所整理記号と組にして見分ける。
+// 支払年月日を読めない行は年度・月が決まらないため累計に加えず、上限も適用しない（payDateUnknown で示す）。
+
+export const HEALTH_BONUS_ANNUAL_CAP = 5730000;
+export const PENSION_BONUS_MONTHLY_CAP = 1500000;
+
+export interface BonusCapEntry {
+    insuredKey: string;
+    payDateAD: string;
+    // 支払年月日を読めない行は null
+    fiscalYear: number | null;
+    payDateUnknown: boolean;
+    rawHealth: number;
+    rawPension: number;
+    cappedHealth: number;
+    cappedPension: number;
+    priorHealth: number;
+    priorPension: number;
+    healthCapped: boolean;
+    pensionCapped: boolean;
+    sourceFiles: string[];
+}
+
+export interface BonusSource {
+    fileName: string;
+    data: UniversalData;
+}
+
+const insuredKeyOf = (officeRegistry: string | undefined, row: Record<string, any>): string =>
+    historyKey(officeRegistry, normalize(row["被保険者整理番号"]) || `name:${normalize(row["被保険者氏名"]).replace(/\s/g, "")}`);
+
+// 支払日順に累計し、行オブジェクトをキーとした上限適用結果を返す
+export const computeBonusCaps = (sources: BonusSource[]): Map<Record<string, any>, BonusCapEntry> => {
+    const items = sources
+        .filter(s => s.data.docType === 'BONUS_NOTICE')
+        .flatMap((s, fileOrder) => s.data.rows.map((row, rowOrder) => {
+            const payDateAD = getReferenceDate(row, true);
+            const ymd = parseAD(payDateAD);
+            return { row, officeRegistry: s.data.officeRegistryNotice, fileName: s.fileName, fileOrder, rowOrder, payDateAD, ymd, amounts: getStandardAmounts(row, true) };
+        }))
+        .sort((a, b) => (a.payDateAD || "9999").localeCompare(b.payDateAD || "9999") || (a.fileOrder - b.fileOrder) || (a.rowOrder - b.rowOrder));
+
+    const healthTotals = new Map<string, number>();
+    const pensionTotals = new Map<string, number>();
+    const filesByYear = new Map<string, string[]>();
+    const result = new Map<Record<string, any>, BonusCapEntry>();
+
+    items.forEach(item => {
+        const insuredKey = insuredKeyOf(item.officeRegistry, item.row);
+        if (!item.ymd) {
+            result.set(item.row, {
+                insuredKey,
+                payDateAD: item.payDateAD,
+                fiscalYear: null,
+                payDateUnknown: true,
+                rawHealth: item.amounts.health,
+                rawPension: item.amounts.pension,
+                cappedHealth: item.amounts.health,
+                cappedPension: item.amounts.pension,
+                priorHealth: 0,
+                priorPension: 0,
+                healthCapped: false,
+                pensionCapped: false,
+                sourceFiles: [item.fileName]
+            });
+            return;
+        }
+        const fiscalYear = item.ymd.m >= 4 ? item.ymd.y : item.ymd.y - 1;
+        const yearKey = `${insuredKey}|${fiscalYear}`;
+        const monthKey = `${insuredKey}|${item.ymd.y}-${item.ymd.m}`;
+
+        const priorHealth = healthTotals.get(yearKey) || 0;
+        const priorPension = pensionTotals.get(monthKey) || 0;
+        const cappedHealth = Math.max(0, Math.min(item.amounts.health, HEALTH_BONUS_ANNUAL_CAP - priorHealth));
+        const cappedPension = Math.max(0, Math.min(item.amounts.pension, PENSION_BONUS_MONTHLY_CAP - priorPension));
+        healthTotals.set(yearKey, priorHealth + cappedHealth);
+        pensionTotals.set(monthKey, priorPension + cappedPension);
+
+        const files = filesByYear.get(yearKey) || [];
+        if (!files.includes(item.fileName)) files.push(item.fileName);
+        filesByYear.set(yearKey, files);
+
+        result.set(item.row, {
+            insuredKey,
+            payDateAD: item.payDateAD,
+            fiscalYear,
+            payDateUnknown: false,
+            rawHealth: item.amounts.health,
+            rawPension: item.amounts.pension,
+            cappedHealth,
+            cappedPension,
+            priorHealth,
+            priorPension,
+            healthCapped: cappedHealth < item.amounts.health,
+            pensionCapped: cappedPension < item.amounts.pension,
+            sourceFiles: files
+        });
+    });
+
+    return result;
+};
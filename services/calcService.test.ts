@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { RoundingMode, calculatePremiums, roundFraction } from "./calcService";
+
+const ALL: { health: boolean, pension: boolean, nursing: boolean } = { health: true, pension: true, nursing: false };
+
+describe("roundFraction", () => {
+    it.each<[number, number, RoundingMode, number]>([
+        [1050, 100, 'fiftySen', 10],
+        [1051, 100, 'fiftySen', 11],
+        [1049, 100, 'fiftySen', 10],
+        [1000, 100, 'fiftySen', 10],
+        [1099, 100, 'floor', 10],
+        [1001, 100, 'ceil', 11],
+        [1000, 100, 'ceil', 10]
+    ])("%i / %i (%s) = %i", (n, d, mode, expected) => {
+        expect(roundFraction(n, d, mode)).toBe(expected);
+    });
+});
+
+describe("calculatePremiums", () => {
+    // 被保険者負担は折半額を端数処理し、事業主負担は全額（円未満切捨て）との差額
+    it.each<[number, number, RoundingMode, number, number]>([
+        [310000, 9.91, 'fiftySen', 15360, 15361],
+        [310000, 9.91, 'ceil', 15361, 15360],
+        [310000, 9.91, 'floor', 15360, 15361],
+        [104000, 9.98, 'fiftySen', 5190, 5189],
+        [98000, 9.98, 'fiftySen', 4890, 4890]
+    ])("健保 %i円 × %f%% (%s) は本人 %i円・事業主 %i円", (std, rate, rounding, employee, employer) => {
+        const r = calculatePremiums(std, 0, ALL, false, { rates: { health: rate, nursing: 0, pension: 0, childcare: 0 }, rounding });
+        expect(r.employee.health).toBe(employee);
+        expect(r.employer.health).toBe(employer);
+    });
+
+    it("介護保険料は健保と合算した料率で端数処理した差額になる", () => {
+        const r = calculatePremiums(300000, 0, { ...ALL, nursing: true }, true, { rates: { health: 9.98, nursing: 1.6, pension: 0, childcare: 0 }, rounding: 'fiftySen' });
+        expect(r.employee).toMatchObject({ health: 14970, nursing: 2400 });
+        expect(r.employer).toMatchObject({ health: 14970, nursing: 2400 });
+    });
+
+    it("子ども・子育て拠出金は事業主だけが負担する", () => {
+        const r = calculatePremiums(300000, 300000, ALL, false, { rates: { health: 0, nursing: 0, pension: 18.3, childcare: 0.36 }, rounding: 'fiftySen' });
+        expect(r.employee).toMatchObject({ pension: 27450, childcare: 0 });
+        expect(r.employer).toMatchObject({ pension: 27450, childcare: 1080 });
+    });
+
+    it("資格の無い保険は料率 0 として扱う", () => {
+        const r = calculatePremiums(300000, 300000, { health: true, pension: false, nursing: false }, false, { rates: { health: 9.98, nursing: 0, pension: 18.3, childcare: 0.36 }, rounding: 'fiftySen' });
+        expect(r.employee.pension).toBe(0);
+        expect(r.employer.childcare).toBe(0);
+    });
+});
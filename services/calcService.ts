@@ -0,0 +1,234 @@
+import { UniversalData } from "../types";
+import { getFormattedDates, getRowDate, normalize, parseStandardAmount } from "../utils";
+import { BonusCapEntry } from "./bonusCapService";
+import { EligibilityBoundary, EligibilityStatus, evaluateEligibility } from "./eligibilityService";
+import { Grade, gradeForAmount, gradeForSalary } from "./gradeService";
+import { InsuranceRates, toYearMonth } from "./rateService";
+
+// --- Premium Calculation ---
+// 画面表示とCSV出力の双方から呼ばれる純粋な計算モジュール。
+// 料率は 0.001% 単位の整数に直し、保険料は「標準額 × 料率」を整数の分数のまま端数処理して浮動小数点誤差を避ける。
+
+export type RoundingMode = 'fiftySen' | 'floor' | 'ceil';
+
+export const ROUNDING_LABELS: Record<RoundingMode, string> = {
+    fiftySen: "50銭以下切捨て・50銭超切上げ",
+    floor: "切捨て",
+    ceil: "切上げ"
+};
+
+export interface PremiumBreakdown {
+    health: number;
+    nursing: number;
+    pension: number;
+    childcare: number;
+    total: number;
+}
+
+export interface DeductionRow {
+    row: Record<string, any>;
+    insuredNo: string;
+    name: string;
+    birthDateAD: string;
+    referenceDateAD: string;
+    age: number;
+    eligibility: EligibilityStatus;
+    boundaries: EligibilityBoundary[];
+    isNursingAge: boolean;
+    nursingApplied: boolean;
+    stdHealth: number;
+    stdPension: number;
+    bonusCap?: BonusCapEntry;
+    // 標準報酬月額の等級（賞与の行と、等級表に無い額では undefined）
+    healthGrade?: Grade;
+    pensionGrade?: Grade;
+    employee: PremiumBreakdown;
+    employer: PremiumBreakdown;
+}
+
+export interface DeductionTotals {
+    stdHealth: number;
+    stdPension: number;
+    stdNursing: number;
+    employee: PremiumBreakdown;
+    employer: PremiumBreakdown;
+    notice: PremiumBreakdown;
+}
+
+export interface DeductionResult {
+    rows: DeductionRow[];
+    totals: DeductionTotals;
+}
+
+export interface CalcOptions {
+    rates: InsuranceRates;
+    rounding: RoundingMode;
+    autoNursing: boolean;
+    bonusCaps?: Map<Record<string, any>, BonusCapEntry>;
+}
+
+const RATE_SCALE = 1000;
+const PERCENT_DENOM = 100 * RATE_SCALE;
+
+const toRateUnits = (ratePercent: number): number => Math.round((ratePercent || 0) * RATE_SCALE);
+
+// numerator / denominator を指定の方式で円未満端数処理する
+export const roundFraction = (numerator: number, denominator: number, mode: RoundingMode): number => {
+    const q = Math.floor(numerator / denominator);
+    const rem = numerator - q * denominator;
+    if (rem === 0) return q;
+    if (mode === 'floor') return q;
+    if (mode === 'ceil') return q + 1;
+    return rem * 2 > denominator ? q + 1 : q;
+};
+
+const fullPremium = (amount: number, rateUnits: number): number =>
+    roundFraction(amount * rateUnits, PERCENT_DENOM, 'floor');
+
+const halfPremium = (amount: number, rateUnits: number, mode: RoundingMode): number =>
+    roundFraction(amount * rateUnits, PERCENT_DENOM * 2, mode);
+
+const emptyBreakdown = (): PremiumBreakdown => ({ health: 0, nursing: 0, pension: 0, childcare: 0, total: 0 });
+
+const withTotal = (b: Omit<PremiumBreakdown, 'total'>): PremiumBreakdown => ({
+    ...b,
+    total: b.health + b.nursing + b.pension + b.childcare
+});
+
+export const REFERENCE_DATE_PREFIXES = {
+    notice: ["適用年月", "適用年月日", "改定年月"],
+    bonus: ["賞与支払年月日", "賞与支払年月"]
+};
+
+// 資格判定の基準日（適用年月または賞与支払年月日）
+export const getReferenceDate = (row: Record<string, any>, isBonus: boolean): string =>
+    getRowDate(row, isBonus ? REFERENCE_DATE_PREFIXES.bonus : REFERENCE_DATE_PREFIXES.notice).ad;
+
+export const getStandardAmounts = (row: Record<string, any>, isBonus: boolean) => ({
+    health: parseStandardAmount(row[isBonus ? "決定後の標準賞与額_健保" : "決定後の標準報酬月額_健保"]) * 1000,
+    pension: parseStandardAmount(row[isBonus ? "決定後の標準賞与額_厚年" : "決定後の標準報酬月額_厚年"]) * 1000
+});
+
+// 1人分の標準額（円）から被保険者負担・事業主負担を求める。資格の無い保険の料率は 0 とする
+export const calculatePremiums = (stdHealth: number, stdPension: number, eligibility: EligibilityStatus, nursingApplied: boolean, opts: Pick<CalcOptions, 'rates' | 'rounding'>): { employee: PremiumBreakdown, employer: PremiumBreakdown } => {
+    const rH = eligibility.health ? toRateUnits(opts.rates.health) : 0;
+    const rN = nursingApplied && eligibility.health ? toRateUnits(opts.rates.nursing) : 0;
+    const rP = eligibility.pension ? toRateUnits(opts.rates.pension) : 0;
+    const rC = eligibility.pension ? toRateUnits(opts.rates.childcare) : 0;
+
+    // 介護保険料は健康保険料と合算した料率で本人分を端数処理し、その差額を介護分とする
+    const empHealth = halfPremium(stdHealth, rH, opts.rounding);
+    const empHealthWithNursing = rN ? halfPremium(stdHealth, rH + rN, opts.rounding) : empHealth;
+    const empPension = halfPremium(stdPension, rP, opts.rounding);
+
+    const fullHealth = fullPremium(stdHealth, rH);
+    const fullHealthWithNursing = rN ? fullPremium(stdHealth, rH + rN) : fullHealth;
+    const fullPension = fullPremium(stdPension, rP);
+
+    const employee = withTotal({
+        health: empHealth,
+        nursing: empHealthWithNursing - empHealth,
+        pension: empPension,
+        childcare: 0
+    });
+    const employer = withTotal({
+        health: fullHealth - empHealth,
+        nursing: (fullHealthWithNursing - fullHealth) - employee.nursing,
+        pension: fullPension - empPension,
+        childcare: fullPremium(stdPension, rC)
+    });
+
+    return { employee, employer };
+};
+
+export const calculateRow = (row: Record<string, any>, isBonus: boolean, opts: CalcOptions): DeductionRow => {
+    const birth = getFormattedDates(row["生年月日_元号"], row["生年月日_年"], row["生年月日_月"], row["生年月日_日"]);
+    const referenceDateAD = getReferenceDate(row, isBonus);
+    // 定時決定・随時改定の標準報酬月額は最長12か月適用されるため、その期間内の資格変動を拾う
+    const elig = evaluateEligibility(birth.ad, referenceDateAD, isBonus ? 1 : 12);
+    const eligibility: EligibilityStatus = elig ? elig.status : { health: true, pension: true, nursing: false };
+    const isNursingAge = eligibility.nursing;
+    const nursingApplied = opts.autoNursing ? isNursingAge : false;
+    const bonusCap = isBonus ? opts.bonusCaps?.get(row) : undefined;
+    const { health: stdHealth, pension: stdPension } = bonusCap
+        ? { health: bonusCap.cappedHealth, pension: bonusCap.cappedPension }
+        : getStandardAmounts(row, isBonus);
+
+    const { employee, employer } = calculatePremiums(stdHealth, stdPension, eligibility, nursingApplied, opts);
+    const yearMonth = toYearMonth(referenceDateAD);
+
+    return {
+        row,
+        insuredNo: normalize(row["被保険者整理番号"]),
+        name: normalize(row["被保険者氏名"]),
+        birthDateAD: birth.ad,
+        referenceDateAD,
+        age: elig ? elig.age : 0,
+        eligibility,
+        boundaries: elig ? elig.boundaries : [],
+        isNursingAge,
+        nursingApplied,
+        stdHealth,
+        stdPension,
+        bonusCap,
+        healthGrade: isBonus ? undefined : gradeForAmount('health', stdHealth, yearMonth),
+        pensionGrade: isBonus ? undefined : gradeForAmount('pension', stdPension, yearMonth),
+        employee,
+        employer
+    };
+};
+
+export interface SalarySimulation {
+    salary: number;
+    age: number;
+    healthGrade: Grade;
+    pensionGrade: Grade;
+    eligibility: EligibilityStatus;
+    nursingApplied: boolean;
+    employee: PremiumBreakdown;
+    employer: PremiumBreakdown;
+}
+
+// 報酬月額（円）と年齢から、等級表で標準報酬月額を決めて保険料を試算する。年齢は月末時点のものとして資格を判定する
+export const simulateSalary = (salary: number, age: number, yearMonth: string, opts: Pick<CalcOptions, 'rates' | 'rounding' | 'autoNursing'>): SalarySimulation => {
+    const healthGrade = gradeForSalary('health', salary, yearMonth);
+    const pensionGrade = gradeForSalary('pension', salary, yearMonth);
+    const eligibility: EligibilityStatus = { health: age < 75, pension: age < 70, nursing: age >= 40 && age < 65 };
+    const nursingApplied = opts.autoNursing ? eligibility.nursing : false;
+    const premiums = calculatePremiums(healthGrade.amount, pensionGrade.amount, eligibility, nursingApplied, opts);
+    return { salary, age, healthGrade, pensionGrade, eligibility, nursingApplied, ...premiums };
+};
+
+// 納入告知額は事業所全体の標準額合計に料率を乗じて円未満を切り捨てた額。
+// 事業主負担の合計は告知額から被保険者負担分の合計を差し引いたものとなる。
+export const calculateDeductions = (data: UniversalData, opts: CalcOptions): DeductionResult => {
+    const isBonus = data.docType === 'BONUS_NOTICE';
+    const rows = data.rows.map(r => calculateRow(r, isBonus, opts));
+
+    const stdHealth = rows.reduce((s, r) => s + (r.eligibility.health ? r.stdHealth : 0), 0);
+    const stdPension = rows.reduce((s, r) => s + (r.eligibility.pension ? r.stdPension : 0), 0);
+    const stdNursing = rows.reduce((s, r) => s + (r.nursingApplied && r.eligibility.health ? r.stdHealth : 0), 0);
+
+    const employee = rows.reduce((acc, r) => withTotal({
+        health: acc.health + r.employee.health,
+        nursing: acc.nursing + r.employee.nursing,
+        pension: acc.pension + r.employee.pension,
+        childcare: 0
+    }), emptyBreakdown());
+
+    const notice = withTotal({
+        health: fullPremium(stdHealth, toRateUnits(opts.rates.health)),
+        nursing: fullPremium(stdNursing, toRateUnits(opts.rates.nursing)),
+        pension: fullPremium(stdPension, toRateUnits(opts.rates.pension)),
+        childcare: fullPremium(stdPension, toRateUnits(opts.rates.childcare))
+    });
+
+    const employer = withTotal({
+        health: notice.health - employee.health,
+        nursing: notice.nursing - employee.nursing,
+        pension: notice.pension - employee.pension,
+        childcare: notice.childcare
+    });
+
+    return { rows, totals: { stdHealth, stdPension, stdNursing, employee, employer, notice } };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { COMMON_FIELDS, parseCSVSubmission } from "./csvSubmissionService";
+import { csvSubmissionTable } from "./exportService";
+
+const submission = (...records: string[]) => ["22223,001,20240710,22225", "[kanri]", "13,ｱｲ,ｱｲｳ,12345", "[data]", ...records].join("\r\n");
+
+// 算定基礎届の1レコード（4〜6月の報酬月額と総計・平均額まで）
+const santei = [
+    "2225700", "13", "ｱｲ", "ｱｲｳ", "1", "山田　太郎", "7", "010101", "5", "0609", "300", "300", "0509", "", "",
+    "", "", "4", "31", "300000", "0", "300000", "5", "30", "310000", "0", "310000", "6", "31", "320000", "0", "320000",
+    "930000", "310000", "", "1234567890"
+].join(",");
+
+describe("parseCSVSubmission", () => {
+    it("算定基礎届の報酬月額欄をレイアウトの項目名で読む", () => {
+        const form = parseCSVSubmission(submission(santei))!.forms[0];
+        const at = (label: string) => form.records[0][form.columns.indexOf(label)];
+        expect(form.code).toBe("2225700");
+        expect(at("報酬月額・合計（1か月目）")).toBe("300000");
+        expect(at("給与計算の基礎日数（2か月目）")).toBe("30");
+        expect(at("報酬月額・合計（3か月目）")).toBe("320000");
+        expect(at("総計")).toBe("930000");
+        expect(at("平均額")).toBe("310000");
+        expect(at("個人番号・基礎年金番号")).toBe("1234567890");
+        expect(form.columns.some(c => c.startsWith("項目"))).toBe(false);
+    });
+
+    it("共通項目より後ろを「項目名=値」で出力する", () => {
+        const table = csvSubmissionTable(parseCSVSubmission(submission(santei))!);
+        const content = String(table.rows[0][4]);
+        expect(content).toContain("平均額=310000");
+        expect(content).not.toContain(`${COMMON_FIELDS[4]}=`);
+    });
+});
@@ -0,0 +1,223 @@
+import { AppFile, CsvFormGroup, CsvSubmissionData, SummaryData } from "../types";
+import { normalize } from "../utils";
+import { DocTypeDefinition } from "./docTypeService";
+import { csvSubmissionTable } from "./exportService";
+
+// --- CSV Submission Files ---
+// 日本年金機構の電子申請用 CSV 形式届書（SHFD0006.CSV など）の読み込みと、総括票の届書件数との突き合わせ。
+// ファイルは先頭のヘッダレコード、[kanri] 部の事業所情報、[data] 部の届書レコードからなり、
+// 届書レコードは先頭の様式コードで種類を見分ける。
+
+interface FormLayout {
+    code: string;
+    label: string;
+    // 総括票の counts のキー
+    countKey: string;
+    fields: string[];
+}
+
+const HEADER_FIELDS = ["提出元ID", "通番", "作成年月日", "代表届書コード"];
+
+const OFFICE_FIELDS = [
+    "都道府県コード", "郡市区記号", "事業所記号", "事業所番号", "郵便番号（親番号）", "郵便番号（子番号）",
+    "事業所所在地", "事業所名称", "事業主氏名", "電話番号"
+];
+
+// 届書レコードに共通の先頭項目
+export const COMMON_FIELDS = ["様式コード", "都道府県コード", "郡市区記号", "事業所記号", "被保険者整理番号"];
+
+// 月額変更届・算定基礎届の報酬月額欄。支給月ごとに基礎日数と通貨・現物・合計の額を3か月分並べ、総計・平均額・修正平均額が続く
+const REMUNERATION_FIELDS = [
+    "遡及支払月", "遡及支払額",
+    ...["1か月目", "2か月目", "3か月目"].flatMap(m => [
+        `給与支給月（${m}）`, `給与計算の基礎日数（${m}）`, `報酬月額・通貨（${m}）`, `報酬月額・現物（${m}）`, `報酬月額・合計（${m}）`
+    ]),
+    "総計", "平均額", "修正平均額", "個人番号・基礎年金番号"
+];
+
+const FORM_LAYOUTS: FormLayout[] = [
+    {
+        code: "2200700", countKey: "資格取得", label: "資格取得届／70歳以上被用者該当届",
+        fields: [...COMMON_FIELDS, "被保険者氏名（カナ）", "被保険者氏名（漢字）", "生年月日（元号）", "生年月日", "種別", "取得区分", "個人番号・基礎年金番号", "資格取得年月日（元号）", "資格取得年月日", "被扶養者", "報酬月額（通貨）", "報酬月額（現物）", "報酬月額（合計）"]
+    },
+    {
+        code: "2201700", countKey: "資格喪失", label: "資格喪失届／70歳以上被用者不該当届",
+        fields: [...COMMON_FIELDS, "被保険者氏名（カナ）", "被保険者氏名（漢字）", "生年月日（元号）", "生年月日", "個人番号・基礎年金番号", "喪失年月日（元号）", "喪失年月日", "喪失原因"]
+    },
+    {
+        code: "2202700", countKey: "被扶養者", label: "被扶養者異動届／国民年金第３号被保険者関係届",
+        fields: [...COMMON_FIELDS, "被保険者氏名（カナ）", "被保険者氏名（漢字）", "生年月日（元号）", "生年月日", "個人番号・基礎年金番号", "被扶養者氏名（カナ）", "被扶養者氏名（漢字）", "異動区分"]
+    },
+    {
+        code: "2203700", countKey: "国年3号", label: "国民年金第３号被保険者関係届",
+        fields: [...COMMON_FIELDS, "配偶者氏名（カナ）", "配偶者氏名（漢字）", "生年月日（元号）", "生年月日", "個人番号・基礎年金番号", "届出区分"]
+    },
+    {
+        code: "2221700", countKey: "月額変更", label: "月額変更届／70歳以上被用者月額変更届",
+        fields: [
+            ...COMMON_FIELDS, "被保険者氏名（漢字）", "生年月日（元号）", "生年月日", "改定年月（元号）", "改定年月", "従前の標準報酬月額（健保）", "従前の標準報酬月額（厚年）", "従前の改定月", "昇（降）給月", "昇（降）給区分",
+            ...REMUNERATION_FIELDS,
+            "備考（70歳以上被用者月額変更）", "備考（二以上勤務）", "備考（短時間労働者）", "備考（昇給・降給の理由）", "備考（健康保険のみ月額変更）", "備考（その他）"
+        ]
+    },
+    {
+        code: "2225700", countKey: "算定基礎", label: "算定基礎届／70歳以上被用者算定基礎届",
+        fields: [
+            ...COMMON_FIELDS, "被保険者氏名（漢字）", "生年月日（元号）", "生年月日", "適用年月（元号）", "適用年月", "従前の標準報酬月額（健保）", "従前の標準報酬月額（厚年）", "従前の改定月", "昇（降）給月", "昇（降）給区分",
+            ...REMUNERATION_FIELDS,
+            "備考（70歳以上被用者算定）", "備考（二以上勤務）", "備考（月額変更予定）", "備考（途中入社）", "備考（病休・育休・休職等）", "備考（短時間労働者）", "備考（パート）", "備考（年間平均）", "備考（その他）"
+        ]
+    },
+    {
+        code: "2265700", countKey: "賞与支払", label: "賞与支払届／70歳以上被用者賞与支払届",
+        fields: [...COMMON_FIELDS, "被保険者氏名（漢字）", "生年月日（元号）", "生年月日", "賞与支払年月日（元号）", "賞与支払年月日", "賞与額（通貨）", "賞与額（現物）", "賞与額（合計）"]
+    },
+    {
+        code: "2227700", countKey: "育児休業", label: "育児休業等取得者申出書（新規・延長）／終了届",
+        fields: [...COMMON_FIELDS, "被保険者氏名（漢字）", "生年月日（元号）", "生年月日", "個人番号・基礎年金番号", "育児休業等開始年月日", "育児休業等終了（予定）年月日"]
+    },
+    {
+        code: "2229700", countKey: "産前産後", label: "産前産後休業取得者申出書／変更（終了）届",
+        fields: [...COMMON_FIELDS, "被保険者氏名（漢字）", "生年月日（元号）", "生年月日", "個人番号・基礎年金番号", "出産予定年月日", "産前産後休業開始年月日", "産前産後休業終了予定年月日"]
+    }
+];
+
+// 総括票の届書合計（⑬）に含まれる健康保険・厚生年金保険の届書
+export const HEALTH_PENSION_COUNT_KEYS = ["資格取得", "被扶養者", "資格喪失", "月額変更", "算定基礎", "賞与支払", "育児休業", "産前産後"];
+
+const layoutOf = (code: string) => FORM_LAYOUTS.find(l => l.code === code);
+
+export const isCSVSubmissionText = (content: string) => /^\s*\[data\]\s*$/im.test(content);
+
+// ダブルクォートで囲んだ項目（カンマ・改行・"" を含むもの）に対応して1行ずつ分ける
+export const parseCSVRows = (content: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        const ch = content[i];
+        if (quoted) {
+            if (ch === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else cell += ch;
+        } else if (ch === '"') quoted = true;
+        else if (ch === ',') { row.push(cell); cell = ""; }
+        else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else cell += ch;
+    }
+    if (cell !== "" || row.length > 0) { row.push(cell); rows.push(row); }
+    return rows.filter(r => r.some(c => c.trim() !== ""));
+};
+
+const labelled = (labels: string[], values: string[]) =>
+    values.map((v, i) => ({ label: labels[i] || `項目${i + 1}`, value: v.trim() }));
+
+// レイアウトより項目の多いレコードは、余った項目を「項目N」として並べる
+const columnsFor = (fields: string[], records: string[][]) => {
+    const width = Math.max(fields.length, ...records.map(r => r.length));
+    return Array.from({ length: width }, (_, i) => fields[i] || `項目${i + 1}`);
+};
+
+// CSV 形式届書でなければ null
+export const parseCSVSubmission = (content: string): CsvSubmissionData | null => {
+    if (!isCSVSubmissionText(content)) return null;
+    const header: string[][] = [];
+    const office: string[][] = [];
+    const records: string[][] = [];
+    let section: 'header' | 'kanri' | 'data' = 'header';
+    for (const row of parseCSVRows(content.replace(/^\uFEFF/, ''))) {
+        const marker = row[0].trim().toLowerCase();
+        if (row.length === 1 && (marker === '[kanri]' || marker === '[data]')) { section = marker === '[kanri]' ? 'kanri' : 'data'; continue; }
+        (section === 'header' ? header : section === 'kanri' ? office : records).push(row);
+    }
+
+    const groups = new Map<string, string[][]>();
+    records.forEach(r => {
+        const code = normalize(r[0]).trim();
+        if (!groups.has(code)) groups.set(code, []);
+        groups.get(code)!.push(r.map(v => v.trim()));
+    });
+    // 既知の様式はレイアウトの並び順、未知の様式コードはその後に出てきた順で並べる
+    const forms: CsvFormGroup[] = [
+        ...FORM_LAYOUTS.filter(l => groups.has(l.code)).map(l => ({
+            code: l.code, label: l.label, countKey: l.countKey,
+            columns: columnsFor(l.fields, groups.get(l.code)!), records: groups.get(l.code)!
+        })),
+        ...Array.from(groups.entries()).filter(([code]) => !layoutOf(code)).map(([code, rs]) => ({
+            code, label: `未対応の様式（${code || "様式コードなし"}）`,
+            columns: columnsFor(COMMON_FIELDS, rs), records: rs
+        }))
+    ];
+
+    return {
+        docType: 'CSV_SUBMISSION',
+        title: "CSV形式届書",
+        header: header.flatMap(r => labelled(HEADER_FIELDS, r)),
+        office: office.flatMap(r => labelled(OFFICE_FIELDS, r)),
+        forms,
+        recordCount: records.length,
+        rows: []
+    };
+};
+
+export interface CountCheck {
+    key: string;
+    label: string;
+    // 総括票に記入された件数（空欄は 0 件とみなす。数字でなければ null）
+    declared: number | null;
+    actual: number;
+    ok: boolean;
+}
+
+const COUNT_LABELS: Record<string, string> = {
+    ...Object.fromEntries(FORM_LAYOUTS.map(l => [l.countKey, l.label])),
+    "合計": "届書合計",
+    "国年合計": "届書合計（国民年金）"
+};
+
+// 総括票の件数欄の値。空欄は 0 件、数字でなければ null
+export const parseCount = (v: string | undefined) => {
+    const s = normalize(v || "").replace(/[,\s件]/g, "");
+    if (s === "") return 0;
+    return /^\d+$/.test(s) ? parseInt(s, 10) : null;
+};
+
+// 総括票の届書件数と、CSV 形式届書に実際にあるレコード数を届書ごとに比べる
+export const crossCheckCounts = (counts: Record<string, string>, submissions: CsvSubmissionData[]): CountCheck[] => {
+    const actual: Record<string, number> = {};
+    submissions.forEach(s => s.forms.forEach(f => {
+        if (f.countKey) actual[f.countKey] = (actual[f.countKey] || 0) + f.records.length;
+    }));
+    actual["合計"] = HEALTH_PENSION_COUNT_KEYS.reduce((sum, k) => sum + (actual[k] || 0), 0);
+    actual["国年合計"] = actual["国年3号"] || 0;
+    return [...HEALTH_PENSION_COUNT_KEYS, "合計", "国年3号", "国年合計"].map(key => {
+        const declared = parseCount(counts[key]);
+        return { key, label: COUNT_LABELS[key], declared, actual: actual[key] || 0, ok: declared === (actual[key] || 0) };
+    });
+};
+
+// 案件内に総括票と CSV 形式届書が揃っている場合だけ突き合わせる
+export const caseCountChecks = (files: AppFile[]): CountCheck[] | null => {
+    const summary = files.map(f => f.analysis).find((a): a is SummaryData => a?.docType === 'SUMMARY');
+    const submissions = files.map(f => f.analysis).filter((a): a is CsvSubmissionData => a?.docType === 'CSV_SUBMISSION');
+    if (!summary || submissions.length === 0) return null;
+    return crossCheckCounts(summary.counts, submissions);
+};
+
+// XML から判別する書類ではないため match・extract は持たない
+export const CSV_SUBMISSION_DOC_TYPE: DocTypeDefinition<'CSV_SUBMISSION'> = {
+    id: 'CSV_SUBMISSION',
+    label: "CSV形式届書",
+    priority: 0,
+    // exportService も COMMON_FIELDS を読むため、読み込み順によらないよう呼び出し時に参照する
+    exportTable: (data, name) => csvSubmissionTable(data, name),
+    supportsCalculator: false,
+    personRows: false,
+    payrollTemplates: false
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { RowDiffStatus, diffNoticeRows } from "./diffService";
+
+const row = (insuredNo: string, health: number, pension: number) => ({
+    "被保険者整理番号": insuredNo,
+    "被保険者氏名": `被保険者${insuredNo}`,
+    "決定後の標準報酬月額_健保": String(health),
+    "決定後の標準報酬月額_厚年": String(pension)
+});
+
+const notice = (rows: Record<string, any>[]) => ({ docType: 'NOTICE' as const, title: "", rows });
+
+describe("diffNoticeRows", () => {
+    it.each<[string, [number, number], [number, number], RowDiffStatus]>([
+        ["健保・厚年とも増額", [300, 300], [320, 320], 'up'],
+        ["健保・厚年とも減額", [320, 320], [300, 300], 'down'],
+        ["厚年だけ減額", [300, 300], [300, 280], 'down'],
+        ["健保だけ増額", [650, 650], [680, 650], 'up'],
+        ["健保は増額・厚年は減額", [300, 300], [320, 280], 'mixed'],
+        ["健保は減額・厚年は増額", [320, 280], [300, 300], 'mixed'],
+        ["変更なし", [300, 300], [300, 300], 'unchanged']
+    ])("%s", (_, before, after, status) => {
+        const [d] = diffNoticeRows(notice([row("1", ...before)]), notice([row("1", ...after)]));
+        expect(d.status).toBe(status);
+        expect(d.matchedBy).toBe('number');
+    });
+
+    it("片方にしか無い行は追加・削除になる", () => {
+        const diffs = diffNoticeRows(notice([row("1", 300, 300)]), notice([row("2", 300, 300)]));
+        expect(diffs.map(d => d.status)).toEqual(['removed', 'added']);
+    });
+});
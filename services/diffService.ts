@@ -0,0 +1,126 @@
+import { UniversalData, XMLNode } from "../types";
+import { flattenXML, normalize } from "../utils";
+import { getStandardAmounts } from "./calcService";
+import { normalizeForSearch } from "./searchService";
+
+// --- Document Diff ---
+// 2つの通知書の被保険者行を整理番号（無ければ正規化した氏名）で突き合わせ、標準報酬の増減を分類する。
+// 通知書以外も含めた任意の2文書は flattenXML のパス単位で比較する。
+
+export type RowDiffStatus = 'added' | 'removed' | 'up' | 'down' | 'mixed' | 'unchanged';
+export type FieldDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface RowDiff {
+    status: RowDiffStatus;
+    matchedBy?: 'number' | 'name';
+    insuredNo: string;
+    name: string;
+    before?: { health: number; pension: number };
+    after?: { health: number; pension: number };
+    deltaHealth: number;
+    deltaPension: number;
+}
+
+export interface FieldDiff {
+    status: FieldDiffStatus;
+    path: string;
+    before?: string;
+    after?: string;
+}
+
+export const ROW_DIFF_LABELS: Record<RowDiffStatus, string> = {
+    added: "追加",
+    removed: "削除",
+    up: "増額",
+    down: "減額",
+    mixed: "増減混在",
+    unchanged: "変更なし"
+};
+
+export const FIELD_DIFF_LABELS: Record<FieldDiffStatus, string> = {
+    added: "追加",
+    removed: "削除",
+    changed: "変更",
+    unchanged: "一致"
+};
+
+const rowName = (r: Record<string, any>) => normalize(r["被保険者氏名"]);
+
+// 健保と厚年で増減の向きが逆の行は mixed とする
+const classify = (deltaHealth: number, deltaPension: number): RowDiffStatus => {
+    const signs = new Set([Math.sign(deltaHealth), Math.sign(deltaPension)].filter(s => s !== 0));
+    if (signs.size === 0) return 'unchanged';
+    if (signs.size > 1) return 'mixed';
+    return signs.has(1) ? 'up' : 'down';
+};
+
+export const diffNoticeRows = (before: UniversalData, after: UniversalData): RowDiff[] => {
+    const amounts = (data: UniversalData, r: Record<string, any>) => getStandardAmounts(r, data.docType === 'BONUS_NOTICE');
+    const remaining = after.rows.map((r, i) => ({ r, i }));
+    const pairs: { b?: Record<string, any>, a?: Record<string, any>, by?: 'number' | 'name' }[] = [];
+    const unmatched: Record<string, any>[] = [];
+
+    before.rows.forEach(b => {
+        const no = normalize(b["被保険者整理番号"]);
+        const hit = no ? remaining.findIndex(x => normalize(x.r["被保険者整理番号"]) === no) : -1;
+        if (hit >= 0) pairs.push({ b, a: remaining.splice(hit, 1)[0].r, by: 'number' });
+        else unmatched.push(b);
+    });
+    // 整理番号で対応が付かなかった行は、全角半角・空白の差を吸収した氏名で照合する
+    unmatched.forEach(b => {
+        const key = normalizeForSearch(rowName(b));
+        const hit = key ? remaining.findIndex(x => normalizeForSearch(rowName(x.r)) === key) : -1;
+        if (hit >= 0) pairs.push({ b, a: remaining.splice(hit, 1)[0].r, by: 'name' });
+        else pairs.push({ b });
+    });
+    remaining.sort((x, y) => x.i - y.i).forEach(x => pairs.push({ a: x.r }));
+
+    return pairs.map(({ b, a, by }) => {
+        const bAmt = b ? amounts(before, b) : undefined;
+        const aAmt = a ? amounts(after, a) : undefined;
+        const deltaHealth = (aAmt?.health || 0) - (bAmt?.health || 0);
+        const deltaPension = (aAmt?.pension || 0) - (bAmt?.pension || 0);
+        const src = a || b!;
+        return {
+            status: !b ? 'added' : !a ? 'removed' : classify(deltaHealth, deltaPension),
+            matchedBy: by,
+            insuredNo: normalize(src["被保険者整理番号"]),
+            name: rowName(src),
+            before: bAmt,
+            after: aAmt,
+            deltaHealth,
+            deltaPension
+        };
+    });
+};
+
+export const diffFields = (before: XMLNode, after: XMLNode): FieldDiff[] => {
+    const a = flattenXML(after);
+    const aMap = new Map(a.map(r => [r.path, r.value]));
+    const seen = new Set<string>();
+    const out: FieldDiff[] = flattenXML(before).map(r => {
+        seen.add(r.path);
+        if (!aMap.has(r.path)) return { status: 'removed' as const, path: r.path, before: r.value };
+        const v = aMap.get(r.path)!;
+        return { status: v === r.value ? 'unchanged' as const : 'changed' as const, path: r.path, before: r.value, after: v };
+    });
+    a.forEach(r => { if (!seen.has(r.path)) out.push({ status: 'added', path: r.path, after: r.value }); });
+    return out;
+};
+
+export const rowDiffCSVRows = (diffs: RowDiff[]): (string | number)[][] => [
+    ["区分", "照合方法", "整理番号", "氏名", "変更前_健保", "変更前_厚年", "変更後_健保", "変更後_厚年", "増減_健保", "増減_厚年"],
+    ...diffs.map(d => [
+        ROW_DIFF_LABELS[d.status],
+        d.matchedBy === 'number' ? "整理番号" : d.matchedBy === 'name' ? "氏名" : "",
+        d.insuredNo, d.name,
+        d.before?.health ?? "", d.before?.pension ?? "",
+        d.after?.health ?? "", d.after?.pension ?? "",
+        d.deltaHealth, d.deltaPension
+    ])
+];
+
+export const fieldDiffCSVRows = (diffs: FieldDiff[]): (string | number)[][] => [
+    ["区分", "パス", "変更前", "変更後"],
+    ...diffs.map(d => [FIELD_DIFF_LABELS[d.status], d.path, d.before ?? "", d.after ?? ""])
+];
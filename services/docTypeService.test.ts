@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { DocTypeId, UniversalData, XMLNode } from "../types";
+import { classifyDocument, documentTable } from "./docTypeService";
+import { parseXMLContent } from "./xmlParser";
+
+// 被保険者要素を持つ書類を通知書・賞与の通知書に振り分けていた当初の判別
+const baselineDocType = (root: XMLNode) => {
+    const rows: Record<string, any>[] = [];
+    const walk = (n: XMLNode) => {
+        if (n.name === "_被保険者") rows.push(Object.fromEntries(n.children.map(c => [c.name, c.content])));
+        n.children.forEach(walk);
+    };
+    walk(root);
+    if (rows.length === 0) return null;
+    return JSON.stringify(rows).includes("賞与") ? 'BONUS_NOTICE' : 'NOTICE';
+};
+
+const el = (name: string, fields: Record<string, string>) =>
+    `<${name}>${Object.entries(fields).map(([k, v]) => `<${k}>${v}</${k}>`).join('')}</${name}>`;
+
+const doc = (title: string, rows: Record<string, string>[]) =>
+    `<?xml version="1.0" encoding="UTF-8"?><通知書>${title ? `<通知書名>${title}</通知書名>` : ''}${rows.map(r => el("_被保険者", r)).join('')}</通知書>`;
+
+const person = (no: string, extra: Record<string, string> = {}) => ({
+    "被保険者整理番号": no,
+    "被保険者氏名": `被保険者${no}`,
+    "適用年月_元号": "9", "適用年月_年": "6", "適用年月_月": "9",
+    "決定後の標準報酬月額_健保": "300", "決定後の標準報酬月額_厚年": "300",
+    ...extra
+});
+
+const acquired = { "資格取得年月日_元号": "9", "資格取得年月日_年": "6", "資格取得年月日_月": "4", "資格取得年月日_日": "1" };
+const lost = { "資格喪失年月日_元号": "9", "資格喪失年月日_年": "6", "資格喪失年月日_月": "8", "資格喪失年月日_日": "1" };
+const bonus = {
+    "賞与支払年月日_元号": "9", "賞与支払年月日_年": "6", "賞与支払年月日_月": "7", "賞与支払年月日_日": "10",
+    "決定後の標準賞与額_健保": "500", "決定後の標準賞与額_厚年": "500"
+};
+
+describe("classifyDocument", () => {
+    // 当初 NOTICE / BONUS_NOTICE と判別していた書類は、資格取得・喪失や被扶養者の項目を持つ人が混じっていても同じ種類のまま
+    it.each([
+        ["算定基礎の通知書", doc("健康保険・厚生年金保険被保険者標準報酬決定通知書", [person("1"), person("2")])],
+        ["帳票名の無い通知書", doc("", [person("1"), person("2")])],
+        ["資格取得年月日を持つ人が1人いる通知書", doc("", [person("1"), person("2", acquired)])],
+        ["資格喪失年月日を持つ人が1人いる通知書", doc("", [person("1"), person("2", lost)])],
+        ["喪失原因を持つ人が1人いる月額変更の通知書", doc("", [person("1", { "喪失原因": "4" }), person("2")])],
+        ["被扶養者の項目を持つ人が1人いる通知書", doc("", [person("1", { "被扶養者氏名": "被扶養者1" }), person("2")])],
+        ["帳票名のある通知書で全員に資格取得年月日がある", doc("健康保険・厚生年金保険被保険者標準報酬決定通知書", [person("1", acquired)])],
+        ["賞与の通知書", doc("健康保険・厚生年金保険標準賞与額決定通知書", [person("1", bonus)])],
+        ["帳票名の無い賞与の通知書で資格喪失年月日を持つ人が1人いる", doc("", [person("1", bonus), person("2", { ...bonus, ...lost })])]
+    ])("%s", (_, xml) => {
+        const root = parseXMLContent(xml);
+        const expected = baselineDocType(root);
+        expect(expected).not.toBeNull();
+        expect(classifyDocument(root)?.docType).toBe(expected);
+    });
+
+    it.each([
+        ["帳票名が資格取得", doc("健康保険・厚生年金保険被保険者資格取得確認および標準報酬決定通知書", [person("1")]), 'ACQUISITION_NOTICE'],
+        ["帳票名が資格喪失", doc("健康保険・厚生年金保険被保険者資格喪失確認通知書", [person("1", lost)]), 'LOSS_NOTICE'],
+        ["帳票名が被扶養者", doc("健康保険被扶養者（異動）決定通知書", [person("1", { "被扶養者氏名": "被扶養者1" })]), 'DEPENDENT_NOTICE'],
+        ["帳票名が無く全員に資格取得年月日がある", doc("", [person("1", acquired), person("2", acquired)]), 'ACQUISITION_NOTICE'],
+        ["帳票名が無く全員に資格喪失年月日がある", doc("", [person("1", lost), person("2", lost)]), 'LOSS_NOTICE'],
+        ["帳票名が無く全員に被扶養者の項目がある", doc("", [person("1", { "被扶養者氏名": "被扶養者1" })]), 'DEPENDENT_NOTICE']
+    ])("%s", (_, xml, docType) => {
+        expect(classifyDocument(parseXMLContent(xml))?.docType).toBe(docType);
+    });
+});
+
+describe("documentTable", () => {
+    it("登録されていない種類は行の項目名を列にする", () => {
+        const data = {
+            docType: 'UNKNOWN' as DocTypeId,
+            title: "未登録の書類",
+            rows: [{ "被保険者整理番号": "1", "被保険者氏名": "山田" }, { "被保険者整理番号": "2", "備考": "メモ" }]
+        } as UniversalData;
+        const table = documentTable(data);
+        expect(table.columns.map(c => c.header)).toEqual(["被保険者整理番号", "被保険者氏名", "備考"]);
+        expect(table.rows).toEqual([["1", "山田", ""], ["2", "", "メモ"]]);
+    });
+});
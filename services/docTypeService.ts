@@ -0,0 +1,398 @@
+import { AnnouncementData, DependentEntry, DependentNoticeData, DocDataMap, DocTypeId, NoticeData, QualificationNoticeData, QualificationPerson, SummaryData, UniversalData, XMLNode } from "../types";
+import { getFormattedDates, getRowDate, nodeText, normalize, parseStandardAmount } from "../utils";
+import { CSV_SUBMISSION_DOC_TYPE } from "./csvSubmissionService";
+import { EMPLOYMENT_DOC_TYPES } from "./employmentDocService";
+import { ExportTable, announcementTable, dependentTable, noticeTable, qualificationTable, rowsTable, summaryTable } from "./exportService";
+
+// --- Document Types ---
+// 書類の種類ごとに判別条件・データ抽出・出力する表・控除計算への対応を登録する。
+// 判別は priority の高い順に行い、どれにも当てはまらないファイルは全項目一覧・XML構造解析で表示する。
+// 新しい種類の id とデータ型は types.ts の DocDataMap に追加し、帳票プレビューは components/DocumentSheets.tsx で登録する。
+
+// 判別・抽出の元になる XML の下見結果
+export interface DocScan {
+    root: XMLNode;
+    // 値を持つ要素の名前と値（同名の要素は後に出たもの）
+    fields: Record<string, string>;
+    // _被保険者 要素を1人1行にしたもの
+    insuredRows: Record<string, any>[];
+    // _被扶養者 要素を1人1行にしたもの。被保険者要素の中にある場合は被保険者の整理番号・氏名を引き継ぐ
+    dependentRows: Record<string, any>[];
+    // 帳票名の要素がある書類はその名前（無ければ空）
+    title: string;
+}
+
+export interface DocTypeDefinition<K extends DocTypeId = DocTypeId> {
+    id: K;
+    label: string;
+    priority: number;
+    // XML 以外から読む書類（CSV 形式届書など）は持たない
+    match?: (scan: DocScan) => boolean;
+    extract?: (scan: DocScan) => DocDataMap[K];
+    exportTable: (data: DocDataMap[K], name: string) => ExportTable;
+    supportsCalculator: boolean;
+    // rows が被保険者ごとの行か（検索・行比較の対象になる）
+    personRows: boolean;
+    // 標準報酬の出力テンプレート（給与ソフト取込用など）を選べるか
+    payrollTemplates: boolean;
+}
+
+type AnyDocType = { [K in DocTypeId]: DocTypeDefinition<K> }[DocTypeId];
+
+const registry: AnyDocType[] = [];
+
+// 同じ id の定義は置き換える
+export const registerDocType = <K extends DocTypeId>(def: DocTypeDefinition<K>) => {
+    const idx = registry.findIndex(d => d.id === def.id);
+    if (idx >= 0) registry.splice(idx, 1);
+    registry.push(def as unknown as AnyDocType);
+    registry.sort((a, b) => b.priority - a.priority);
+};
+
+export const getDocType = <K extends DocTypeId>(id: K): DocTypeDefinition<K> | undefined =>
+    registry.find(d => d.id === id) as DocTypeDefinition<K> | undefined;
+
+export const listDocTypes = (): readonly AnyDocType[] => registry;
+
+export const isDocType = <K extends DocTypeId>(data: UniversalData | undefined | null, id: K): data is DocDataMap[K] =>
+    data?.docType === id;
+
+export const supportsCalculator = (data?: UniversalData | null) =>
+    !!data && !!getDocType(data.docType)?.supportsCalculator;
+
+export const hasPersonRows = (data?: UniversalData | null) =>
+    !!data && !!getDocType(data.docType)?.personRows;
+
+export const usesPayrollTemplates = (data?: UniversalData | null) =>
+    !!data && !!getDocType(data.docType)?.payrollTemplates;
+
+const childContent = (n: XMLNode | undefined, name: string) => n?.children.find(c => c.name === name)?.content;
+
+export const scanDocument = (root: XMLNode): DocScan => {
+    const fields: Record<string, string> = {};
+    const insuredRows: Record<string, any>[] = [];
+    const dependentRows: Record<string, any>[] = [];
+    const walk = (n: XMLNode, insured?: Record<string, any>) => {
+        if (n.content !== undefined && n.content !== "") fields[n.name] = n.content;
+        if (n.name === "_被保険者") {
+            const r: Record<string, any> = {};
+            n.children.forEach(c => r[c.name] = c.content);
+            if (!r["被保険者氏名"]) {
+                r["被保険者氏名"] =
+                    r["被保険者漢字氏名"] ||
+                    r["被保険者カナ氏名"] ||
+                    r["被保険者氏名_漢字"] ||
+                    r["氏名"] ||
+                    "";
+            }
+            insuredRows.push(r);
+            insured = r;
+        }
+        if (n.name === "_被扶養者") {
+            const r: Record<string, any> = {};
+            n.children.forEach(c => r[c.name] = c.content);
+            if (insured) {
+                r["被保険者整理番号"] ??= insured["被保険者整理番号"];
+                r["被保険者氏名"] ??= insured["被保険者氏名"];
+            }
+            dependentRows.push(r);
+        }
+        n.children.forEach(c => walk(c, insured));
+    };
+    walk(root);
+    const title = normalize(fields["通知書名"] || fields["帳票名"] || fields["様式名"]);
+    return { root, fields, insuredRows, dependentRows, title };
+};
+
+// 判別できない書類は null
+export const classifyDocument = (root: XMLNode): UniversalData | null => {
+    const scan = scanDocument(root);
+    const def = registry.find(d => d.match?.(scan));
+    return def?.extract ? def.extract(scan) : null;
+};
+
+export const documentTable = (data: UniversalData, name: string = data.title): ExportTable => {
+    const def = getDocType(data.docType) as DocTypeDefinition | undefined;
+    return def ? def.exportTable(data as DocDataMap[DocTypeId], name) : rowsTable(data, name);
+};
+
+// --- Built-in Types ---
+
+const extractAnnouncement = ({ root, fields }: DocScan): AnnouncementData => {
+    const mainText: string[] = [];
+    const appendices: { title: string, text?: string }[] = [];
+    const recipient: AnnouncementData['recipient'] = {};
+    const author: { aff?: string, name?: string } = {};
+    const walk = (n: XMLNode) => {
+        if (n.name === "P") {
+            const text = n.content ?? (n.mixed ? nodeText(n) : undefined);
+            if (text) mainText.push(text);
+        }
+        if (n.name === "APPENDIX") {
+            const title = childContent(n, "APPTITLE");
+            if (title) appendices.push({ title, text: childContent(n, "APPTEXT") });
+        }
+        if (n.name === "TO") {
+            recipient.aff = childContent(n, "AFF");
+            recipient.name = childContent(n, "NAME");
+            recipient.honorific = childContent(n, "HONORIFC");
+        }
+        if (n.name === "AUTHOR") {
+            author.aff = childContent(n, "AFF");
+            author.name = childContent(n, "NAME");
+        }
+        n.children.forEach(walk);
+    };
+    walk(root);
+    return {
+        docType: 'ANNOUNCEMENT',
+        title: fields["TITLE"] || "日本年金機構からのお知らせ",
+        docNo: fields["DOCNO"] || "",
+        creationDateJP: fields["DATE"] || "",
+        recipient,
+        senderAff: author.aff || "",
+        senderName: author.name || "",
+        mainText,
+        appendices,
+        rows: []
+    };
+};
+
+const extractSummary = ({ root, fields }: DocScan): SummaryData => {
+    const targetNode = root.children.find(c => c.name.includes("-001_1")) || root;
+    const dateOf = (name: string) => {
+        const n = targetNode.children.find(c => c.name === name);
+        return getFormattedDates("9", childContent(n, "年"), childContent(n, "月"), childContent(n, "日")).fullJp;
+    };
+    const phoneNode = targetNode.children.find(c => c.name === "電話番号");
+    const attachNode = targetNode.children.find(c => c.name === "添付書類");
+    const attached = (name: string) => childContent(attachNode, name) === "1" || fields[name] === "1";
+    return {
+        docType: 'SUMMARY',
+        title: "CSV形式届書総括票",
+        idInfoPrefix: fields["識別情報x提出元ID"] || "",
+        idInfoSuffix: fields["識別情報x通番"] || "",
+        creationDateJP: dateOf("作成年月日"),
+        officeRegistry: {
+            pref: fields["事業所整理記号x都道府県コード"] || "",
+            dist: fields["事業所整理記号x郡市区記号"] || "",
+            code: fields["事業所整理記号x事業所記号"] || ""
+        },
+        officeNo: fields["事業所番号"] || "",
+        zipCodePrefix: fields["事業所所在地x郵便番号x親番号"] || "",
+        zipCodeSuffix: fields["事業所所在地x郵便番号x子番号"] || "",
+        address: fields["事業所所在地"] || "",
+        companyName: fields["事業所名称"] || "",
+        ownerName: fields["事業主氏名"] || "",
+        phone: {
+            area: childContent(phoneNode, "市外局番") || "",
+            city: childContent(phoneNode, "局番") || "",
+            num: childContent(phoneNode, "番号") || ""
+        },
+        submissionDateJP: dateOf("提出年月日"),
+        attachmentStatus: { mail: attached("郵送"), elec: attached("電子"), none: attached("なし") },
+        paperNoticeDesired: fields["通知書希望形式"] === "1",
+        proxyName: fields["社会保険労務士の提出代行者名"] || "",
+        remarks: fields["備考"] || "",
+        counts: {
+            "資格取得": fields["届書総件数x資格取得届70歳以上被用者該当届"] || "",
+            "被扶養者": fields["届書数x被扶養者異動届国年3号被保険者関係届"] || "",
+            "資格喪失": fields["届書数x資格喪失届70歳以上被用者不該当届"] || "",
+            "月額変更": fields["届書数x月額変更届70歳以上被用者月額変更届"] || "",
+            "算定基礎": fields["届書数x算定基礎届70歳以上被用者算定基礎届"] || "",
+            "賞与支払": fields["届書数x賞与支払届70歳以上被用者賞与支払届"] || "",
+            "育児休業": fields["届書数x育児休業等取得者申出書終了届"] || fields["届書数x育児休業等取得者申出書(新規・延長)／終了届"] || "",
+            "産前産後": fields["届書数x産前産後休業取得者申出書変更届"] || fields["届書数x産前産後休業取得者申出書／変更(終了)届"] || "",
+            "合計": fields["届書総件数x届書合計"] || "",
+            "国年3号": fields["届書総件数x国年x国民年金第3号被保険者関係届"] || "",
+            "国年合計": fields["届書総件数x国年x届書合計"] || ""
+        },
+        rows: []
+    };
+};
+
+// 通知書の宛先・発行元は1行目の被保険者（被扶養者）要素に重ねて記録されている
+const noticeHeader = (h: Record<string, any> = {}) => ({
+    arrivalNumber: h["到達番号_項目"] || "",
+    noticeBox: h["機構からのお知らせ"] || "",
+    zipCodeSuffix: h["事業所郵便番号_送付先"] || "",
+    address: h["事業所所在地_送付先"] || "",
+    companyName: h["事業所名称_送付先"] || "",
+    ownerName: h["事業主氏名_送付先"] || "",
+    creationDateJP: h["通知年月日"] || "",
+    officeRegistryNotice: h["事業所整理記号"] || "",
+    officeNoNotice: h["事業所番号"] || "",
+    pensionOffice: h["年金事務所名"] || "",
+    noticeMgmtNo: h["通知管理番号"] || "",
+    noticeMgmtBranch: h["通知管理番号枝番"] || "",
+});
+
+const extractNotice = (docType: NoticeData['docType'], title: string) => ({ insuredRows: rows }: DocScan): NoticeData => ({
+    docType,
+    title,
+    rows,
+    ...noticeHeader(rows[0])
+});
+
+// 帳票名があれば帳票名だけで判別する。無い場合は全ての被保険者の行が条件を満たすときに限り、
+// 算定基礎・月額変更などの通知書に資格取得・喪失や被扶養者の項目を持つ人が混じっていても通知書全体を取り違えない
+const matchTitleOrRows = (pattern: RegExp, rowMatches: (r: Record<string, any>) => boolean) => (scan: DocScan) =>
+    scan.title ? pattern.test(scan.title) : scan.insuredRows.length > 0 && scan.insuredRows.every(rowMatches);
+
+const hasRowDate = (r: Record<string, any>, prefixes: string[]) => getRowDate(r, prefixes).ad !== "";
+
+const pick = (r: Record<string, any>, keys: string[]) => normalize(keys.map(k => r[k]).find(v => v) || "");
+
+// 基礎年金番号は4桁（課所符号）と6桁（一連番号）に分かれていることがある
+const pensionNumber = (r: Record<string, any>, prefix: string = "") => {
+    const whole = pick(r, [`${prefix}基礎年金番号`]);
+    if (whole) return whole;
+    return [pick(r, [`${prefix}基礎年金番号_課所符号`, `${prefix}基礎年金番号1`]), pick(r, [`${prefix}基礎年金番号_一連番号`, `${prefix}基礎年金番号2`])].filter(Boolean).join("-");
+};
+
+const ACQUIRED_DATE_PREFIXES = ["資格取得年月日", "資格取得年月"];
+const LOST_DATE_PREFIXES = ["資格喪失年月日", "資格喪失年月"];
+
+const toQualificationPerson = (r: Record<string, any>): QualificationPerson => ({
+    insuredNo: pick(r, ["被保険者整理番号"]),
+    name: pick(r, ["被保険者氏名"]),
+    kanaName: pick(r, ["被保険者カナ氏名", "被保険者氏名_カナ"]),
+    birthDate: getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]),
+    pensionNo: pensionNumber(r),
+    kind: pick(r, ["種別"]),
+    acquiredDate: getRowDate(r, ACQUIRED_DATE_PREFIXES),
+    lostDate: getRowDate(r, LOST_DATE_PREFIXES),
+    lossReason: pick(r, ["喪失原因", "資格喪失原因", "喪失理由"]),
+    stdHealth: parseStandardAmount(r["決定後の標準報酬月額_健保"]),
+    stdPension: parseStandardAmount(r["決定後の標準報酬月額_厚年"])
+});
+
+const extractQualification = (docType: QualificationNoticeData['docType'], title: string) => (scan: DocScan): QualificationNoticeData => ({
+    docType,
+    title: scan.title || title,
+    rows: scan.insuredRows,
+    ...noticeHeader(scan.insuredRows[0]),
+    persons: scan.insuredRows.map(toQualificationPerson)
+});
+
+const toDependentEntry = (r: Record<string, any>): DependentEntry => ({
+    insuredNo: pick(r, ["被保険者整理番号"]),
+    insuredName: pick(r, ["被保険者氏名", "被保険者漢字氏名", "被保険者氏名_漢字"]),
+    name: pick(r, ["被扶養者氏名", "被扶養者漢字氏名", "被扶養者氏名_漢字", "氏名"]),
+    kanaName: pick(r, ["被扶養者カナ氏名", "被扶養者氏名_カナ", "カナ氏名"]),
+    relationship: pick(r, ["続柄", "被扶養者続柄"]),
+    birthDate: getRowDate(r, ["被扶養者生年月日", "生年月日"]),
+    change: pick(r, ["異動区分", "異動の別", "該当区分", "認定区分"]),
+    changeDate: getRowDate(r, ["被扶養者になった日", "認定年月日", "該当年月日", "非該当年月日", "異動年月日"]),
+    reason: pick(r, ["非該当理由", "異動理由", "理由"]),
+    pensionNo: pensionNumber(r, "被扶養者") || pensionNumber(r)
+});
+
+// 被扶養者要素が無い様式では、被保険者の行に被扶養者の項目が並ぶ
+const hasDependentFields = (r: Record<string, any>) => Object.keys(r).some(k => /^被扶養者(漢字|カナ)?氏名/.test(k));
+
+const dependentSourceRows = ({ insuredRows, dependentRows }: DocScan) =>
+    dependentRows.length > 0 ? dependentRows : insuredRows.filter(hasDependentFields);
+
+const extractDependent = (scan: DocScan): DependentNoticeData => {
+    const rows = dependentSourceRows(scan);
+    return {
+        docType: 'DEPENDENT_NOTICE',
+        title: scan.title || "健康保険 被扶養者（異動）決定通知書",
+        rows,
+        ...noticeHeader(scan.insuredRows[0] || rows[0]),
+        dependents: rows.map(toDependentEntry)
+    };
+};
+
+registerDocType({
+    id: 'ANNOUNCEMENT',
+    label: "日本年金機構からのお知らせ",
+    priority: 100,
+    match: ({ root, fields }) => root.name === "DOC" || fields["TITLE"] === "日本年金機構からのお知らせ",
+    extract: extractAnnouncement,
+    exportTable: announcementTable,
+    supportsCalculator: false,
+    personRows: false,
+    payrollTemplates: false
+});
+
+registerDocType({
+    id: 'SUMMARY',
+    label: "CSV形式届書総括票",
+    priority: 90,
+    match: ({ root, fields }) => !!(fields["識別情報x提出元ID"] || fields["届書総件数x届書合計"]) || root.name === "DataRoot",
+    extract: extractSummary,
+    exportTable: summaryTable,
+    supportsCalculator: false,
+    personRows: false,
+    payrollTemplates: false
+});
+
+registerDocType({
+    id: 'DEPENDENT_NOTICE',
+    label: "被扶養者（異動）決定通知書",
+    priority: 40,
+    // 被保険者要素の無い様式は被扶養者要素だけで判別する
+    match: scan => scan.title || scan.insuredRows.length > 0
+        ? matchTitleOrRows(/被扶養者/, r => hasDependentFields(r) || "_被扶養者" in r)(scan)
+        : scan.dependentRows.length > 0,
+    extract: extractDependent,
+    exportTable: dependentTable,
+    supportsCalculator: false,
+    personRows: false,
+    payrollTemplates: false
+});
+
+registerDocType({
+    id: 'LOSS_NOTICE',
+    label: "資格喪失確認通知書",
+    priority: 35,
+    match: matchTitleOrRows(/資格喪失/, r => hasRowDate(r, LOST_DATE_PREFIXES) || !!pick(r, ["喪失原因", "資格喪失原因"])),
+    extract: extractQualification('LOSS_NOTICE', "健康保険・厚生年金保険 被保険者資格喪失確認通知書"),
+    exportTable: qualificationTable,
+    supportsCalculator: false,
+    personRows: true,
+    payrollTemplates: false
+});
+
+// 資格取得時決定の標準報酬月額も記載されるが、控除計算の適用年月は持たない
+registerDocType({
+    id: 'ACQUISITION_NOTICE',
+    label: "資格取得確認通知書",
+    priority: 30,
+    match: matchTitleOrRows(/資格取得/, r => hasRowDate(r, ACQUIRED_DATE_PREFIXES)),
+    extract: extractQualification('ACQUISITION_NOTICE', "健康保険・厚生年金保険 被保険者資格取得確認および標準報酬決定通知書"),
+    exportTable: qualificationTable,
+    supportsCalculator: false,
+    personRows: true,
+    payrollTemplates: false
+});
+
+registerDocType({
+    id: 'BONUS_NOTICE',
+    label: "標準賞与額決定通知書",
+    priority: 20,
+    match: ({ insuredRows }) => insuredRows.length > 0 && JSON.stringify(insuredRows).includes("賞与"),
+    extract: extractNotice('BONUS_NOTICE', "健康保険・厚生年金保険 標準賞与額決定通知書"),
+    exportTable: noticeTable,
+    supportsCalculator: true,
+    personRows: true,
+    payrollTemplates: true
+});
+
+// 被保険者の行を持つ書類のうち、より具体的な種類に当てはまらなかったもの
+registerDocType({
+    id: 'NOTICE',
+    label: "標準報酬決定通知書",
+    priority: 10,
+    match: ({ insuredRows }) => insuredRows.length > 0,
+    extract: extractNotice('NOTICE', "健康保険・厚生年金保険 被保険者標準報酬決定通知書"),
+    exportTable: noticeTable,
+    supportsCalculator: true,
+    personRows: true,
+    payrollTemplates: true
+});
+
+EMPLOYMENT_DOC_TYPES.forEach(def => registerDocType(def));
+registerDocType(CSV_SUBMISSION_DOC_TYPE);
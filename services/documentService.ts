@@ -0,0 +1,45 @@
+import { AppFile, TextEncodingName, UniversalData, XMLNode, XMLParseIssue } from "../types";
+import { parseCSVSubmission } from "./csvSubmissionService";
+import { classifyDocument } from "./docTypeService";
+import { DetectedEncoding, decodeBytes, decodeFileNameBytes, detectEncoding } from "./encodingService";
+import { XMLParseError, parseXMLContent } from "./xmlParser";
+import { findStylesheetHref } from "./xslService";
+
+// --- Document Loading ---
+// バイト列から文字コード判定・XML解析（CSV 形式届書は CSV の解析）・書類データ抽出までを行う。DOM に依存しないため Web Worker からも使う。
+
+// 書類の種類の判別とデータ抽出は docTypeService の登録内容に従う
+export const extractDetailed = (node: XMLNode): UniversalData | null => classifyDocument(node);
+
+export const buildAppFile = (fullPath: string, raw: Uint8Array, rawName?: Uint8Array, forced?: { body?: TextEncodingName, name?: TextEncodingName }): AppFile => {
+    const detected: DetectedEncoding = forced?.body ? { encoding: forced.body, source: 'manual' } : detectEncoding(raw);
+    const path = rawName ? decodeFileNameBytes(rawName, forced?.name) : fullPath;
+    const content = decodeBytes(raw, detected.encoding);
+    let parsed: XMLNode | undefined;
+    let parseError: XMLParseIssue | undefined;
+    let analysis: UniversalData | undefined;
+    if (/\.csv$/i.test(path)) {
+        analysis = parseCSVSubmission(content) || undefined;
+    } else {
+        try {
+            parsed = parseXMLContent(content);
+        } catch (err: any) {
+            parseError = err instanceof XMLParseError ? err.toIssue() : { message: err?.message || String(err) };
+        }
+        analysis = parsed ? extractDetailed(parsed) || undefined : undefined;
+    }
+    return {
+        name: path.split('/').pop() || path,
+        fullPath: path,
+        content,
+        parsed,
+        parseError,
+        analysis,
+        raw,
+        rawName,
+        encoding: detected.encoding,
+        encodingSource: detected.source,
+        nameEncoding: forced?.name,
+        stylesheetHref: findStylesheetHref(content)
+    };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { ageAt, evaluateEligibility, parseAD, reachDate } from "./eligibilityService";
+
+const ymd = (ad: string) => parseAD(ad)!;
+
+describe("reachDate / ageAt", () => {
+    it.each([
+        ["1984/04/01", 40, "2024/3/31"],
+        ["1984/04/02", 40, "2024/4/1"],
+        ["2000/02/29", 41, "2041/2/28"],
+        ["2000/03/01", 40, "2040/2/29"]
+    ])("%s 生まれの %i 歳到達日は %s", (birth, age, expected) => {
+        const r = reachDate(ymd(birth), age);
+        expect(`${r.y}/${r.m}/${r.d}`).toBe(expected);
+    });
+
+    it.each([
+        ["1984/04/02", "2024/03/31", 39],
+        ["1984/04/02", "2024/04/01", 40],
+        ["2000/02/29", "2001/02/27", 0],
+        ["2000/02/29", "2001/02/28", 1]
+    ])("%s 生まれは %s に %i 歳", (birth, ref, age) => {
+        expect(ageAt(ymd(birth), ymd(ref))).toBe(age);
+    });
+});
+
+describe("evaluateEligibility", () => {
+    // 資格の切り替えは到達日（健保は75歳の誕生日）の属する月
+    it.each<[string, string, 'health' | 'pension' | 'nursing', boolean]>([
+        ["1984/04/01", "2024/02/01", 'nursing', false],
+        ["1984/04/01", "2024/03/01", 'nursing', true],
+        ["1984/04/02", "2024/03/01", 'nursing', false],
+        ["1984/04/02", "2024/04/01", 'nursing', true],
+        ["1959/04/01", "2024/02/01", 'nursing', true],
+        ["1959/04/01", "2024/03/01", 'nursing', false],
+        ["1954/04/01", "2024/02/01", 'pension', true],
+        ["1954/04/01", "2024/03/01", 'pension', false],
+        ["1954/04/02", "2024/03/01", 'pension', true],
+        ["1949/04/01", "2024/03/01", 'health', true],
+        ["1949/04/01", "2024/04/01", 'health', false],
+        ["1949/04/02", "2024/04/01", 'health', false]
+    ])("%s 生まれの %s 時点の %s は %s", (birth, ref, kind, expected) => {
+        expect(evaluateEligibility(birth, ref)!.status[kind]).toBe(expected);
+    });
+
+    it("適用期間内に資格が切り替わる月を返す", () => {
+        const r = evaluateEligibility("1984/10/15", "2024/09/01", 12)!;
+        expect(r.boundaries).toEqual([{ kind: 'nursingStart', label: "介護保険 開始", yearMonth: "2024-10" }]);
+    });
+});
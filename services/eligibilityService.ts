@@ -0,0 +1,102 @@
+// --- Age & Eligibility ---
+// 年齢計算ニ関スル法律により、年齢は誕生日の前日に加算される（年齢到達日）。
+// 介護保険第2号被保険者は40歳到達日の属する月から65歳到達日の属する月の前月まで、
+// 厚生年金は70歳到達日の属する月の前月まで保険料が発生する。
+// 健康保険は75歳の誕生日当日に後期高齢者医療へ移行するため、誕生日の属する月の前月までとなる。
+
+export interface Ymd {
+    y: number;
+    m: number;
+    d: number;
+}
+
+export interface EligibilityStatus {
+    health: boolean;
+    pension: boolean;
+    nursing: boolean;
+}
+
+export type BoundaryKind = 'nursingStart' | 'nursingEnd' | 'pensionEnd' | 'healthEnd';
+
+export interface EligibilityBoundary {
+    kind: BoundaryKind;
+    label: string;
+    yearMonth: string;
+}
+
+export interface EligibilityResult {
+    age: number;
+    status: EligibilityStatus;
+    boundaries: EligibilityBoundary[];
+}
+
+const BOUNDARY_LABELS: Record<BoundaryKind, string> = {
+    nursingStart: "介護保険 開始",
+    nursingEnd: "介護保険 終了(65歳)",
+    pensionEnd: "厚生年金 喪失(70歳)",
+    healthEnd: "健康保険 喪失(75歳)"
+};
+
+export const parseAD = (ad?: string): Ymd | null => {
+    const m = (ad || "").match(/^(\d{4})[\/-](\d{1,2})(?:[\/-](\d{1,2}))?/);
+    if (!m) return null;
+    return { y: parseInt(m[1], 10), m: parseInt(m[2], 10), d: m[3] ? parseInt(m[3], 10) : 1 };
+};
+
+const fromUTC = (t: number): Ymd => {
+    const dt = new Date(t);
+    return { y: dt.getUTCFullYear(), m: dt.getUTCMonth() + 1, d: dt.getUTCDate() };
+};
+
+const compareYmd = (a: Ymd, b: Ymd): number => (a.y - b.y) || (a.m - b.m) || (a.d - b.d);
+
+const monthIndex = (v: Ymd): number => v.y * 12 + (v.m - 1);
+
+const formatMonth = (idx: number): string => `${Math.floor(idx / 12)}-${String((idx % 12) + 1).padStart(2, '0')}`;
+
+// N歳の誕生日の前日。2月29日生まれは平年では2月28日となる。
+export const reachDate = (birth: Ymd, age: number): Ymd => fromUTC(Date.UTC(birth.y + age, birth.m - 1, birth.d - 1));
+
+const birthday = (birth: Ymd, age: number): Ymd => fromUTC(Date.UTC(birth.y + age, birth.m - 1, birth.d));
+
+export const ageAt = (birth: Ymd, ref: Ymd): number => {
+    const n = ref.y - birth.y;
+    return compareYmd(reachDate(birth, n), ref) <= 0 ? n : n - 1;
+};
+
+export const todayYmd = (): Ymd => {
+    const t = new Date();
+    return { y: t.getFullYear(), m: t.getMonth() + 1, d: t.getDate() };
+};
+
+// birthDateAD と基準日 refAD（適用年月や賞与支払年月日）から資格状態を判定する。
+// windowMonths を指定すると、基準月から同月数の範囲内で資格が切り替わる月を boundaries に返す。
+export const evaluateEligibility = (birthDateAD: string, refAD?: string, windowMonths: number = 1): EligibilityResult | null => {
+    const birth = parseAD(birthDateAD);
+    if (!birth) return null;
+    const ref = parseAD(refAD) || todayYmd();
+    const refMonth = monthIndex(ref);
+
+    const nursingStart = monthIndex(reachDate(birth, 40));
+    const nursingEnd = monthIndex(reachDate(birth, 65));
+    const pensionEnd = monthIndex(reachDate(birth, 70));
+    const healthEnd = monthIndex(birthday(birth, 75));
+
+    const status: EligibilityStatus = {
+        health: refMonth < healthEnd,
+        pension: refMonth < pensionEnd,
+        nursing: refMonth >= nursingStart && refMonth < nursingEnd
+    };
+
+    const lastMonth = refMonth + Math.max(windowMonths, 1) - 1;
+    const boundaries = ([
+        ['nursingStart', nursingStart],
+        ['nursingEnd', nursingEnd],
+        ['pensionEnd', pensionEnd],
+        ['healthEnd', healthEnd]
+    ] as [BoundaryKind, number][])
+        .filter(([, idx]) => idx >= refMonth && idx <= lastMonth)
+        .map(([kind, idx]) => ({ kind, label: BOUNDARY_LABELS[kind], yearMonth: formatMonth(idx) }));
+
+    return { age: ageAt(birth, ref), status, boundaries };
+};
@@ -0,0 +1,158 @@
+import { EmploymentNoticeData, EmploymentPerson, FormattedDate, XMLNode } from "../types";
+import { ERA_OFFSETS, getFormattedDates, normalize } from "../utils";
+import { DocScan, DocTypeDefinition } from "./docTypeService";
+import { employmentTable } from "./exportService";
+
+// --- Employment Insurance Documents ---
+// ハローワーク（公共職業安定所）が発行する雇用保険の通知書。日本年金機構の書類とは様式が全く異なり、
+// 被保険者番号を持つ要素を1人分の記録として読み、日付は元号コード付きの数字列や西暦など複数の書き方に対応する。
+
+type EmploymentDocId = EmploymentNoticeData['docType'];
+
+// 雇用保険の元号コード（1:明治 2:大正 3:昭和 4:平成 5:令和）を年金機構の様式のコードに読み替える
+const EI_ERA_CODES: Record<string, string> = { "1": "1", "2": "3", "3": "5", "4": "7", "5": "9" };
+const ERA_NAMES: Record<string, string> = { "明治": "1", "大正": "3", "昭和": "5", "平成": "7", "令和": "9", "M": "1", "T": "3" };
+
+const EMPTY_DATE: FormattedDate = { ad: "", jp: "", fullJp: "" };
+
+// 西暦から和暦の元号コードを決める（改元日以降を新元号とする）
+const fromAD = (y: number, m: number, d: number): FormattedDate => {
+    const ymd = y * 10000 + m * 100 + d;
+    const era = ymd >= 20190501 ? "9" : ymd >= 19890108 ? "7" : ymd >= 19261225 ? "5" : ymd >= 19120730 ? "3" : "1";
+    return getFormattedDates(era, y - ERA_OFFSETS[era], m, d);
+};
+
+const parseDateText = (raw: string): FormattedDate => {
+    const v = normalize(raw).replace(/\s/g, "");
+    let m: RegExpMatchArray | null;
+    // 元号コード＋年月日6桁（例: 5060401 = 令和6年4月1日）は西暦8桁より先に判定する
+    if ((m = v.match(/^([1-5])-?(\d{2})(\d{2})(\d{2})$/))) return getFormattedDates(EI_ERA_CODES[m[1]], m[2], m[3], m[4]);
+    if ((m = v.match(/^(\d{4})[-/.年]?(\d{1,2})[-/.月]?(\d{1,2})日?$/))) return fromAD(+m[1], +m[2], +m[3]);
+    if ((m = v.match(/^(明治|大正|昭和|平成|令和)(\d{1,2}|元)年(\d{1,2})月(\d{1,2})日$/))) return getFormattedDates(ERA_NAMES[m[1]], m[2] === "元" ? "1" : m[2], m[3], m[4]);
+    if ((m = v.match(/^([MTSHR])(\d{1,2})[.-](\d{1,2})[.-](\d{1,2})$/i))) return getFormattedDates(ERA_NAMES[m[1].toUpperCase()] || m[1].toUpperCase(), m[2], m[3], m[4]);
+    return EMPTY_DATE;
+};
+
+// 1つの値で書かれた日付と、元号・年・月・日の子要素に分かれた日付の両方を読む
+const employmentDate = (r: Record<string, string>, prefixes: string[]): FormattedDate => {
+    for (const p of prefixes) {
+        if (r[p]) {
+            const parsed = parseDateText(r[p]);
+            if (parsed.ad) return parsed;
+        }
+        const y = r[`${p}_年`];
+        if (y) {
+            const g = normalize(r[`${p}_元号`]);
+            return getFormattedDates(EI_ERA_CODES[g] || ERA_NAMES[g] || g || "9", y, r[`${p}_月`], r[`${p}_日`] || "1");
+        }
+    }
+    return EMPTY_DATE;
+};
+
+// 配下の値を持つ要素を名前で引けるようにする。入れ子の要素は「親_子」の名前でも引ける
+const recordOf = (node: XMLNode, skip?: (n: XMLNode) => boolean): Record<string, string> => {
+    const r: Record<string, string> = {};
+    const walk = (n: XMLNode, parent?: string) => {
+        if (skip?.(n)) return;
+        if (n.content !== undefined) {
+            if (parent) r[`${parent}_${n.name}`] ??= n.content;
+            r[n.name] ??= n.content;
+            return;
+        }
+        n.children.forEach(c => walk(c, n.name));
+    };
+    node.children.forEach(c => walk(c));
+    return r;
+};
+
+// 被保険者番号を直下に持つ要素を1人分の記録とみなす
+const findPersonNodes = (root: XMLNode): XMLNode[] => {
+    const found: XMLNode[] = [];
+    const walk = (n: XMLNode) => {
+        if (n.children.some(c => c.content !== undefined && c.name.includes("被保険者番号"))) { found.push(n); return; }
+        n.children.forEach(walk);
+    };
+    walk(root);
+    return found;
+};
+
+const pick = (r: Record<string, string>, keys: string[]) => normalize(keys.map(k => r[k]).find(v => v) || "");
+
+const INSURED_NO_PATTERN = /^\d{4}-?\d{6}-?\d$/;
+
+// 日本年金機構の書類（_被保険者 要素を持つ）と重ならないよう、雇用保険の番号体系か表題で見分ける
+const isEmploymentDoc = ({ fields, insuredRows, title }: DocScan) =>
+    insuredRows.length === 0 && (
+        /雇用保険|離職票|離職証明/.test(title)
+        || Object.keys(fields).some(k => k.includes("雇用保険"))
+        || (INSURED_NO_PATTERN.test(normalize(fields["被保険者番号"])) && INSURED_NO_PATTERN.test(normalize(fields["事業所番号"])))
+    );
+
+const hasAnyKey = ({ fields }: DocScan, pattern: RegExp) => Object.keys(fields).some(k => pattern.test(k));
+
+const toEmploymentPerson = (r: Record<string, string>): EmploymentPerson => ({
+    insuredNo: pick(r, ["被保険者番号"]),
+    name: pick(r, ["被保険者氏名", "氏名", "被保険者氏名_漢字"]),
+    kanaName: pick(r, ["被保険者氏名カナ", "被保険者氏名_カナ", "フリガナ", "カナ氏名"]),
+    birthDate: employmentDate(r, ["生年月日"]),
+    acquiredDate: employmentDate(r, ["資格取得年月日", "取得年月日"]),
+    lostDate: employmentDate(r, ["離職等年月日", "離職年月日", "資格喪失年月日", "喪失年月日"]),
+    lossReason: pick(r, ["喪失原因", "資格喪失原因"]),
+    separationReason: pick(r, ["離職理由", "具体的事情記載欄", "離職理由コード"])
+});
+
+const extractEmployment = (docType: EmploymentDocId, title: string) => (scan: DocScan): EmploymentNoticeData => {
+    const personNodes = findPersonNodes(scan.root);
+    const skip = new Set(personNodes);
+    const header = recordOf(scan.root, n => skip.has(n));
+    const records = personNodes.length > 0 ? personNodes.map(n => recordOf(n)) : [recordOf(scan.root)];
+    return {
+        docType,
+        title: scan.title || title,
+        officeNo: pick(header, ["事業所番号"]) || pick(records[0] || {}, ["事業所番号"]),
+        companyName: pick(header, ["事業所名称", "事業所名", "事業所の名称"]),
+        address: pick(header, ["事業所所在地", "所在地"]),
+        ownerName: pick(header, ["事業主氏名", "事業主名"]),
+        creationDateJP: employmentDate(header, ["通知年月日", "交付年月日", "処理年月日", "確認年月日"]).fullJp,
+        issuerOffice: pick(header, ["公共職業安定所名", "安定所名", "公共職業安定所"]),
+        rows: records,
+        persons: records.map(toEmploymentPerson)
+    };
+};
+
+export const EMPLOYMENT_DOC_TYPES: DocTypeDefinition<EmploymentDocId>[] = [
+    {
+        id: 'EI_SEPARATION_NOTICE',
+        label: "雇用保険 離職票",
+        priority: 65,
+        match: scan => isEmploymentDoc(scan) && (/離職票|離職証明/.test(scan.title) || hasAnyKey(scan, /離職理由/)),
+        extract: extractEmployment('EI_SEPARATION_NOTICE', "雇用保険被保険者離職票"),
+        exportTable: employmentTable,
+        supportsCalculator: false,
+        personRows: false,
+        payrollTemplates: false
+    },
+    {
+        id: 'EI_LOSS_NOTICE',
+        label: "雇用保険 資格喪失確認通知書",
+        priority: 60,
+        match: scan => isEmploymentDoc(scan) && (/喪失/.test(scan.title) || (!/取得/.test(scan.title) && hasAnyKey(scan, /喪失|離職(等)?年月日/))),
+        extract: extractEmployment('EI_LOSS_NOTICE', "雇用保険被保険者資格喪失確認通知書"),
+        exportTable: employmentTable,
+        supportsCalculator: false,
+        personRows: false,
+        payrollTemplates: false
+    },
+    // 表題や喪失・離職の項目で見分けられない雇用保険の通知書もここで受ける
+    {
+        id: 'EI_ACQUISITION_NOTICE',
+        label: "雇用保険 資格取得等確認通知書",
+        priority: 55,
+        match: isEmploymentDoc,
+        extract: extractEmployment('EI_ACQUISITION_NOTICE', "雇用保険被保険者資格取得等確認通知書"),
+        exportTable: employmentTable,
+        supportsCalculator: false,
+        personRows: false,
+        payrollTemplates: false
+    }
+];
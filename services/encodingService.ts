@@ -0,0 +1,82 @@
+import { EncodingSource, TextEncodingName } from "../types";
+
+// --- Text Encoding ---
+// e-Gov や給与ソフトが出力するZIPには Shift_JIS(CP932) のXMLやファイル名が含まれるため、
+// BOM → XML宣言 → UTF-8としての妥当性 の順で文字コードを判定してから文字列化する。
+
+export interface DetectedEncoding {
+    encoding: TextEncodingName;
+    source: EncodingSource;
+}
+
+export const ENCODING_LABELS: Record<TextEncodingName, string> = {
+    'utf-8': "UTF-8",
+    'shift_jis': "Shift_JIS (CP932)",
+    'euc-jp': "EUC-JP",
+    'utf-16le': "UTF-16LE",
+    'utf-16be': "UTF-16BE"
+};
+
+export const ENCODING_SOURCE_LABELS: Record<EncodingSource, string> = {
+    bom: "BOM",
+    declaration: "XML宣言",
+    heuristic: "自動推定",
+    manual: "手動指定"
+};
+
+const DECLARED_ALIASES: Record<string, TextEncodingName> = {
+    "utf-8": 'utf-8',
+    "utf8": 'utf-8',
+    "shift_jis": 'shift_jis',
+    "shift-jis": 'shift_jis',
+    "sjis": 'shift_jis',
+    "x-sjis": 'shift_jis',
+    "windows-31j": 'shift_jis',
+    "cp932": 'shift_jis',
+    "ms932": 'shift_jis',
+    "ms_kanji": 'shift_jis',
+    "euc-jp": 'euc-jp',
+    "x-euc-jp": 'euc-jp',
+    "utf-16": 'utf-16le',
+    "utf-16le": 'utf-16le',
+    "utf-16be": 'utf-16be'
+};
+
+const detectBOM = (bytes: Uint8Array): TextEncodingName | null => {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+    return null;
+};
+
+// XML宣言はASCII範囲で書かれるため、先頭をLatin-1として読んで encoding 属性を取り出す
+const detectDeclaration = (bytes: Uint8Array): TextEncodingName | null => {
+    const head = Array.from(bytes.subarray(0, 256)).map(b => String.fromCharCode(b)).join('');
+    const m = head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/i);
+    if (!m) return null;
+    return DECLARED_ALIASES[m[1].trim().toLowerCase()] || null;
+};
+
+export const isValidUTF8 = (bytes: Uint8Array): boolean => {
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const detectEncoding = (bytes: Uint8Array): DetectedEncoding => {
+    const bom = detectBOM(bytes);
+    if (bom) return { encoding: bom, source: 'bom' };
+    const declared = detectDeclaration(bytes);
+    if (declared) return { encoding: declared, source: 'declaration' };
+    return { encoding: isValidUTF8(bytes) ? 'utf-8' : 'shift_jis', source: 'heuristic' };
+};
+
+export const decodeBytes = (bytes: Uint8Array, encoding: TextEncodingName): string =>
+    new TextDecoder(encoding).decode(bytes);
+
+// ZIPのファイル名はUTF-8フラグが無い場合CP932で格納されていることが多い
+export const decodeFileNameBytes = (bytes: Uint8Array, encoding?: TextEncodingName): string =>
+    decodeBytes(bytes, encoding || (isValidUTF8(bytes) ? 'utf-8' : 'shift_jis'));
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { AppFile } from "../types";
+import { classifyDocument } from "./docTypeService";
+import { redactForExplanation } from "./explanationService";
+import { parseXMLContent } from "./xmlParser";
+
+const fileOf = (xml: string): AppFile => {
+    const parsed = parseXMLContent(xml);
+    return { name: "doc.xml", fullPath: "case/doc.xml", content: xml, parsed, analysis: classifyDocument(parsed) || undefined } as AppFile;
+};
+
+describe("redactForExplanation", () => {
+    it("お知らせの宛先・発信者の氏名は data と fields の両方で置き換える", () => {
+        const file = fileOf(`<DOC><BODY><TITLE>日本年金機構からのお知らせ</TITLE><TO><AFF>株式会社テスト</AFF><NAME>代表取締役 山田太郎</NAME></TO><AUTHOR><AFF>日本年金機構</AFF><NAME>理事長 鈴木一郎</NAME></AUTHOR><P>本文</P></BODY></DOC>`);
+        const { request } = redactForExplanation(file);
+        const sent = JSON.stringify(request);
+        expect(sent).not.toContain("山田太郎");
+        expect(sent).not.toContain("鈴木一郎");
+        expect(request.data?.recipient?.name).toBe("（宛先氏名）");
+        expect(request.fields.find(f => f.path === "DOC/BODY/TO/NAME")?.value).toBe("（宛先氏名）");
+        expect(request.fields.find(f => f.path === "DOC/BODY/AUTHOR/NAME")?.value).toBe("（発信者氏名）");
+        expect(request.fields.find(f => f.path === "DOC/BODY/TO/AFF")?.value).toBe("株式会社テスト");
+    });
+});
@@ -0,0 +1,303 @@
+import { AppFile, DocTypeId, UniversalData } from "../types";
+import { flattenXML, getFormattedDates, normalize, parseStandardAmount } from "../utils";
+import { isDocType } from "./docTypeService";
+
+// --- Document Explanation ---
+// AI解説パネルのプロバイダ抽象。Gemini 実装は geminiService.ts にあり、
+// APIキーの無い環境やテストでは同じインターフェースのオフライン実装に差し替える。
+
+export interface ExplanationDeadline {
+    item: string;
+    date: string;
+}
+
+export interface EmployeeChange {
+    employee: string;
+    change: string;
+}
+
+export interface DocumentExplanation {
+    documentSummary: string;
+    requiredActions: string[];
+    deadlines: ExplanationDeadline[];
+    employeeChanges: EmployeeChange[];
+    notes?: string;
+}
+
+export interface ExplanationRequest {
+    fileName: string;
+    data: UniversalData | null;
+    fields: { path: string; value: string }[];
+}
+
+export interface ExplanationProvider {
+    id: string;
+    label: string;
+    explain: (req: ExplanationRequest) => Promise<DocumentExplanation>;
+}
+
+export interface RedactedRequest {
+    request: ExplanationRequest;
+    aliases: Map<string, string>;
+}
+
+const MAX_FIELDS = 400;
+
+// 外部送信してはならない個人識別情報。氏名は仮名に置き換え、その他は値ごと除去する。
+// 被保険者番号は雇用保険の個人番号（健保・厚年の被保険者整理番号とは別）
+const SENSITIVE_KEY = /生年月日|基礎年金番号|個人番号|マイナンバー|住所|所在地|電話|郵便番号|被保険者証|被保険者番号/;
+const NAME_KEY = /氏名|NAME/i;
+
+// 被保険者・被扶養者の付かない「カナ氏名」「氏名_カナ」なども本人の氏名とみなす
+const isEmployeeNameKey = (key: string) =>
+    (NAME_KEY.test(key) && /被保険者|被扶養者|配偶者|^(カナ|漢字)?氏名[_（(]?(カナ|漢字)?[）)]?$/.test(key)) || /^フリガナ$/.test(key);
+const isOwnerNameKey = (key: string) => /事業主氏名|代行者名/.test(key);
+
+// お知らせの宛先・発信者の氏名。data の recipient.name・senderName と fields の TO/NAME・AUTHOR/NAME を同じ表記に置き換える
+const RECIPIENT_NAME = "（宛先氏名）";
+const SENDER_NAME = "（発信者氏名）";
+const announcementNameOf = (path: string) => {
+    const p = path.replace(/\[\d+\]/g, "");
+    return /(^|\/)TO\/NAME$/.test(p) ? RECIPIENT_NAME : /(^|\/)AUTHOR\/NAME$/.test(p) ? SENDER_NAME : undefined;
+};
+
+// 介護保険の該当判定に必要なため、生年月日の代わりに年代のみ渡す
+const birthDecade = (ad: string) => ad ? `${Math.floor(parseInt(ad.slice(0, 4), 10) / 10) * 10}年代生まれ` : "";
+
+export const redactForExplanation = (file: AppFile): RedactedRequest => {
+    const aliases = new Map<string, string>();
+    const aliasOf = (name: string) => {
+        const key = normalize(name);
+        if (!key) return "";
+        if (!aliases.has(key)) aliases.set(key, `被保険者${aliases.size + 1}`);
+        return aliases.get(key)!;
+    };
+
+    const data = file.analysis;
+    const rows = (data?.rows || []).map(r => {
+        const out: Record<string, any> = {};
+        Object.entries(r).forEach(([k, v]) => {
+            if (SENSITIVE_KEY.test(k)) return;
+            out[k] = isEmployeeNameKey(k) ? aliasOf(String(v ?? "")) : isOwnerNameKey(k) ? "（事業主氏名）" : v;
+        });
+        const birth = getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]).ad;
+        if (birth) out["生年_年代"] = birthDecade(birth);
+        return out;
+    });
+
+    // 書類ごとに抽出した被保険者・被扶養者の一覧も rows と同じく氏名は仮名、生年月日は年代にし、基礎年金番号・雇用保険の被保険者番号は除く
+    const people: Record<string, any> = {};
+    if (data && (isDocType(data, 'ACQUISITION_NOTICE') || isDocType(data, 'LOSS_NOTICE'))) {
+        people.persons = data.persons.map(({ pensionNo, birthDate, ...p }) => ({
+            ...p,
+            name: aliasOf(p.name),
+            kanaName: aliasOf(p.kanaName),
+            birthDecade: birthDecade(birthDate.ad)
+        }));
+    }
+    if (data && (isDocType(data, 'EI_ACQUISITION_NOTICE') || isDocType(data, 'EI_LOSS_NOTICE') || isDocType(data, 'EI_SEPARATION_NOTICE'))) {
+        people.persons = data.persons.map(({ insuredNo, birthDate, ...p }) => ({
+            ...p,
+            name: aliasOf(p.name),
+            kanaName: aliasOf(p.kanaName),
+            birthDecade: birthDecade(birthDate.ad)
+        }));
+    }
+    // CSV 形式届書は項目名で判断し、除去する列はレコードからも除く。レイアウトに無い列（項目N）は内容が分からないため送らない
+    if (data && isDocType(data, 'CSV_SUBMISSION')) {
+        const redactValue = (label: string, value: string) =>
+            isEmployeeNameKey(label) ? aliasOf(value) : isOwnerNameKey(label) ? "（事業主氏名）" : value;
+        const redactLabelled = (items: { label: string, value: string }[]) =>
+            items.filter(i => !SENSITIVE_KEY.test(i.label)).map(i => ({ label: i.label, value: redactValue(i.label, i.value) }));
+        people.header = redactLabelled(data.header);
+        people.office = redactLabelled(data.office);
+        people.forms = data.forms.map(f => {
+            const kept = f.columns.map((_, i) => i).filter(i => !SENSITIVE_KEY.test(f.columns[i]) && !/^項目\d+$/.test(f.columns[i]));
+            return {
+                ...f,
+                columns: kept.map(i => f.columns[i]),
+                records: f.records.map(r => kept.map(i => redactValue(f.columns[i], r[i] ?? "")))
+            };
+        });
+    }
+    if (data && isDocType(data, 'DEPENDENT_NOTICE')) {
+        people.dependents = data.dependents.map(({ pensionNo, birthDate, ...d }) => ({
+            ...d,
+            insuredName: aliasOf(d.insuredName),
+            name: aliasOf(d.name),
+            kanaName: aliasOf(d.kanaName),
+            birthDecade: birthDecade(birthDate.ad)
+        }));
+    }
+
+    const redactedData: UniversalData | null = data ? {
+        ...data,
+        ...people,
+        rows,
+        ownerName: data.ownerName ? "（事業主氏名）" : data.ownerName,
+        proxyName: data.proxyName ? "（代行者名）" : data.proxyName,
+        address: undefined,
+        phone: undefined,
+        zipCodePrefix: undefined,
+        zipCodeSuffix: undefined,
+        senderName: data.senderName ? SENDER_NAME : data.senderName,
+        recipient: data.recipient ? { ...data.recipient, name: data.recipient.name ? RECIPIENT_NAME : undefined } : undefined
+    } : null;
+
+    const fields = (file.parsed ? flattenXML(file.parsed) : [])
+        .filter(f => !SENSITIVE_KEY.test(f.path))
+        .map(f => {
+            const leaf = (f.path.split('/').pop() || "").replace(/\[\d+\]$/, "");
+            const placeholder = announcementNameOf(f.path);
+            if (placeholder) return { ...f, value: placeholder };
+            if (isEmployeeNameKey(leaf)) return { ...f, value: aliasOf(f.value) };
+            if (isOwnerNameKey(leaf)) return { ...f, value: "（事業主氏名）" };
+            return f;
+        })
+        .slice(0, MAX_FIELDS);
+
+    return { request: { fileName: file.name, data: redactedData, fields }, aliases };
+};
+
+// 仮名で返ってきた解説を手元の氏名に戻す（氏名は端末外に出ない）
+export const restoreAliases = (expl: DocumentExplanation, aliases: Map<string, string>): DocumentExplanation => {
+    const reverse = Array.from(aliases.entries()).sort((a, b) => b[1].length - a[1].length);
+    const fix = (text: string) => reverse.reduce((t, [real, alias]) => t.split(alias).join(real), text || "");
+    return {
+        documentSummary: fix(expl.documentSummary),
+        requiredActions: expl.requiredActions.map(fix),
+        deadlines: expl.deadlines.map(d => ({ item: fix(d.item), date: d.date })),
+        employeeChanges: expl.employeeChanges.map(c => ({ employee: fix(c.employee), change: fix(c.change) })),
+        notes: expl.notes ? fix(expl.notes) : expl.notes
+    };
+};
+
+export const buildExplanationPrompt = (req: ExplanationRequest): string => [
+    "あなたは日本の社会保険手続に詳しい社会保険労務士です。",
+    "以下は e-Gov からダウンロードした公文書（XML）を解析したデータです。個人情報は仮名化・除去済みです。",
+    "事業所の担当者向けに、平易な日本語で次の内容をJSONで回答してください:",
+    "- documentSummary: この書類が何か、なぜ届いたのか",
+    "- requiredActions: 会社として必要な対応（給与計算への反映、従業員への通知、保管など）",
+    "- deadlines: 期限や適用開始時期（不明な場合は空配列）",
+    "- employeeChanges: 被保険者ごとの変更点（仮名のまま記載）",
+    "- notes: 補足や注意点",
+    "",
+    `ファイル名: ${req.fileName}`,
+    `解析結果: ${JSON.stringify(req.data)}`,
+    `全項目（抜粋）: ${JSON.stringify(req.fields.map(f => `${f.path}=${f.value}`))}`
+].join("\n");
+
+const DOC_TYPE_SUMMARIES: Record<DocTypeId, { summary: string; actions: string[] }> = {
+    NOTICE: {
+        summary: "日本年金機構が決定した標準報酬月額（健康保険・厚生年金保険）の通知書です。資格取得・算定基礎・月額変更の届出に対する決定結果が記載されています。",
+        actions: ["適用年月から給与控除額（健康保険料・厚生年金保険料）を変更してください。", "決定内容を被保険者本人へ通知してください。", "通知書は2年間保管してください。"]
+    },
+    BONUS_NOTICE: {
+        summary: "賞与支払届に基づき決定された標準賞与額の通知書です。",
+        actions: ["賞与からの保険料控除額が決定額と一致しているか確認してください。", "決定内容を被保険者本人へ通知してください。"]
+    },
+    SUMMARY: {
+        summary: "CSV形式で電子申請した届書の件数をまとめた総括票です。",
+        actions: ["届書の件数が提出したデータと一致しているか確認してください。", "到達後に届く決定通知書と突き合わせてください。"]
+    },
+    ANNOUNCEMENT: {
+        summary: "日本年金機構から事業所宛てに送付されたお知らせです。",
+        actions: ["本文と添付資料を確認し、必要な手続があれば対応してください。"]
+    },
+    ACQUISITION_NOTICE: {
+        summary: "資格取得届に基づき、健康保険・厚生年金保険の被保険者資格の取得と資格取得時の標準報酬月額が確認された通知書です。",
+        actions: ["資格取得年月日と標準報酬月額を給与システムに登録してください。", "被保険者本人へ通知してください。"]
+    },
+    LOSS_NOTICE: {
+        summary: "資格喪失届に基づき、健康保険・厚生年金保険の被保険者資格の喪失が確認された通知書です。",
+        actions: ["喪失月の前月分までの保険料を控除しているか確認してください。", "健康保険証等の回収状況を確認してください。"]
+    },
+    DEPENDENT_NOTICE: {
+        summary: "被扶養者（異動）届に基づき、健康保険の被扶養者の認定・取消が決定された通知書です。",
+        actions: ["被保険者本人へ決定内容を通知してください。", "国民年金第3号被保険者の届出が必要か確認してください。"]
+    },
+    EI_ACQUISITION_NOTICE: {
+        summary: "公共職業安定所が雇用保険の被保険者資格の取得等を確認した通知書です。",
+        actions: ["被保険者通知用の部分を本人へ交付してください。", "雇用保険料の控除を取得月の給与から開始してください。"]
+    },
+    EI_LOSS_NOTICE: {
+        summary: "公共職業安定所が雇用保険の被保険者資格の喪失を確認した通知書です。",
+        actions: ["離職等年月日と喪失原因が届出内容と一致しているか確認してください。", "被保険者通知用の部分を本人へ交付してください。"]
+    },
+    EI_SEPARATION_NOTICE: {
+        summary: "離職者が基本手当の受給手続に使う雇用保険被保険者離職票に関する書類です。",
+        actions: ["離職理由が事業主・離職者の認識と一致しているか確認してください。", "離職票を速やかに離職者へ交付してください。"]
+    },
+    CSV_SUBMISSION: {
+        summary: "電子申請で提出した届書の本体（CSV形式届書）です。届書ごとに1人1レコードで記録されています。",
+        actions: ["総括票の届書件数とレコード数が一致しているか確認してください。", "到達後に届く決定通知書と突き合わせてください。"]
+    }
+};
+
+const describeChanges = (data: UniversalData): EmployeeChange[] => {
+    if (isDocType(data, 'ACQUISITION_NOTICE') || isDocType(data, 'LOSS_NOTICE')) {
+        const isLoss = data.docType === 'LOSS_NOTICE';
+        return data.persons.map(p => ({
+            employee: p.name || p.insuredNo,
+            change: isLoss
+                ? `資格喪失 ${p.lostDate.fullJp}${p.lossReason ? `（${p.lossReason}）` : ''}`
+                : `資格取得 ${p.acquiredDate.fullJp} 標準報酬月額 健保${p.stdHealth.toLocaleString()}千円 / 厚年${p.stdPension.toLocaleString()}千円`
+        }));
+    }
+    if (isDocType(data, 'EI_ACQUISITION_NOTICE') || isDocType(data, 'EI_LOSS_NOTICE') || isDocType(data, 'EI_SEPARATION_NOTICE')) {
+        const isAcquisition = data.docType === 'EI_ACQUISITION_NOTICE';
+        return data.persons.map(p => ({
+            employee: p.name || p.insuredNo,
+            change: isAcquisition
+                ? `雇用保険 資格取得 ${p.acquiredDate.fullJp}`
+                : `雇用保険 離職 ${p.lostDate.fullJp}${p.separationReason || p.lossReason ? `（${p.separationReason || p.lossReason}）` : ''}`
+        }));
+    }
+    if (isDocType(data, 'CSV_SUBMISSION')) {
+        return data.forms.flatMap(f => f.records.map(r => ({
+            employee: ["被保険者氏名（漢字）", "被保険者氏名（カナ）", "配偶者氏名（漢字）", "被保険者整理番号"].map(c => r[f.columns.indexOf(c)]).find(v => v) || "",
+            change: f.label
+        })));
+    }
+    if (isDocType(data, 'DEPENDENT_NOTICE')) {
+        return data.dependents.map(d => ({
+            employee: d.insuredName || d.insuredNo,
+            change: `被扶養者 ${d.name}（${d.relationship}） ${d.change} ${d.changeDate.fullJp}`.trim()
+        }));
+    }
+    const isBonus = data.docType === 'BONUS_NOTICE';
+    return data.rows.map(r => {
+        const h = parseStandardAmount(r[isBonus ? "決定後の標準賞与額_健保" : "決定後の標準報酬月額_健保"]);
+        const p = parseStandardAmount(r[isBonus ? "決定後の標準賞与額_厚年" : "決定後の標準報酬月額_厚年"]);
+        return {
+            employee: normalize(r["被保険者氏名"]) || normalize(r["被保険者整理番号"]),
+            change: `${isBonus ? "標準賞与額" : "標準報酬月額"} 健保${h.toLocaleString()}千円 / 厚年${p.toLocaleString()}千円`
+        };
+    });
+};
+
+// APIキーが無い環境やテスト用のオフライン実装。解析結果のみから定型の解説を組み立てる。
+export const createOfflineExplanationProvider = (): ExplanationProvider => ({
+    id: "offline",
+    label: "オフライン（定型解説）",
+    explain: async (req) => {
+        const data = req.data;
+        if (!data) {
+            return {
+                documentSummary: "書類の種類を判別できませんでした。全項目一覧で内容を確認してください。",
+                requiredActions: [],
+                deadlines: [],
+                employeeChanges: []
+            };
+        }
+        const base = DOC_TYPE_SUMMARIES[data.docType];
+        const employeeChanges = describeChanges(data);
+        return {
+            documentSummary: `${data.title}: ${base.summary}`,
+            requiredActions: base.actions,
+            deadlines: data.creationDateJP ? [{ item: "通知日・作成日", date: data.creationDateJP }] : [],
+            employeeChanges,
+            notes: "この解説はオフラインの定型文です。Gemini APIキーを設定すると書類ごとの詳しい解説が得られます。"
+        };
+    }
+});
@@ -0,0 +1,175 @@
+import { CsvSubmissionData, DependentNoticeData, EmploymentNoticeData, QualificationNoticeData, UniversalData, XMLNode } from "../types";
+import { flattenXML, normalize, toCSV } from "../utils";
+import { HEALTH_BONUS_ANNUAL_CAP, PENSION_BONUS_MONTHLY_CAP } from "./bonusCapService";
+import { DeductionResult, DeductionRow, PremiumBreakdown } from "./calcService";
+import { COMMON_FIELDS } from "./csvSubmissionService";
+import { BUILTIN_TEMPLATES, applyTemplate } from "./templateService";
+
+// --- Export Tables ---
+// CSV・XLSX の双方で使う表データ。列ごとに型を持たせ、XLSX では数値・日付セルと書式に変換する。
+// 日付列の値は "YYYY/MM/DD" 形式の文字列で持つ。
+
+export type ExportColumnType = 'text' | 'number' | 'yen' | 'date';
+export type ExportCell = string | number;
+
+export interface ExportColumn {
+    header: string;
+    type: ExportColumnType;
+    width?: number;
+}
+
+export interface ExportTable {
+    name: string;
+    columns: ExportColumn[];
+    rows: ExportCell[][];
+}
+
+const col = (header: string, type: ExportColumnType = 'text', width?: number): ExportColumn => ({ header, type, width });
+
+export const getRowNotes = (r: DeductionRow): string[] => [
+    ...(!r.eligibility.health ? ["健保対象外"] : []),
+    ...(!r.eligibility.pension ? ["厚年対象外"] : []),
+    ...r.boundaries.map(b => `${b.label} ${b.yearMonth.replace('-', '/')}`),
+    ...(r.bonusCap?.healthCapped ? [`健保年度上限適用(${r.bonusCap.fiscalYear}年度累計${(HEALTH_BONUS_ANNUAL_CAP / 10000).toLocaleString()}万円)`] : []),
+    ...(r.bonusCap?.pensionCapped ? [`厚年月上限適用(${(PENSION_BONUS_MONTHLY_CAP / 10000).toLocaleString()}万円)`] : []),
+    ...(r.bonusCap?.payDateUnknown ? ["支払年月日不明のため賞与上限未判定"] : [])
+];
+
+export const noticeTable = (data: UniversalData, name: string = data.title): ExportTable =>
+    applyTemplate(data, BUILTIN_TEMPLATES[0], name);
+
+export const calculatorTable = (result: DeductionResult, name: string): ExportTable => {
+    const line = (b: PremiumBreakdown, withChildcare: boolean) => withChildcare
+        ? [b.health, b.nursing, b.pension, b.childcare, b.total]
+        : [b.health, b.nursing, b.pension, b.total];
+    const t = result.totals;
+    return {
+        name,
+        columns: [
+            col("整理番号", 'text', 10), col("氏名", 'text', 20), col("年齢", 'number', 6), col("健保標準額", 'yen', 14), col("厚年標準額", 'yen', 14),
+            col("本人_健保", 'yen'), col("本人_介護", 'yen'), col("本人_厚年", 'yen'), col("本人計", 'yen'),
+            col("事業主_健保", 'yen'), col("事業主_介護", 'yen'), col("事業主_厚年", 'yen'), col("事業主_子ども子育て拠出金", 'yen'), col("事業主計", 'yen'),
+            col("備考", 'text', 40)
+        ],
+        rows: [
+            ...result.rows.map(r => [r.insuredNo, r.name, r.age, r.stdHealth, r.stdPension, ...line(r.employee, false), ...line(r.employer, true), getRowNotes(r).join(" / ")]),
+            ["", "合計", "", t.stdHealth, t.stdPension, ...line(t.employee, false), ...line(t.employer, true), ""],
+            ["", "納入告知額", "", "", "", "", "", "", "", ...line(t.notice, true), ""]
+        ]
+    };
+};
+
+// 帳票形式の書類は「項目・値」の縦持ちで出力する
+const keyValueTable = (name: string, pairs: [string, ExportCell][]): ExportTable => ({
+    name,
+    columns: [col("項目", 'text', 28), col("値", 'text', 60)],
+    rows: pairs
+});
+
+export const summaryTable = (data: UniversalData, name: string = data.title): ExportTable => keyValueTable(name, [
+    ["書類", data.title],
+    ["提出元ID", data.idInfoPrefix || ""],
+    ["通番", data.idInfoSuffix || ""],
+    ["作成年月日", data.creationDateJP || ""],
+    ["提出年月日", data.submissionDateJP || ""],
+    ["事業所整理記号", [data.officeRegistry?.pref, data.officeRegistry?.dist, data.officeRegistry?.code].filter(Boolean).join("-")],
+    ["事業所番号", data.officeNo || ""],
+    ["郵便番号", [data.zipCodePrefix, data.zipCodeSuffix].filter(Boolean).join("-")],
+    ["事業所所在地", data.address || ""],
+    ["事業所名称", data.companyName || ""],
+    ["事業主氏名", data.ownerName || ""],
+    ["電話番号", [data.phone?.area, data.phone?.city, data.phone?.num].filter(Boolean).join("-")],
+    ["添付書類", [data.attachmentStatus?.mail ? "郵送" : "", data.attachmentStatus?.elec ? "電子" : "", data.attachmentStatus?.none ? "なし" : ""].filter(Boolean).join("・")],
+    ["通知書希望形式", data.paperNoticeDesired ? "紙" : "電子"],
+    ["提出代行者名", data.proxyName || ""],
+    ["備考", data.remarks || ""],
+    ...Object.entries(data.counts || {}).map(([k, v]) => [`届書件数_${k}`, normalize(v)] as [string, ExportCell])
+]);
+
+export const announcementTable = (data: UniversalData, name: string = data.title): ExportTable => keyValueTable(name, [
+    ["表題", data.title],
+    ["文書番号", data.docNo || ""],
+    ["日付", data.creationDateJP || ""],
+    ["宛先", [data.recipient?.aff, data.recipient?.name, data.recipient?.honorific].filter(Boolean).join(" ")],
+    ["発信者", [data.senderAff, data.senderName].filter(Boolean).join(" ")],
+    ...(data.mainText || []).map((p, i) => [`本文${i + 1}`, p] as [string, ExportCell]),
+    ...(data.appendices || []).map((a, i) => [`別添${i + 1}`, [a.title, a.text].filter(Boolean).join("\n")] as [string, ExportCell])
+]);
+
+// 資格取得・喪失確認通知書。取得の通知書は喪失欄、喪失の通知書は標準報酬月額欄を持たない
+export const qualificationTable = (data: QualificationNoticeData, name: string = data.title): ExportTable => {
+    const isLoss = data.docType === 'LOSS_NOTICE';
+    return {
+        name,
+        columns: [
+            col("整理番号", 'text', 10), col("氏名", 'text', 20), col("カナ氏名", 'text', 20), col("生年月日", 'date', 12), col("基礎年金番号", 'text', 14), col("種別", 'text', 8),
+            ...(isLoss
+                ? [col("資格喪失年月日", 'date', 14), col("喪失原因", 'text', 30)]
+                : [col("資格取得年月日", 'date', 14), col("健保標準報酬月額", 'yen', 14), col("厚年標準報酬月額", 'yen', 14)])
+        ],
+        rows: data.persons.map(p => [
+            p.insuredNo, p.name, p.kanaName, p.birthDate.ad, p.pensionNo, p.kind,
+            ...(isLoss ? [p.lostDate.ad, p.lossReason] : [p.acquiredDate.ad, p.stdHealth * 1000, p.stdPension * 1000])
+        ])
+    };
+};
+
+export const dependentTable = (data: DependentNoticeData, name: string = data.title): ExportTable => ({
+    name,
+    columns: [
+        col("被保険者整理番号", 'text', 10), col("被保険者氏名", 'text', 20), col("被扶養者氏名", 'text', 20), col("カナ氏名", 'text', 20), col("続柄", 'text', 8),
+        col("生年月日", 'date', 12), col("異動区分", 'text', 10), col("異動年月日", 'date', 12), col("理由", 'text', 24), col("基礎年金番号", 'text', 14)
+    ],
+    rows: data.dependents.map(d => [d.insuredNo, d.insuredName, d.name, d.kanaName, d.relationship, d.birthDate.ad, d.change, d.changeDate.ad, d.reason, d.pensionNo])
+});
+
+// 雇用保険の通知書。取得等確認通知書は取得年月日、喪失確認通知書・離職票は離職等年月日と理由を出す
+export const employmentTable = (data: EmploymentNoticeData, name: string = data.title): ExportTable => {
+    const isAcquisition = data.docType === 'EI_ACQUISITION_NOTICE';
+    return {
+        name,
+        columns: [
+            col("事業所番号", 'text', 14), col("被保険者番号", 'text', 14), col("氏名", 'text', 20), col("カナ氏名", 'text', 20), col("生年月日", 'date', 12),
+            ...(isAcquisition
+                ? [col("資格取得年月日", 'date', 14)]
+                : [col("資格取得年月日", 'date', 14), col("離職等年月日", 'date', 14), col("喪失原因", 'text', 20), col("離職理由", 'text', 40)])
+        ],
+        rows: data.persons.map(p => [
+            data.officeNo, p.insuredNo, p.name, p.kanaName, p.birthDate.ad,
+            ...(isAcquisition ? [p.acquiredDate.ad] : [p.acquiredDate.ad, p.lostDate.ad, p.lossReason, p.separationReason])
+        ])
+    };
+};
+
+const CSV_NAME_COLUMNS = ["被保険者氏名（漢字）", "被保険者氏名（カナ）", "配偶者氏名（漢字）"];
+
+// 様式ごとにレイアウトが異なるため、整理番号・氏名以外の項目は「項目名=値」でまとめて1列に入れる
+export const csvSubmissionTable = (data: CsvSubmissionData, name: string = data.title): ExportTable => ({
+    name,
+    columns: [col("様式コード", 'text', 10), col("様式", 'text', 40), col("被保険者整理番号", 'text', 12), col("被保険者氏名", 'text', 20), col("内容", 'text', 80)],
+    rows: data.forms.flatMap(f => f.records.map(r => {
+        const at = (label: string) => r[f.columns.indexOf(label)] || "";
+        const nameCol = CSV_NAME_COLUMNS.find(c => at(c));
+        const rest = f.columns.map((c, i) => [c, r[i] || ""]).slice(COMMON_FIELDS.length).filter(([c, v]) => v && c !== nameCol).map(([c, v]) => `${c}=${v}`);
+        return [f.code, f.label, at("被保険者整理番号"), nameCol ? at(nameCol) : "", rest.join(" / ")];
+    }))
+});
+
+// 出力する表を持たない種類の書類は、行の項目名をそのまま列にする
+export const rowsTable = (data: UniversalData, name: string = data.title): ExportTable => {
+    const headers = Array.from(new Set(data.rows.flatMap(r => Object.keys(r))));
+    return {
+        name,
+        columns: headers.map(h => col(h)),
+        rows: data.rows.map(r => headers.map(h => normalize(r[h])))
+    };
+};
+
+export const allFieldsTable = (parsed: XMLNode, name: string): ExportTable => ({
+    name,
+    columns: [col("パス", 'text', 70), col("値", 'text', 50)],
+    rows: flattenXML(parsed).map(r => [r.path, r.value])
+});
+
+export const tableToCSV = (table: ExportTable): string =>
+    toCSV([table.columns.map(c => c.header), ...table.rows]);
@@ -1 +1,60 @@
-// Consolidated into index.tsx
\ No newline at end of file
+import { GoogleGenAI, Type } from "@google/genai";
+import { DocumentExplanation, ExplanationProvider, buildExplanationPrompt } from "./explanationService";
+
+// --- Gemini Provider ---
+
+const GEMINI_MODEL = "gemini-2.5-flash";
+
+const explanationSchema = {
+    type: Type.OBJECT,
+    properties: {
+        documentSummary: { type: Type.STRING },
+        requiredActions: { type: Type.ARRAY, items: { type: Type.STRING } },
+        deadlines: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { item: { type: Type.STRING }, date: { type: Type.STRING } },
+                required: ["item", "date"]
+            }
+        },
+        employeeChanges: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { employee: { type: Type.STRING }, change: { type: Type.STRING } },
+                required: ["employee", "change"]
+            }
+        },
+        notes: { type: Type.STRING }
+    },
+    required: ["documentSummary", "requiredActions", "deadlines", "employeeChanges"]
+};
+
+export const createGeminiProvider = (apiKey: string): ExplanationProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        id: "gemini",
+        label: `Gemini (${GEMINI_MODEL})`,
+        explain: async (req) => {
+            const response = await ai.models.generateContent({
+                model: GEMINI_MODEL,
+                contents: buildExplanationPrompt(req),
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: explanationSchema
+                }
+            });
+            const text = response.text;
+            if (!text) throw new Error("Geminiから応答がありませんでした");
+            const parsed = JSON.parse(text) as Partial<DocumentExplanation>;
+            return {
+                documentSummary: parsed.documentSummary || "",
+                requiredActions: parsed.requiredActions || [],
+                deadlines: parsed.deadlines || [],
+                employeeChanges: parsed.employeeChanges || [],
+                notes: parsed.notes
+            };
+        }
+    };
+};
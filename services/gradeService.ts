@@ -0,0 +1,93 @@
+import { todayYmd } from "./eligibilityService";
+
+// --- Standard Remuneration Grades ---
+// 健康保険・厚生年金保険の標準報酬月額等級表。等級の追加・上限の引上げがあるため、
+// 料率表と同じく各版を適用開始年月（YYYY-MM）で管理し、対象月以前で最新の版を採用する。
+// 額・報酬月額の範囲は円単位。範囲は下限以上・上限未満で、最上位等級は上限なし。
+
+export type InsuranceKind = 'health' | 'pension';
+
+export const INSURANCE_KIND_LABELS: Record<InsuranceKind, string> = {
+    health: "健康保険",
+    pension: "厚生年金"
+};
+
+export interface Grade {
+    grade: number;
+    amount: number;
+    lower: number;
+    upper: number | null;
+}
+
+export interface GradeTableVersion {
+    kind: InsuranceKind;
+    effectiveFrom: string;
+    label: string;
+    grades: Grade[];
+}
+
+// 標準報酬月額と、その額になる報酬月額の下限（千円）。健康保険の全等級を並べ、各版はこの一部を使う
+const BANDS: [number, number][] = [
+    [58, 0], [68, 63], [78, 73], [88, 83], [98, 93], [104, 101], [110, 107], [118, 114], [126, 122], [134, 130],
+    [142, 138], [150, 146], [160, 155], [170, 165], [180, 175], [190, 185], [200, 195], [220, 210], [240, 230], [260, 250],
+    [280, 270], [300, 290], [320, 310], [340, 330], [360, 350], [380, 370], [410, 395], [440, 425], [470, 455], [500, 485],
+    [530, 515], [560, 545], [590, 575], [620, 605], [650, 635], [680, 665], [710, 695], [750, 730], [790, 770], [830, 810],
+    [880, 855], [930, 905], [980, 955], [1030, 1005], [1090, 1055], [1150, 1115], [1210, 1175], [1270, 1235], [1330, 1295], [1390, 1355]
+];
+
+// min～max（千円）の等級を1級から振り直す。最下位は下限なし、最上位は上限なしになる
+const gradesBetween = (min: number, max: number): Grade[] => {
+    const bands = BANDS.filter(([amount]) => amount >= min && amount <= max);
+    return bands.map(([amount, lower], i) => ({
+        grade: i + 1,
+        amount: amount * 1000,
+        lower: i === 0 ? 0 : lower * 1000,
+        upper: i === bands.length - 1 ? null : bands[i + 1][1] * 1000
+    }));
+};
+
+export const GRADE_TABLES: GradeTableVersion[] = [
+    { kind: 'health', effectiveFrom: "2007-04", label: "平成19年4月～（47等級）", grades: gradesBetween(58, 1210) },
+    { kind: 'health', effectiveFrom: "2016-04", label: "平成28年4月～（50等級）", grades: gradesBetween(58, 1390) },
+    { kind: 'pension', effectiveFrom: "2000-10", label: "平成12年10月～（30等級）", grades: gradesBetween(98, 620) },
+    { kind: 'pension', effectiveFrom: "2016-10", label: "平成28年10月～（31等級）", grades: gradesBetween(88, 620) },
+    { kind: 'pension', effectiveFrom: "2020-09", label: "令和2年9月～（32等級）", grades: gradesBetween(88, 650) },
+    // 令和7年の年金制度改正法による上限の段階的な引上げ
+    { kind: 'pension', effectiveFrom: "2027-09", label: "令和9年9月～（33等級）", grades: gradesBetween(88, 680) },
+    { kind: 'pension', effectiveFrom: "2028-09", label: "令和10年9月～（34等級）", grades: gradesBetween(88, 710) },
+    { kind: 'pension', effectiveFrom: "2029-09", label: "令和11年9月～（35等級）", grades: gradesBetween(88, 750) }
+];
+
+const currentYearMonth = () => {
+    const t = todayYmd();
+    return `${t.y}-${String(t.m).padStart(2, '0')}`;
+};
+
+// yearMonth が空なら今月時点の版
+export const findGradeTable = (kind: InsuranceKind, yearMonth: string = ""): GradeTableVersion => {
+    const ym = yearMonth || currentYearMonth();
+    const sorted = GRADE_TABLES.filter(v => v.kind === kind).sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    return sorted.filter(v => v.effectiveFrom <= ym).pop() || sorted[0];
+};
+
+// 標準報酬月額（円）から等級を引く。どの等級の額でもなければ undefined
+export const gradeForAmount = (kind: InsuranceKind, amount: number, yearMonth?: string): Grade | undefined =>
+    findGradeTable(kind, yearMonth).grades.find(g => g.amount === amount);
+
+// 報酬月額（円）が当てはまる等級
+export const gradeForSalary = (kind: InsuranceKind, salary: number, yearMonth?: string): Grade => {
+    const grades = findGradeTable(kind, yearMonth).grades;
+    return grades.find(g => salary >= g.lower && (g.upper === null || salary < g.upper)) || grades[0];
+};
+
+export const isStandardMonthlyAmount = (kind: InsuranceKind, amount: number, yearMonth?: string) =>
+    !!gradeForAmount(kind, amount, yearMonth);
+
+// 健康保険の標準報酬月額（円）に対応する厚生年金の額。厚生年金の等級の範囲外は下限・上限にそろう
+export const pensionAmountForHealth = (health: number, yearMonth?: string) => {
+    const grades = findGradeTable('pension', yearMonth).grades;
+    return Math.min(Math.max(health, grades[0].amount), grades[grades.length - 1].amount);
+};
+
+export const formatGradeRange = (g: Grade) =>
+    `${g.lower > 0 ? `${g.lower.toLocaleString()}円以上` : ''}${g.upper !== null ? `${g.upper.toLocaleString()}円未満` : ''}`;
@@ -0,0 +1,105 @@
+import { CaseEntry } from "../types";
+import { getRowDate, normalize } from "../utils";
+import { getStandardAmounts } from "./calcService";
+
+// --- Standard Remuneration History ---
+// 通知書1件は決定時点のスナップショットなので、読み込み済みの全案件から被保険者ごとに決定履歴を組み立てる。
+// 被保険者整理番号は事業所内でしか一意でないため、事業所整理記号と組にして被保険者を見分ける。
+
+export type HistoryKind = '取得' | '算定' | '月変' | '賞与' | '決定';
+
+export interface HistoryEvent {
+    dateAD: string;
+    dateJP: string;
+    kind: HistoryKind;
+    health: number;
+    pension: number;
+    caseIdx: number;
+    fileIdx: number;
+    rowIdx: number;
+    folderName: string;
+    fileName: string;
+}
+
+export interface EmployeeHistory {
+    // 事業所整理記号と被保険者整理番号の組（historyKey）
+    key: string;
+    officeRegistry: string;
+    insuredNo: string;
+    name: string;
+    kanaName: string;
+    monthly: HistoryEvent[];
+    bonus: HistoryEvent[];
+}
+
+const MONTHLY_DATE_PREFIXES = ["適用年月", "適用年月日", "改定年月", "資格取得年月日"];
+const BONUS_DATE_PREFIXES = ["賞与支払年月日", "賞与支払年月"];
+
+// 通知書の項目名・値から決定の契機を推定する（資格取得時決定・定時決定・随時改定）
+const inferKind = (row: Record<string, any>, isBonus: boolean): HistoryKind => {
+    if (isBonus) return '賞与';
+    const text = Object.entries(row).map(([k, v]) => `${k}=${v ?? ""}`).join("|");
+    if (/資格取得|取得時決定/.test(text)) return '取得';
+    if (/随時改定|月額変更|月変/.test(text)) return '月変';
+    if (/定時決定|算定/.test(text)) return '算定';
+    return '決定';
+};
+
+export const historyKey = (officeRegistry: string | undefined, insuredNo: string) => `${normalize(officeRegistry)}|${normalize(insuredNo)}`;
+
+export const buildEmployeeHistories = (cases: CaseEntry[]): EmployeeHistory[] => {
+    const map = new Map<string, EmployeeHistory>();
+    cases.forEach((c, caseIdx) => c.files.forEach((f, fileIdx) => {
+        const data = f.analysis;
+        if (!data || (data.docType !== 'NOTICE' && data.docType !== 'BONUS_NOTICE' && data.docType !== 'ACQUISITION_NOTICE')) return;
+        const isBonus = data.docType === 'BONUS_NOTICE';
+        const officeRegistry = normalize(data.officeRegistryNotice);
+        data.rows.forEach((r, rowIdx) => {
+            const insuredNo = normalize(r["被保険者整理番号"]);
+            if (!insuredNo) return;
+            // 資格取得確認通知書は資格取得時決定の標準報酬月額がある行だけを履歴にする
+            if (data.docType === 'ACQUISITION_NOTICE' && !r["決定後の標準報酬月額_健保"] && !r["決定後の標準報酬月額_厚年"]) return;
+            const key = historyKey(officeRegistry, insuredNo);
+            if (!map.has(key)) map.set(key, { key, officeRegistry, insuredNo, name: "", kanaName: "", monthly: [], bonus: [] });
+            const h = map.get(key)!;
+            h.name = h.name || normalize(r["被保険者漢字氏名"] || r["被保険者氏名_漢字"] || r["被保険者氏名"]);
+            h.kanaName = h.kanaName || normalize(r["被保険者カナ氏名"] || r["被保険者氏名_カナ"]);
+            const date = getRowDate(r, isBonus ? BONUS_DATE_PREFIXES : MONTHLY_DATE_PREFIXES);
+            const amounts = getStandardAmounts(r, isBonus);
+            (isBonus ? h.bonus : h.monthly).push({
+                dateAD: date.ad,
+                dateJP: date.jp,
+                kind: inferKind(r, isBonus),
+                health: amounts.health,
+                pension: amounts.pension,
+                caseIdx,
+                fileIdx,
+                rowIdx,
+                folderName: c.folderName,
+                fileName: f.name
+            });
+        });
+    }));
+    const byDate = (a: HistoryEvent, b: HistoryEvent) => a.dateAD.localeCompare(b.dateAD);
+    return Array.from(map.values())
+        .map(h => ({ ...h, monthly: h.monthly.sort(byDate), bonus: h.bonus.sort(byDate) }))
+        .sort((a, b) => a.officeRegistry.localeCompare(b.officeRegistry) || a.insuredNo.localeCompare(b.insuredNo, undefined, { numeric: true }));
+};
+
+// 前回決定からの増減
+export const monthlyDelta = (events: HistoryEvent[], idx: number) => {
+    if (idx === 0) return { health: 0, pension: 0 };
+    const prev = events[idx - 1];
+    return { health: events[idx].health - prev.health, pension: events[idx].pension - prev.pension };
+};
+
+export const historyCSVRows = (histories: EmployeeHistory[]): (string | number)[][] => [
+    ["事業所整理記号", "整理番号", "氏名", "カナ氏名", "区分", "適用年月/支払日", "和暦", "健保標準額", "厚年標準額", "健保増減", "厚年増減", "案件", "ファイル"],
+    ...histories.flatMap(h => [
+        ...h.monthly.map((e, i) => {
+            const d = monthlyDelta(h.monthly, i);
+            return [h.officeRegistry, h.insuredNo, h.name, h.kanaName, e.kind, e.dateAD, e.dateJP, e.health, e.pension, i === 0 ? "" : d.health, i === 0 ? "" : d.pension, e.folderName, e.fileName];
+        }),
+        ...h.bonus.map(e => [h.officeRegistry, h.insuredNo, h.name, h.kanaName, e.kind, e.dateAD, e.dateJP, e.health, e.pension, "", "", e.folderName, e.fileName])
+    ])
+];
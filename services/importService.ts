@@ -0,0 +1,81 @@
+import JSZip from "jszip";
+import { AppFile, StylesheetAsset } from "../types";
+import { buildAppFile } from "./documentService";
+import { decodeBytes, decodeFileNameBytes, detectEncoding } from "./encodingService";
+
+// --- Import Tasks ---
+// アップロードの処理単位。ZIP の展開と、XML・XSL 1ファイルごとの解析を別々のタスクにして Worker に振り分ける。
+
+export interface ArchiveEntry {
+    path: string;
+    raw: Uint8Array;
+    rawName?: Uint8Array;
+}
+
+export type ImportTask =
+    | { type: 'unzip', name: string, bytes: ArrayBuffer }
+    | { type: 'xml', path: string, raw: Uint8Array, rawName?: Uint8Array }
+    | { type: 'xsl', path: string, raw: Uint8Array };
+
+export type ImportResult =
+    | { type: 'unzip', entries: ArchiveEntry[] }
+    | { type: 'xml', file: AppFile }
+    | { type: 'xsl', asset: StylesheetAsset };
+
+export const isStylesheetPath = (path: string) => /\.xslt?$/i.test(path);
+export const isXMLPath = (path: string) => /\.xml$/i.test(path);
+export const isCSVPath = (path: string) => /\.csv$/i.test(path);
+// 書類として読むファイル（XML と CSV 形式届書）。どちらも 'xml' タスクで AppFile にする
+export const isDocumentPath = (path: string) => isXMLPath(path) || isCSVPath(path);
+
+// ZIP 内のフォルダ名を案件名にする。フォルダの無いファイルは "一括" にまとめる
+export const caseFolderOf = (path: string) => path.split('/')[0] || "一括";
+
+// 解析対象（XML・CSV・XSL）だけを取り出す。ファイル名は UTF-8 フラグの無い Shift_JIS 名にも対応する
+const unzip = async (bytes: ArrayBuffer): Promise<ArchiveEntry[]> => {
+    const nameBytes = new Map<string, Uint8Array>();
+    const zip = await new JSZip().loadAsync(bytes, {
+        decodeFileName: (b) => {
+            // Uint8Array の使えない環境では配列で渡される（型定義上は string[]）。要素をバイト値として読む
+            const arr = b instanceof Uint8Array ? b : Uint8Array.from(b, Number);
+            const decoded = decodeFileNameBytes(arr);
+            nameBytes.set(decoded, arr);
+            return decoded;
+        }
+    });
+    const entries: ArchiveEntry[] = [];
+    for (const p of Object.keys(zip.files)) {
+        if (zip.files[p].dir || !(isDocumentPath(p) || isStylesheetPath(p))) continue;
+        entries.push({ path: p, raw: await zip.files[p].async('uint8array'), rawName: nameBytes.get(p) });
+    }
+    return entries;
+};
+
+export const runImportTask = async (task: ImportTask): Promise<ImportResult> => {
+    if (task.type === 'unzip') return { type: 'unzip', entries: await unzip(task.bytes) };
+    if (task.type === 'xsl') {
+        return {
+            type: 'xsl',
+            asset: { name: task.path.split('/').pop() || task.path, fullPath: task.path, content: decodeBytes(task.raw, detectEncoding(task.raw).encoding) }
+        };
+    }
+    return { type: 'xml', file: buildAppFile(task.path, task.raw, task.rawName) };
+};
+
+const viewsOf = (value: ImportTask | ImportResult): (Uint8Array | undefined)[] => {
+    if ('entries' in value) return value.entries.flatMap(e => [e.raw, e.rawName]);
+    if ('file' in value) return [value.file.raw, value.file.rawName];
+    if ('raw' in value) return [value.raw, value.type === 'xml' ? value.rawName : undefined];
+    return [];
+};
+
+// postMessage で複製せずに受け渡すバッファ。ZIP 全体を指すビューを渡すと他のエントリまで使えなくなるため、
+// バッファ全体を占めるビューだけを対象にする
+export const transferablesOf = (value: ImportTask | ImportResult): ArrayBuffer[] => {
+    const buffers = new Set<ArrayBuffer>();
+    viewsOf(value).forEach(v => {
+        if (v && v.byteOffset === 0 && v.byteLength === v.buffer.byteLength) buffers.add(v.buffer as ArrayBuffer);
+    });
+    if ('bytes' in value) buffers.add(value.bytes);
+    return Array.from(buffers);
+};
@@ -0,0 +1,212 @@
+import { AppFile, CaseEntry, StylesheetAsset } from "../types";
+import { flattenXML, normalize } from "../utils";
+
+// --- Document Library ---
+// 読み込んだ案件を IndexedDB に保存する。一覧表示用のメタ情報（cases）と、元バイト列・解析結果を含む本体（payloads）を
+// 別ストアに分け、ライブラリ画面では本体を読まずに一覧できるようにする。
+
+export interface StoredFileMeta {
+    name: string;
+    title: string;
+    arrivalNumber: string;
+    hash: string;
+}
+
+export interface StoredCaseMeta {
+    id: string;
+    folderName: string;
+    companyName: string;
+    officeRegistry: string;
+    arrivalDate: string;
+    savedAt: string;
+    lastOpenedAt: string;
+    files: StoredFileMeta[];
+}
+
+interface StoredPayload {
+    id: string;
+    files: AppFile[];
+    stylesheets: StylesheetAsset[];
+}
+
+export interface SaveResult {
+    id?: string;
+    duplicateOf?: StoredCaseMeta;
+    duplicateFiles: number;
+}
+
+const DB_NAME = "egov-xml-library";
+const DB_VERSION = 1;
+const META_STORE = "cases";
+const PAYLOAD_STORE = "payloads";
+const SETTINGS_KEY = "egov-xml-library-settings";
+
+export const RETENTION_OPTIONS: { days: number, label: string }[] = [
+    { days: 0, label: "無期限" },
+    { days: 30, label: "30日" },
+    { days: 90, label: "90日" },
+    { days: 180, label: "180日" },
+    { days: 365, label: "1年" }
+];
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const done = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') { reject(new Error("IndexedDBを利用できません")); return; }
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                const db = req.result;
+                if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "id" });
+                if (!db.objectStoreNames.contains(PAYLOAD_STORE)) db.createObjectStore(PAYLOAD_STORE, { keyPath: "id" });
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+    const digest = await crypto.subtle.digest("SHA-256", new Uint8Array(bytes));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// 到達番号は通知書では解析結果に、それ以外の書類では XML のどこかの「到達番号」要素にある
+const findArrivalNumber = (f: AppFile): string => {
+    if (f.analysis?.arrivalNumber) return normalize(f.analysis.arrivalNumber);
+    if (!f.parsed) return "";
+    const hit = flattenXML(f.parsed).find(r => /到達番号[^/]*$/.test(r.path) && r.value);
+    return hit ? normalize(hit.value) : "";
+};
+
+const findArrivalDate = (files: AppFile[]): string => {
+    for (const f of files) {
+        if (!f.parsed) continue;
+        const hit = flattenXML(f.parsed).find(r => /(到達日時|到達年月日|到達日)[^/]*$/.test(r.path) && r.value);
+        if (hit) return normalize(hit.value);
+    }
+    const a = files.find(f => f.analysis?.creationDateJP)?.analysis;
+    return a?.creationDateJP || "";
+};
+
+const describeCase = async (entry: CaseEntry, id: string, savedAt: string): Promise<StoredCaseMeta> => {
+    const analyzed = entry.files.flatMap(f => f.analysis ? [f.analysis] : []);
+    const reg = analyzed.find(a => a.officeRegistry?.code)?.officeRegistry;
+    return {
+        id,
+        folderName: entry.folderName,
+        companyName: normalize(analyzed.find(a => a.companyName)?.companyName),
+        officeRegistry: normalize(analyzed.find(a => a.officeRegistryNotice)?.officeRegistryNotice)
+            || (reg ? [reg.pref, reg.dist, reg.code].filter(Boolean).join("-") : ""),
+        arrivalDate: findArrivalDate(entry.files),
+        savedAt,
+        lastOpenedAt: savedAt,
+        files: await Promise.all(entry.files.map(async f => ({
+            name: f.name,
+            title: f.analysis?.title || "",
+            arrivalNumber: findArrivalNumber(f),
+            hash: f.raw ? await hashBytes(f.raw) : ""
+        })))
+    };
+};
+
+export const listStoredCases = async (): Promise<StoredCaseMeta[]> => {
+    const db = await openDB();
+    const list = await request(db.transaction(META_STORE).objectStore(META_STORE).getAll()) as StoredCaseMeta[];
+    return list.sort((a, b) => b.lastOpenedAt.localeCompare(a.lastOpenedAt));
+};
+
+// 全ファイルが到達番号または内容ハッシュで既存の案件と一致する場合は保存せず、その案件を返す
+export const saveCase = async (entry: CaseEntry): Promise<SaveResult> => {
+    const now = new Date().toISOString();
+    const id = entry.libraryId || `case-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const meta = await describeCase(entry, id, now);
+    const existing = (await listStoredCases()).filter(c => c.id !== id);
+    const isDup = (f: StoredFileMeta) => existing.find(c => c.files.some(x => (f.hash && x.hash === f.hash) || (f.arrivalNumber && x.arrivalNumber === f.arrivalNumber)));
+    const dupOwners = meta.files.map(isDup);
+    const duplicateFiles = dupOwners.filter(Boolean).length;
+    if (!entry.libraryId && meta.files.length > 0 && duplicateFiles === meta.files.length) {
+        await touchCase(dupOwners[0]!.id);
+        return { duplicateOf: dupOwners[0], duplicateFiles };
+    }
+    const db = await openDB();
+    const tx = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+    const prev = entry.libraryId ? await request(tx.objectStore(META_STORE).get(id)) as StoredCaseMeta | undefined : undefined;
+    tx.objectStore(META_STORE).put(prev ? { ...meta, savedAt: prev.savedAt } : meta);
+    tx.objectStore(PAYLOAD_STORE).put({ id, files: entry.files, stylesheets: entry.stylesheets } as StoredPayload);
+    await done(tx);
+    return { id, duplicateFiles };
+};
+
+export const loadCase = async (id: string): Promise<CaseEntry | null> => {
+    const db = await openDB();
+    const tx = db.transaction([META_STORE, PAYLOAD_STORE]);
+    const [meta, payload] = await Promise.all([
+        request(tx.objectStore(META_STORE).get(id)) as Promise<StoredCaseMeta | undefined>,
+        request(tx.objectStore(PAYLOAD_STORE).get(id)) as Promise<StoredPayload | undefined>
+    ]);
+    if (!meta || !payload) return null;
+    await touchCase(id);
+    return { folderName: meta.folderName, files: payload.files, stylesheets: payload.stylesheets, isOpen: true, libraryId: id };
+};
+
+export const touchCase = async (id: string) => {
+    const db = await openDB();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    const meta = await request(tx.objectStore(META_STORE).get(id)) as StoredCaseMeta | undefined;
+    if (meta) tx.objectStore(META_STORE).put({ ...meta, lastOpenedAt: new Date().toISOString() });
+    await done(tx);
+};
+
+export const deleteCase = async (id: string) => {
+    const db = await openDB();
+    const tx = db.transaction([META_STORE, PAYLOAD_STORE], 'readwrite');
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(PAYLOAD_STORE).delete(id);
+    await done(tx);
+};
+
+export interface LibrarySettings {
+    retentionDays: number;
+    autoSave: boolean;
+}
+
+export const loadLibrarySettings = (): LibrarySettings => {
+    try {
+        const raw = localStorage.getItem(SETTINGS_KEY);
+        return { retentionDays: 0, autoSave: true, ...(raw ? JSON.parse(raw) : {}) };
+    } catch {
+        return { retentionDays: 0, autoSave: true };
+    }
+};
+
+export const saveLibrarySettings = (settings: LibrarySettings) => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch {
+        // ストレージが使えない環境ではメモリ上のみで保持する
+    }
+};
+
+// 最後に開いた日時が保存期間を過ぎた案件を削除し、削除件数を返す
+export const pruneCases = async (retentionDays: number): Promise<number> => {
+    if (!retentionDays) return 0;
+    const limit = new Date(Date.now() - retentionDays * 86400000).toISOString();
+    const expired = (await listStoredCases()).filter(c => c.lastOpenedAt < limit);
+    for (const c of expired) await deleteCase(c.id);
+    return expired.length;
+};
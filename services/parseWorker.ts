@@ -0,0 +1,16 @@
+import { ImportTask, runImportTask, transferablesOf } from "./importService";
+
+// --- Import Worker ---
+// メインスレッドから受け取ったタスクを1件ずつ処理し、同じ id を付けて結果を返す。
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (e: MessageEvent<{ id: number, task: ImportTask }>) => {
+    const { id, task } = e.data;
+    try {
+        const result = await runImportTask(task);
+        scope.postMessage({ id, result }, transferablesOf(result));
+    } catch (err: any) {
+        scope.postMessage({ id, error: err?.message || String(err) });
+    }
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { RATE_VERSION_MISSING_LABEL, findRateVersion, resolveRates } from "./rateService";
+
+const resolve = (yearMonth: string, overrides = {}) =>
+    resolveRates({ prefCode: "13", yearMonth, insurerId: "kyokai", customInsurers: [], overrides });
+
+describe("findRateVersion", () => {
+    it.each([
+        ["2024-02", undefined],
+        ["2024-03", "2024-03"],
+        ["2025-02", "2024-03"],
+        ["2025-03", "2025-03"],
+        ["", "2025-03"]
+    ])("%s は %s 版", (ym, expected) => {
+        expect(findRateVersion(ym)?.effectiveFrom).toBe(expected);
+    });
+});
+
+describe("resolveRates", () => {
+    it("料率表より前の年月は別の年度の料率を使わない", () => {
+        const r = resolve("2023-10");
+        expect(r.versionLabel).toBe(RATE_VERSION_MISSING_LABEL);
+        expect(r.unavailable).toEqual(['health', 'pension', 'nursing', 'childcare']);
+    });
+
+    it("手入力した料率は料率表に無い年度でも使う", () => {
+        const r = resolve("2023-10", { health: 10, pension: 18.3, nursing: 1.82, childcare: 0.36 });
+        expect(r.unavailable).toEqual([]);
+        expect(r.health).toBe(10);
+    });
+
+    it("料率表の年度内は都道府県の料率になる", () => {
+        expect(resolve("2024-04")).toMatchObject({ health: 9.98, nursing: 1.6, unavailable: [] });
+    });
+});
@@ -0,0 +1,166 @@
+import { normalize } from "../utils";
+
+// --- Insurance Rate Tables ---
+// 協会けんぽの都道府県別保険料率は毎年3月分（4月納付分）から改定されるため、
+// 各版は適用開始年月（YYYY-MM）で管理し、対象月以前で最新の版を採用する。
+// 最も古い版より前の月は該当する版が無いものとして扱い、別の年度の料率では計算しない。
+
+export interface InsuranceRates {
+    health: number;
+    pension: number;
+    nursing: number;
+    childcare: number;
+}
+
+export interface RateTableVersion {
+    effectiveFrom: string;
+    label: string;
+    pension: number;
+    nursing: number;
+    childcare: number;
+    health: Record<string, number>;
+}
+
+export interface CustomInsurer {
+    id: string;
+    name: string;
+    effectiveFrom: string;
+    health: number;
+    nursing: number;
+    pension?: number;
+}
+
+export interface ResolvedRates extends InsuranceRates {
+    insurerName: string;
+    prefCode: string;
+    prefName: string;
+    versionLabel: string;
+    overridden: (keyof InsuranceRates)[];
+    // 料率表に該当年度が無く、手入力もされていない料率（値は 0 になる）
+    unavailable: (keyof InsuranceRates)[];
+}
+
+export const RATE_VERSION_MISSING_LABEL = "料率表に該当年度がありません";
+
+export const PREFECTURES: Record<string, string> = {
+    "01": "北海道", "02": "青森県", "03": "岩手県", "04": "宮城県", "05": "秋田県", "06": "山形県", "07": "福島県",
+    "08": "茨城県", "09": "栃木県", "10": "群馬県", "11": "埼玉県", "12": "千葉県", "13": "東京都", "14": "神奈川県",
+    "15": "新潟県", "16": "富山県", "17": "石川県", "18": "福井県", "19": "山梨県", "20": "長野県", "21": "岐阜県",
+    "22": "静岡県", "23": "愛知県", "24": "三重県", "25": "滋賀県", "26": "京都府", "27": "大阪府", "28": "兵庫県",
+    "29": "奈良県", "30": "和歌山県", "31": "鳥取県", "32": "島根県", "33": "岡山県", "34": "広島県", "35": "山口県",
+    "36": "徳島県", "37": "香川県", "38": "愛媛県", "39": "高知県", "40": "福岡県", "41": "佐賀県", "42": "長崎県",
+    "43": "熊本県", "44": "大分県", "45": "宮崎県", "46": "鹿児島県", "47": "沖縄県"
+};
+
+const toPrefRecord = (values: number[]): Record<string, number> =>
+    Object.fromEntries(values.map((v, i) => [String(i + 1).padStart(2, '0'), v]));
+
+export const KYOKAI_RATE_TABLE: RateTableVersion[] = [
+    {
+        effectiveFrom: "2024-03",
+        label: "令和6年3月分～",
+        pension: 18.3,
+        nursing: 1.60,
+        childcare: 0.36,
+        health: toPrefRecord([
+            10.21, 9.49, 9.63, 10.01, 9.85, 9.84, 9.59, 9.66, 9.79, 9.81, 9.78, 9.77, 9.98, 10.02,
+            9.35, 9.62, 9.94, 10.07, 9.94, 9.55, 9.91, 9.85, 10.02, 9.94, 9.89, 10.13, 10.34, 10.18,
+            10.22, 10.00, 9.68, 9.92, 10.02, 9.95, 10.20, 10.19, 10.33, 10.03, 9.89, 10.35, 10.42, 10.17,
+            10.30, 10.25, 9.85, 10.13, 9.52
+        ])
+    },
+    {
+        effectiveFrom: "2025-03",
+        label: "令和7年3月分～",
+        pension: 18.3,
+        nursing: 1.59,
+        childcare: 0.36,
+        health: toPrefRecord([
+            10.31, 9.85, 9.62, 10.11, 10.01, 9.75, 9.62, 9.67, 9.82, 9.77, 9.76, 9.79, 9.91, 9.92,
+            9.55, 9.51, 9.86, 9.94, 9.89, 9.69, 9.93, 9.80, 10.03, 9.99, 9.97, 10.03, 10.24, 10.16,
+            10.14, 10.15, 9.95, 9.75, 10.10, 9.89, 10.15, 10.33, 10.21, 10.09, 10.17, 10.31, 10.78, 10.41,
+            10.12, 10.25, 10.09, 10.31, 10.44
+        ])
+    }
+];
+
+export const KYOKAI_ID = "kyokai";
+export const DEFAULT_PREF_CODE = "13";
+
+const CUSTOM_INSURERS_KEY = "egov-xml-custom-insurers";
+
+export const loadCustomInsurers = (): CustomInsurer[] => {
+    try {
+        const raw = localStorage.getItem(CUSTOM_INSURERS_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveCustomInsurers = (list: CustomInsurer[]) => {
+    try {
+        localStorage.setItem(CUSTOM_INSURERS_KEY, JSON.stringify(list));
+    } catch {
+        // ストレージが使えない環境ではメモリ上のみで保持する
+    }
+};
+
+// "13ｱｲｳ" / "１３－ｱｲｳ" のような事業所整理記号の先頭2桁から都道府県コードを取り出す
+export const parsePrefCode = (val?: string): string => {
+    if (!val) return "";
+    const digits = normalize(val).match(/^(\d{1,2})/);
+    if (!digits) return "";
+    const code = digits[1].padStart(2, '0');
+    return PREFECTURES[code] ? code : "";
+};
+
+// "2025/04/01" や "2025-04" から比較用の "YYYY-MM" を得る
+export const toYearMonth = (dateAD?: string): string => {
+    const m = (dateAD || "").match(/^(\d{4})[\/-](\d{1,2})/);
+    return m ? `${m[1]}-${m[2].padStart(2, '0')}` : "";
+};
+
+// yearMonth が空なら最新の版。最も古い版より前の月は undefined
+export const findRateVersion = (yearMonth: string): RateTableVersion | undefined => {
+    const sorted = [...KYOKAI_RATE_TABLE].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    if (!yearMonth) return sorted[sorted.length - 1];
+    return sorted.filter(v => v.effectiveFrom <= yearMonth).pop();
+};
+
+export const resolveRates = (opts: {
+    prefCode: string;
+    yearMonth: string;
+    insurerId: string;
+    customInsurers: CustomInsurer[];
+    overrides: Partial<InsuranceRates>;
+}): ResolvedRates => {
+    const version = findRateVersion(opts.yearMonth);
+    const prefCode = PREFECTURES[opts.prefCode] ? opts.prefCode : DEFAULT_PREF_CODE;
+    const custom = opts.insurerId !== KYOKAI_ID
+        ? opts.customInsurers.find(c => c.id === opts.insurerId)
+        : undefined;
+
+    const base: Partial<InsuranceRates> = custom
+        ? { health: custom.health, pension: custom.pension ?? version?.pension, nursing: custom.nursing, childcare: version?.childcare }
+        : { health: version?.health[prefCode], pension: version?.pension, nursing: version?.nursing, childcare: version?.childcare };
+
+    const overridden = (Object.keys(opts.overrides) as (keyof InsuranceRates)[])
+        .filter(k => typeof opts.overrides[k] === 'number');
+    const merged: Partial<InsuranceRates> = { ...base, ...Object.fromEntries(overridden.map(k => [k, opts.overrides[k]])) };
+    const keys: (keyof InsuranceRates)[] = ['health', 'pension', 'nursing', 'childcare'];
+    const unavailable = keys.filter(k => typeof merged[k] !== 'number');
+
+    return {
+        health: merged.health ?? 0,
+        pension: merged.pension ?? 0,
+        nursing: merged.nursing ?? 0,
+        childcare: merged.childcare ?? 0,
+        insurerName: custom ? custom.name : "協会けんぽ",
+        prefCode,
+        prefName: PREFECTURES[prefCode],
+        versionLabel: custom ? `${custom.effectiveFrom.replace('-', '年')}月分～` : version ? version.label : RATE_VERSION_MISSING_LABEL,
+        overridden,
+        unavailable
+    };
+};
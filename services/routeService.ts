@@ -0,0 +1,58 @@
+import { InsuranceRates } from "./rateService";
+import { RoundingMode } from "./calcService";
+
+// --- Hash Routing ---
+// 表示中の案件・ファイル・表示モードと控除計算の料率設定を URL のハッシュ（#case=...&file=...&view=...）に載せる。
+// 案件はライブラリ保存済みならそのID、未保存ならフォルダ名で、ファイルは ZIP 内のパスで指定する。
+
+export interface RouteState {
+    library?: boolean;
+    caseKey?: string;
+    filePath?: string;
+    view?: string;
+    insurerId?: string;
+    prefCode?: string;
+    overrides: Partial<InsuranceRates>;
+    rounding?: RoundingMode;
+    autoNursing?: boolean;
+}
+
+const RATE_KEYS: (keyof InsuranceRates)[] = ['health', 'pension', 'nursing', 'childcare'];
+
+export const parseRoute = (hash: string): RouteState => {
+    const params = new URLSearchParams(hash.replace(/^#\/?/, ""));
+    const overrides: Partial<InsuranceRates> = {};
+    RATE_KEYS.forEach(k => {
+        const v = parseFloat(params.get(`rate.${k}`) || "");
+        if (!isNaN(v)) overrides[k] = v;
+    });
+    const rounding = params.get("rounding");
+    const nursing = params.get("autoNursing");
+    return {
+        library: params.has("library"),
+        caseKey: params.get("case") || undefined,
+        filePath: params.get("file") || undefined,
+        view: params.get("view") || undefined,
+        insurerId: params.get("insurer") || undefined,
+        prefCode: params.get("pref") || undefined,
+        overrides,
+        rounding: rounding === 'fiftySen' || rounding === 'floor' || rounding === 'ceil' ? rounding : undefined,
+        autoNursing: nursing === null ? undefined : nursing !== "0"
+    };
+};
+
+// 既定値と同じ設定は省き、共有しやすい短い URL にする
+export const buildRoute = (r: RouteState): string => {
+    const params = new URLSearchParams();
+    if (r.library) params.set("library", "");
+    if (r.caseKey) params.set("case", r.caseKey);
+    if (r.filePath) params.set("file", r.filePath);
+    if (r.view && r.view !== 'summary') params.set("view", r.view);
+    if (r.insurerId) params.set("insurer", r.insurerId);
+    if (r.prefCode) params.set("pref", r.prefCode);
+    RATE_KEYS.forEach(k => { if (r.overrides[k] !== undefined) params.set(`rate.${k}`, String(r.overrides[k])); });
+    if (r.rounding && r.rounding !== 'fiftySen') params.set("rounding", r.rounding);
+    if (r.autoNursing === false) params.set("autoNursing", "0");
+    const q = params.toString().replace(/library=(&|$)/, "library$1");
+    return q ? `#${q}` : "";
+};
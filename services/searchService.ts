@@ -0,0 +1,98 @@
+import { CaseEntry } from "../types";
+import { hasPersonRows } from "./docTypeService";
+import { flattenXML, normalize } from "../utils";
+
+// --- Cross-case Search ---
+// 読み込み済みの全ファイルについて、通知書の被保険者行と全項目（flattenXML）の値を索引化する。
+
+export interface SearchEntry {
+    caseIdx: number;
+    fileIdx: number;
+    kind: 'row' | 'field';
+    rowIdx?: number;
+    path?: string;
+    label: string;
+    detail: string;
+    haystack: string;
+}
+
+export interface SearchResultGroup {
+    caseIdx: number;
+    fileIdx: number;
+    folderName: string;
+    fileName: string;
+    hits: SearchEntry[];
+}
+
+const NAME_KEYS = ["被保険者氏名", "被保険者漢字氏名", "被保険者カナ氏名", "被保険者氏名_漢字", "被保険者氏名_カナ", "氏名", "カナ氏名"];
+
+// 全角英数・半角カナを NFKC で揃え、ひらがなをカタカナに寄せ、空白を除いて比較する
+export const normalizeForSearch = (val: any): string =>
+    normalize(val)
+        .normalize('NFKC')
+        .replace(/[ぁ-ゖ]/g, (c) => String.fromCharCode(c.charCodeAt(0) + 0x60))
+        .replace(/[\s　]+/g, "")
+        .toLowerCase();
+
+export const buildSearchIndex = (cases: CaseEntry[]): SearchEntry[] => {
+    const entries: SearchEntry[] = [];
+    cases.forEach((c, caseIdx) => c.files.forEach((f, fileIdx) => {
+        const data = f.analysis;
+        if (data && hasPersonRows(data)) {
+            data.rows.forEach((r, rowIdx) => {
+                const names = NAME_KEYS.map(k => normalize(r[k])).filter(Boolean);
+                const no = normalize(r["被保険者整理番号"]);
+                entries.push({
+                    caseIdx,
+                    fileIdx,
+                    kind: 'row',
+                    rowIdx,
+                    label: names[0] || `整理番号 ${no}`,
+                    detail: [no ? `整理番号 ${no}` : "", ...Array.from(new Set(names.slice(1)))].filter(Boolean).join(" / "),
+                    haystack: normalizeForSearch([...names, no].join("|"))
+                });
+            });
+        }
+        if (f.parsed) {
+            flattenXML(f.parsed).forEach(field => {
+                if (!field.value) return;
+                entries.push({
+                    caseIdx,
+                    fileIdx,
+                    kind: 'field',
+                    path: field.path,
+                    label: field.value,
+                    detail: field.path,
+                    haystack: normalizeForSearch(field.value)
+                });
+            });
+        }
+    }));
+    return entries;
+};
+
+export const searchEntries = (index: SearchEntry[], cases: CaseEntry[], query: string, limit: number = 300): SearchResultGroup[] => {
+    const q = normalizeForSearch(query);
+    if (!q) return [];
+    const groups = new Map<string, SearchResultGroup>();
+    let count = 0;
+    for (const e of index) {
+        if (count >= limit) break;
+        if (!e.haystack.includes(q)) continue;
+        const key = `${e.caseIdx}:${e.fileIdx}`;
+        if (!groups.has(key)) {
+            groups.set(key, {
+                caseIdx: e.caseIdx,
+                fileIdx: e.fileIdx,
+                folderName: cases[e.caseIdx]?.folderName || "",
+                fileName: cases[e.caseIdx]?.files[e.fileIdx]?.name || "",
+                hits: []
+            });
+        }
+        groups.get(key)!.hits.push(e);
+        count++;
+    }
+    // 被保険者行の一致を項目一致より先に並べる
+    groups.forEach(g => g.hits.sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'row' ? -1 : 1)));
+    return Array.from(groups.values());
+};
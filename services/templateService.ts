@@ -0,0 +1,151 @@
+import { UniversalData } from "../types";
+import { getFormattedDates, getRowDate, normalize, parseStandardAmount } from "../utils";
+import { ExportColumnType, ExportTable } from "./exportService";
+
+// --- Export Templates ---
+// 給与ソフトごとに異なる取込レイアウト（列順・見出し・日付表記・金額単位）を、通知書の行と書類全体の項目から組み立てる。
+
+export type DateStyle = 'ad' | 'jp' | 'fullJp';
+export type AmountUnit = 'yen' | 'thousand';
+
+export interface TemplateColumn {
+    field: string;
+    header: string;
+}
+
+export interface ExportTemplate {
+    id: string;
+    name: string;
+    builtin?: boolean;
+    dateStyle: DateStyle;
+    amountUnit: AmountUnit;
+    columns: TemplateColumn[];
+}
+
+interface FieldDef {
+    id: string;
+    label: string;
+    kind: 'text' | 'date' | 'amount';
+    get: (row: Record<string, any>, data: UniversalData) => any;
+}
+
+export const DATE_STYLE_LABELS: Record<DateStyle, string> = {
+    ad: "西暦 (2024/09/01)",
+    jp: "和暦略記 (R06.09.01)",
+    fullJp: "和暦 (令和 6 年 9 月 1 日)"
+};
+
+export const AMOUNT_UNIT_LABELS: Record<AmountUnit, string> = {
+    yen: "円",
+    thousand: "千円"
+};
+
+// 一覧に無い行項目は "row:<XMLの項目名>" で指定する
+export const RAW_ROW_PREFIX = "row:";
+
+const refDate = (row: Record<string, any>, data: UniversalData) => getRowDate(
+    row,
+    data.docType === 'BONUS_NOTICE'
+        ? ["賞与支払年月日", "賞与支払年月"]
+        : ["適用年月", "適用年月日", "改定年月", "資格喪失年月日", "資格喪失年月"]
+);
+
+export const TEMPLATE_FIELDS: FieldDef[] = [
+    { id: "insuredNo", label: "被保険者整理番号", kind: 'text', get: r => normalize(r["被保険者整理番号"]) },
+    { id: "name", label: "氏名", kind: 'text', get: r => normalize(r["被保険者氏名"]) },
+    { id: "kanaName", label: "カナ氏名", kind: 'text', get: r => normalize(r["被保険者カナ氏名"] || r["被保険者氏名_カナ"]) },
+    { id: "refDate", label: "適用年月/賞与支払年月日", kind: 'date', get: (r, d) => refDate(r, d) },
+    { id: "birthDate", label: "生年月日", kind: 'date', get: r => getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]) },
+    { id: "stdHealth", label: "標準額(健保)", kind: 'amount', get: (r, d) => parseStandardAmount(r[d.docType === 'BONUS_NOTICE' ? "決定後の標準賞与額_健保" : "決定後の標準報酬月額_健保"]) },
+    { id: "stdPension", label: "標準額(厚年)", kind: 'amount', get: (r, d) => parseStandardAmount(r[d.docType === 'BONUS_NOTICE' ? "決定後の標準賞与額_厚年" : "決定後の標準報酬月額_厚年"]) },
+    { id: "kind", label: "種別", kind: 'text', get: r => normalize(r["種別"]) },
+    { id: "docTitle", label: "書類名", kind: 'text', get: (_, d) => d.title },
+    { id: "arrivalNumber", label: "到達番号", kind: 'text', get: (_, d) => normalize(d.arrivalNumber) },
+    { id: "officeRegistry", label: "事業所整理記号", kind: 'text', get: (_, d) => normalize(d.officeRegistryNotice) },
+    { id: "officeNo", label: "事業所番号", kind: 'text', get: (_, d) => normalize(d.officeNoNotice) },
+    { id: "companyName", label: "事業所名称", kind: 'text', get: (_, d) => normalize(d.companyName) },
+    { id: "noticeDate", label: "通知年月日", kind: 'text', get: (_, d) => normalize(d.creationDateJP) }
+];
+
+export const fieldLabel = (field: string) =>
+    field.startsWith(RAW_ROW_PREFIX) ? `項目: ${field.slice(RAW_ROW_PREFIX.length)}` : TEMPLATE_FIELDS.find(f => f.id === field)?.label || field;
+
+const col = (field: string, header?: string): TemplateColumn => ({ field, header: header ?? fieldLabel(field) });
+
+export const BUILTIN_TEMPLATES: ExportTemplate[] = [
+    {
+        id: "builtin-standard",
+        name: "標準（データ一覧）",
+        builtin: true,
+        dateStyle: 'ad',
+        amountUnit: 'yen',
+        columns: [col("insuredNo", "整理番号"), col("name"), col("refDate", "支払日/適用月"), col("stdHealth"), col("stdPension"), col("birthDate"), col("kind")]
+    },
+    {
+        id: "builtin-payroll",
+        name: "給与ソフト取込用（社員コード・円・西暦）",
+        builtin: true,
+        dateStyle: 'ad',
+        amountUnit: 'yen',
+        columns: [col("insuredNo", "社員コード"), col("name", "氏名"), col("kanaName", "フリガナ"), col("refDate", "改定年月"), col("stdHealth", "健康保険標準報酬"), col("stdPension", "厚生年金標準報酬")]
+    },
+    {
+        id: "builtin-ledger",
+        name: "社会保険台帳（和暦・千円）",
+        builtin: true,
+        dateStyle: 'jp',
+        amountUnit: 'thousand',
+        columns: [col("officeRegistry"), col("insuredNo", "整理番号"), col("name"), col("birthDate"), col("refDate", "適用年月"), col("stdHealth", "健保(千円)"), col("stdPension", "厚年(千円)"), col("arrivalNumber")]
+    },
+    {
+        id: "builtin-minimal",
+        name: "最小（整理番号・健保・厚年）",
+        builtin: true,
+        dateStyle: 'ad',
+        amountUnit: 'yen',
+        columns: [col("insuredNo", "整理番号"), col("stdHealth", "健保"), col("stdPension", "厚年")]
+    }
+];
+
+const TEMPLATES_KEY = "egov-xml-export-templates";
+
+export const loadExportTemplates = (): ExportTemplate[] => {
+    try {
+        const raw = localStorage.getItem(TEMPLATES_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveExportTemplates = (list: ExportTemplate[]) => {
+    try {
+        localStorage.setItem(TEMPLATES_KEY, JSON.stringify(list.filter(t => !t.builtin)));
+    } catch {
+        // ストレージが使えない環境ではメモリ上のみで保持する
+    }
+};
+
+export const applyTemplate = (data: UniversalData, tpl: ExportTemplate, name: string = `${data.title}_${tpl.name}`): ExportTable => {
+    const defs = tpl.columns.map(c => ({
+        column: c,
+        def: c.field.startsWith(RAW_ROW_PREFIX)
+            ? { kind: 'text' as const, get: (r: Record<string, any>) => normalize(r[c.field.slice(RAW_ROW_PREFIX.length)]) }
+            : TEMPLATE_FIELDS.find(f => f.id === c.field)
+    }));
+    const typeOf = (kind?: FieldDef['kind']): ExportColumnType =>
+        kind === 'amount' ? (tpl.amountUnit === 'yen' ? 'yen' : 'number')
+        : kind === 'date' && tpl.dateStyle === 'ad' ? 'date'
+        : 'text';
+    return {
+        name,
+        columns: defs.map(({ column, def }) => ({ header: column.header, type: typeOf(def?.kind) })),
+        rows: data.rows.map(r => defs.map(({ def }) => {
+            if (!def) return "";
+            const v = def.get(r, data);
+            if (def.kind === 'amount') return tpl.amountUnit === 'yen' ? v * 1000 : v;
+            if (def.kind === 'date') return v[tpl.dateStyle] || "";
+            return v ?? "";
+        }))
+    };
+};
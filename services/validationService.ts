@@ -0,0 +1,236 @@
+import { AppFile, DocTypeId, UniversalData } from "../types";
+import { getFormattedDates, normalize, parseStandardAmount } from "../utils";
+import { getReferenceDate } from "./calcService";
+import { HEALTH_PENSION_COUNT_KEYS, caseCountChecks, parseCount } from "./csvSubmissionService";
+import { isDocType } from "./docTypeService";
+import { ageAt, parseAD, todayYmd } from "./eligibilityService";
+import { findGradeTable, isStandardMonthlyAmount, pensionAmountForHealth } from "./gradeService";
+import { toYearMonth } from "./rateService";
+
+// --- Validation ---
+// 解析済みの書類に対する整合性チェック。ルールは registerValidationRule で追加でき、
+// ファイルごとに重要度付きの指摘（Diagnostic）を返す。案件内の他のファイルと突き合わせるルールもある。
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+    error: "エラー",
+    warning: "警告",
+    info: "情報"
+};
+
+const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'info'];
+
+export interface ValidationContext {
+    file: AppFile;
+    data: UniversalData;
+    // 同じ案件のファイル（対象ファイルを含む）
+    caseFiles: AppFile[];
+}
+
+export interface Finding {
+    message: string;
+    // 被保険者の行を持つ書類での行番号（帳票プレビューの強調表示に使う）
+    row?: number;
+    // 指摘の対象（被保険者の整理番号・氏名など）
+    subject?: string;
+}
+
+export interface ValidationRule {
+    id: string;
+    label: string;
+    severity: Severity;
+    // 指定した書類の種類だけに適用する（省略時は全種類）
+    docTypes?: DocTypeId[];
+    check: (ctx: ValidationContext) => Finding[];
+}
+
+export interface Diagnostic extends Finding {
+    ruleId: string;
+    ruleLabel: string;
+    severity: Severity;
+}
+
+export type DiagnosticCounts = Record<Severity, number>;
+
+const rules: ValidationRule[] = [];
+
+// 同じ id のルールは置き換える
+export const registerValidationRule = (rule: ValidationRule) => {
+    const idx = rules.findIndex(r => r.id === rule.id);
+    if (idx >= 0) rules.splice(idx, 1, rule);
+    else rules.push(rule);
+};
+
+export const listValidationRules = (): readonly ValidationRule[] => rules;
+
+export const validateFile = (file: AppFile, caseFiles: AppFile[] = [file]): Diagnostic[] => {
+    const data = file.analysis;
+    if (!data) return [];
+    const ctx: ValidationContext = { file, data, caseFiles };
+    return rules
+        .filter(r => !r.docTypes || r.docTypes.includes(data.docType))
+        .flatMap(r => r.check(ctx).map(f => ({ ...f, ruleId: r.id, ruleLabel: r.label, severity: r.severity })))
+        .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || (a.row ?? -1) - (b.row ?? -1));
+};
+
+export const validateCase = (files: AppFile[]): Map<AppFile, Diagnostic[]> =>
+    new Map(files.map(f => [f, validateFile(f, files)]));
+
+export const countDiagnostics = (diagnostics: Diagnostic[]): DiagnosticCounts => {
+    const counts: DiagnosticCounts = { error: 0, warning: 0, info: 0 };
+    diagnostics.forEach(d => counts[d.severity]++);
+    return counts;
+};
+
+// 被保険者ごとの行を書類の種類によらない形にそろえる。標準報酬月額は千円単位（月額の決定が無い書類は undefined）
+interface PersonFacts {
+    row: number;
+    insuredNo: string;
+    name: string;
+    birthAD: string;
+    referenceAD: string;
+    stdHealth?: number;
+    stdPension?: number;
+}
+
+const personFacts = (data: UniversalData): PersonFacts[] => {
+    if (isDocType(data, 'NOTICE') || isDocType(data, 'BONUS_NOTICE')) {
+        const isBonus = data.docType === 'BONUS_NOTICE';
+        return data.rows.map((r, row) => ({
+            row,
+            insuredNo: normalize(r["被保険者整理番号"]),
+            name: normalize(r["被保険者氏名"]),
+            birthAD: getFormattedDates(r["生年月日_元号"], r["生年月日_年"], r["生年月日_月"], r["生年月日_日"]).ad,
+            referenceAD: getReferenceDate(r, isBonus),
+            stdHealth: isBonus ? undefined : parseStandardAmount(r["決定後の標準報酬月額_健保"]),
+            stdPension: isBonus ? undefined : parseStandardAmount(r["決定後の標準報酬月額_厚年"])
+        }));
+    }
+    if (isDocType(data, 'ACQUISITION_NOTICE') || isDocType(data, 'LOSS_NOTICE')) {
+        const isAcquisition = data.docType === 'ACQUISITION_NOTICE';
+        return data.persons.map((p, row) => ({
+            row,
+            insuredNo: p.insuredNo,
+            name: p.name,
+            birthAD: p.birthDate.ad,
+            referenceAD: p.acquiredDate.ad || p.lostDate.ad,
+            stdHealth: isAcquisition ? p.stdHealth : undefined,
+            stdPension: isAcquisition ? p.stdPension : undefined
+        }));
+    }
+    if (isDocType(data, 'EI_ACQUISITION_NOTICE') || isDocType(data, 'EI_LOSS_NOTICE') || isDocType(data, 'EI_SEPARATION_NOTICE')) {
+        return data.persons.map((p, row) => ({
+            row,
+            insuredNo: p.insuredNo,
+            name: p.name,
+            birthAD: p.birthDate.ad,
+            referenceAD: p.acquiredDate.ad || p.lostDate.ad
+        }));
+    }
+    return [];
+};
+
+const subjectOf = (p: PersonFacts) => [p.insuredNo, p.name].filter(Boolean).join(" ") || `${p.row + 1}行目`;
+
+const PERSON_DOC_TYPES: DocTypeId[] = ['NOTICE', 'BONUS_NOTICE', 'ACQUISITION_NOTICE', 'LOSS_NOTICE', 'EI_ACQUISITION_NOTICE', 'EI_LOSS_NOTICE', 'EI_SEPARATION_NOTICE'];
+
+// 就労する被保険者として不自然な年齢
+const MIN_PLAUSIBLE_AGE = 16;
+const MAX_PLAUSIBLE_AGE = 110;
+
+registerValidationRule({
+    id: 'standard-amount-grade',
+    label: "標準報酬月額の等級",
+    severity: 'error',
+    docTypes: ['NOTICE', 'ACQUISITION_NOTICE'],
+    check: ({ data }) => personFacts(data).flatMap(p => {
+        const ym = toYearMonth(p.referenceAD);
+        return [
+            ...(p.stdHealth && !isStandardMonthlyAmount('health', p.stdHealth * 1000, ym)
+                ? [{ row: p.row, subject: subjectOf(p), message: `健康保険の標準報酬月額 ${p.stdHealth.toLocaleString()}千円 は等級表（${findGradeTable('health', ym).label}）のどの等級の額にも当たりません` }] : []),
+            ...(p.stdPension && !isStandardMonthlyAmount('pension', p.stdPension * 1000, ym)
+                ? [{ row: p.row, subject: subjectOf(p), message: `厚生年金の標準報酬月額 ${p.stdPension.toLocaleString()}千円 は等級表（${findGradeTable('pension', ym).label}）のどの等級の額にも当たりません` }] : [])
+        ];
+    })
+});
+
+// 厚生年金の等級の範囲内では健保と厚年の標準報酬月額は同じ額になる（70歳以上などで片方が無い行は除く）
+registerValidationRule({
+    id: 'health-pension-pair',
+    label: "健保・厚年の標準報酬月額の対応",
+    severity: 'warning',
+    docTypes: ['NOTICE', 'ACQUISITION_NOTICE'],
+    check: ({ data }) => personFacts(data).flatMap(p => {
+        if (!p.stdHealth || !p.stdPension) return [];
+        const ym = toYearMonth(p.referenceAD);
+        if (!isStandardMonthlyAmount('health', p.stdHealth * 1000, ym)) return [];
+        const expected = pensionAmountForHealth(p.stdHealth * 1000, ym) / 1000;
+        if (p.stdPension === expected) return [];
+        return [{
+            row: p.row,
+            subject: subjectOf(p),
+            message: `健保 ${p.stdHealth.toLocaleString()}千円 に対して厚年が ${p.stdPension.toLocaleString()}千円 です（通常は ${expected.toLocaleString()}千円）`
+        }];
+    })
+});
+
+registerValidationRule({
+    id: 'birthdate-age',
+    label: "生年月日と年齢",
+    severity: 'warning',
+    docTypes: PERSON_DOC_TYPES,
+    check: ({ data }) => personFacts(data).flatMap(p => {
+        const birth = parseAD(p.birthAD);
+        if (!birth) return [];
+        const ref = parseAD(p.referenceAD) || todayYmd();
+        const age = ageAt(birth, ref);
+        if (age >= MIN_PLAUSIBLE_AGE && age < MAX_PLAUSIBLE_AGE) return [];
+        return [{ row: p.row, subject: subjectOf(p), message: `生年月日 ${p.birthAD} では基準日 ${ref.y}/${String(ref.m).padStart(2, '0')}/${String(ref.d).padStart(2, '0')} 時点で ${age} 歳になります` }];
+    })
+});
+
+registerValidationRule({
+    id: 'missing-name',
+    label: "被保険者氏名",
+    severity: 'warning',
+    docTypes: PERSON_DOC_TYPES,
+    check: ({ data }) => personFacts(data)
+        .filter(p => !p.name)
+        .map(p => ({ row: p.row, subject: p.insuredNo || `${p.row + 1}行目`, message: "被保険者氏名（漢字・カナ）がありません" }))
+});
+
+registerValidationRule({
+    id: 'summary-total',
+    label: "総括票の届書合計",
+    severity: 'error',
+    docTypes: ['SUMMARY'],
+    check: ({ data }) => {
+        if (!isDocType(data, 'SUMMARY')) return [];
+        const findings: Finding[] = [];
+        const total = parseCount(data.counts["合計"]);
+        const lines = HEALTH_PENSION_COUNT_KEYS.map(k => parseCount(data.counts[k]));
+        if (total === null || lines.includes(null)) {
+            findings.push({ message: "届書件数に数字でない記入があります" });
+        } else {
+            const sum = (lines as number[]).reduce((a, n) => a + n, 0);
+            if (sum !== total) findings.push({ message: `⑬届書合計 ${total} 件が⑤～⑫の合計 ${sum} 件と一致しません` });
+        }
+        const pensionTotal = parseCount(data.counts["国年合計"]);
+        const pension3 = parseCount(data.counts["国年3号"]);
+        if (pensionTotal !== null && pension3 !== null && pensionTotal !== pension3) {
+            findings.push({ message: `⑮届書合計 ${pensionTotal} 件が⑭国民年金第３号被保険者関係届 ${pension3} 件と一致しません` });
+        }
+        return findings;
+    }
+});
+
+registerValidationRule({
+    id: 'summary-csv-count',
+    label: "総括票とCSV形式届書の件数",
+    severity: 'error',
+    docTypes: ['SUMMARY'],
+    check: ({ caseFiles }) => (caseCountChecks(caseFiles) || [])
+        .filter(c => !c.ok)
+        .map(c => ({ subject: c.label, message: `総括票 ${c.declared ?? "（数字でない記入）"} 件に対し、CSV形式届書のレコードは ${c.actual} 件です` }))
+});
@@ -0,0 +1,122 @@
+import { ImportResult, ImportTask, runImportTask, transferablesOf } from "./importService";
+
+// --- Import Worker Pool ---
+// 解析タスクを複数の Worker に順に割り当てる。Worker を使えない環境ではメインスレッドで1件ずつ処理する。
+
+export class ImportCancelledError extends Error {
+    constructor() {
+        super("読み込みを中止しました");
+        this.name = "ImportCancelledError";
+    }
+}
+
+export interface ImportPool {
+    run: (task: ImportTask, onStart?: () => void) => Promise<ImportResult>;
+    cancel: () => void;
+    // 待機中の Worker を終了する。実行中の Worker は完了したときに終了する
+    dispose: () => void;
+}
+
+interface Job {
+    id: number;
+    task: ImportTask;
+    onStart?: () => void;
+    resolve: (result: ImportResult) => void;
+    reject: (err: Error) => void;
+}
+
+const defaultPoolSize = () => Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+const createInlinePool = (): ImportPool => {
+    let cancelled = false;
+    let chain: Promise<unknown> = Promise.resolve();
+    return {
+        run: (task, onStart) => {
+            const next = chain.then(async () => {
+                // 画面の更新を挟むため、タスクごとにイベントループへ制御を返す
+                await new Promise(r => setTimeout(r, 0));
+                if (cancelled) throw new ImportCancelledError();
+                onStart?.();
+                return runImportTask(task);
+            });
+            chain = next.catch(() => undefined);
+            return next;
+        },
+        cancel: () => { cancelled = true; },
+        dispose: () => undefined
+    };
+};
+
+export const createImportPool = (size: number = defaultPoolSize()): ImportPool => {
+    if (typeof Worker === 'undefined') return createInlinePool();
+    const queue: Job[] = [];
+    const running = new Map<Worker, Job>();
+    const idle: Worker[] = [];
+    const workers: Worker[] = [];
+    let nextId = 0;
+    let cancelled = false;
+    let disposed = false;
+
+    const remove = (worker: Worker) => {
+        worker.terminate();
+        workers.splice(workers.indexOf(worker), 1);
+    };
+
+    const dispatch = () => {
+        while (queue.length > 0 && (idle.length > 0 || workers.length < size)) {
+            const worker = idle.pop() || spawn();
+            const job = queue.shift()!;
+            running.set(worker, job);
+            job.onStart?.();
+            worker.postMessage({ id: job.id, task: job.task }, transferablesOf(job.task));
+        }
+    };
+
+    const finish = (worker: Worker) => {
+        running.delete(worker);
+        if (disposed && queue.length === 0) remove(worker);
+        else idle.push(worker);
+        dispatch();
+    };
+
+    const spawn = () => {
+        const worker = new Worker(new URL("./parseWorker.ts", import.meta.url), { type: "module" });
+        worker.onmessage = (e: MessageEvent<{ id: number, result?: ImportResult, error?: string }>) => {
+            const job = running.get(worker);
+            finish(worker);
+            if (!job) return;
+            if (e.data.error !== undefined) job.reject(new Error(e.data.error));
+            else job.resolve(e.data.result!);
+        };
+        // 異常終了した Worker は使い回さず、残りのタスクは新しい Worker で続ける
+        worker.onerror = (e) => {
+            e.preventDefault();
+            const job = running.get(worker);
+            running.delete(worker);
+            remove(worker);
+            job?.reject(new Error(e.message || "Worker でエラーが発生しました"));
+            dispatch();
+        };
+        workers.push(worker);
+        return worker;
+    };
+
+    return {
+        run: (task, onStart) => new Promise((resolve, reject) => {
+            if (cancelled) { reject(new ImportCancelledError()); return; }
+            queue.push({ id: nextId++, task, onStart, resolve, reject });
+            dispatch();
+        }),
+        // 実行中の Worker も止め、未完了のタスクはすべて中止扱いにする
+        cancel: () => {
+            cancelled = true;
+            workers.forEach(w => w.terminate());
+            [...queue.splice(0), ...running.values()].forEach(job => job.reject(new ImportCancelledError()));
+            running.clear();
+        },
+        dispose: () => {
+            disposed = true;
+            idle.splice(0).forEach(remove);
+        }
+    };
+};
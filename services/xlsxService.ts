@@ -0,0 +1,136 @@
+import JSZip from "jszip";
+import { ExportCell, ExportColumnType, ExportTable } from "./exportService";
+
+// --- XLSX Writer ---
+// SpreadsheetML の最小構成を JSZip で組み立てる。文字列はインライン文字列、日付は 1900 年基準のシリアル値で書き込み、
+// 先頭行（見出し）を固定する。
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS_MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const NS_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+// styles.xml の cellXfs の並びと対応させる
+const STYLE_INDEX: Record<ExportColumnType | 'header', number> = {
+    text: 0,
+    header: 1,
+    number: 2,
+    yen: 3,
+    date: 4
+};
+
+const STYLES_XML = `${XML_HEAD}<styleSheet xmlns="${NS_MAIN}">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="#,##0&quot;円&quot;"/><numFmt numFmtId="165" formatCode="yyyy/mm/dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Yu Gothic"/></font><font><b/><sz val="11"/><color rgb="FFFFFFFF"/><name val="Yu Gothic"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FF1E293B"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"><alignment wrapText="1" vertical="top"/></xf>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const escapeXML = (v: string) => v
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // XML 1.0 で使えない制御文字を除く
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+const columnName = (idx: number): string => {
+    let n = idx + 1, s = "";
+    while (n > 0) {
+        const r = (n - 1) % 26;
+        s = String.fromCharCode(65 + r) + s;
+        n = Math.floor((n - 1) / 26);
+    }
+    return s;
+};
+
+// "YYYY/MM/DD" → Excel シリアル値（1899-12-30 起点）
+export const toExcelSerial = (ad: string): number | null => {
+    const m = ad.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+    if (!m) return null;
+    const t = Date.UTC(parseInt(m[1], 10), parseInt(m[2], 10) - 1, parseInt(m[3], 10));
+    return Math.round((t - Date.UTC(1899, 11, 30)) / 86400000);
+};
+
+const inlineString = (ref: string, v: string, style: number) =>
+    `<c r="${ref}" t="inlineStr" s="${style}"><is><t xml:space="preserve">${escapeXML(v)}</t></is></c>`;
+
+const renderCell = (ref: string, v: ExportCell, type: ExportColumnType): string => {
+    if (v === "" || v === undefined || v === null) return "";
+    if (type === 'date') {
+        const serial = typeof v === 'string' ? toExcelSerial(v) : null;
+        return serial === null ? inlineString(ref, String(v), STYLE_INDEX.text) : `<c r="${ref}" s="${STYLE_INDEX.date}"><v>${serial}</v></c>`;
+    }
+    if (type === 'number' || type === 'yen') {
+        const n = typeof v === 'number' ? v : Number(String(v).replace(/,/g, ""));
+        return isFinite(n) && String(v).trim() !== "" ? `<c r="${ref}" s="${STYLE_INDEX[type]}"><v>${n}</v></c>` : inlineString(ref, String(v), STYLE_INDEX.text);
+    }
+    return inlineString(ref, String(v), STYLE_INDEX.text);
+};
+
+const renderSheet = (table: ExportTable): string => {
+    const header = `<row r="1">${table.columns.map((c, i) => inlineString(`${columnName(i)}1`, c.header, STYLE_INDEX.header)).join('')}</row>`;
+    const body = table.rows.map((r, ri) => {
+        const rowNo = ri + 2;
+        return `<row r="${rowNo}">${table.columns.map((c, ci) => renderCell(`${columnName(ci)}${rowNo}`, r[ci], c.type)).join('')}</row>`;
+    }).join('');
+    const cols = table.columns.map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width || Math.max(10, c.header.length * 2 + 2)}" customWidth="1"/>`).join('');
+    const lastRef = `${columnName(Math.max(table.columns.length - 1, 0))}${table.rows.length + 1}`;
+    return `${XML_HEAD}<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">
+<dimension ref="A1:${lastRef}"/>
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView></sheetViews>
+<sheetFormatPr defaultRowHeight="18"/>
+${cols ? `<cols>${cols}</cols>` : ''}
+<sheetData>${header}${body}</sheetData>
+<autoFilter ref="A1:${lastRef}"/>
+</worksheet>`;
+};
+
+// シート名は31文字以内で []:*?/\ を含められず、ブック内で一意である必要がある
+const toSheetNames = (tables: ExportTable[]): string[] => {
+    const used = new Set<string>();
+    return tables.map((t, i) => {
+        const base = (t.name || `Sheet${i + 1}`).replace(/[\[\]:*?\/\\]/g, "_").replace(/^'+|'+$/g, "").slice(0, 31) || `Sheet${i + 1}`;
+        let name = base;
+        for (let n = 2; used.has(name.toLowerCase()); n++) {
+            const suffix = `(${n})`;
+            name = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+        }
+        used.add(name.toLowerCase());
+        return name;
+    });
+};
+
+export const buildXLSX = async (tables: ExportTable[]): Promise<Uint8Array> => {
+    const names = toSheetNames(tables);
+    const zip = new JSZip();
+    zip.file("[Content_Types].xml", `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${tables.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`);
+    zip.file("_rels/.rels", `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+    zip.file("xl/workbook.xml", `${XML_HEAD}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">
+<sheets>${names.map((n, i) => `<sheet name="${escapeXML(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+<definedNames>${names.map((n, i) => `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">'${escapeXML(n.replace(/'/g, "''"))}'!$A$1:$${columnName(Math.max(tables[i].columns.length - 1, 0))}$${tables[i].rows.length + 1}</definedName>`).join('')}</definedNames>
+</workbook>`);
+    zip.file("xl/_rels/workbook.xml.rels", `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${tables.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${tables.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/>
+</Relationships>`);
+    zip.file("xl/styles.xml", STYLES_XML);
+    tables.forEach((t, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, renderSheet(t)));
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+};
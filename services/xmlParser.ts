@@ -0,0 +1,314 @@
+import { SourcePosition, XMLAttribute, XMLMixedPart, XMLNode, XMLParseIssue } from "../types";
+
+// --- XML Parsing ---
+// DOMParser の結果を XMLNode に写し取る。属性・名前空間・混在内容の並び順・開始タグ位置を保持し、
+// parsererror を検出した場合は行・列つきの XMLParseError を投げる。
+// DOMParser の無い環境（Web Worker・Node）では、同じ形の XMLNode を文字列から直接組み立てる。
+
+export class XMLParseError extends Error {
+    line?: number;
+    column?: number;
+
+    constructor(issue: XMLParseIssue) {
+        super(issue.message);
+        this.name = "XMLParseError";
+        this.line = issue.line;
+        this.column = issue.column;
+    }
+
+    toIssue(): XMLParseIssue {
+        return { message: this.message, line: this.line, column: this.column };
+    }
+}
+
+const XMLNS_URI = "http://www.w3.org/2000/xmlns/";
+const XML_URI = "http://www.w3.org/XML/1998/namespace";
+
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: "\"", apos: "'" };
+
+// 文字位置（オフセット）を行・列に変換する関数を作る
+const createLocator = (src: string) => {
+    const lineStarts = [0];
+    for (let i = 0; i < src.length; i++) if (src.charCodeAt(i) === 10) lineStarts.push(i + 1);
+    return (offset: number): SourcePosition => {
+        let lo = 0, hi = lineStarts.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (lineStarts[mid] <= offset) lo = mid; else hi = mid - 1;
+        }
+        return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+    };
+};
+
+// 開始タグの出現位置を文書順に列挙する（DOMの先行順走査と同じ順序になる）
+const scanStartTagPositions = (src: string): SourcePosition[] => {
+    const toPosition = createLocator(src);
+
+    const positions: SourcePosition[] = [];
+    let i = src.indexOf('<');
+    while (i !== -1 && i < src.length) {
+        let next = i + 1;
+        if (src.startsWith('<!--', i)) next = src.indexOf('-->', i + 4) + 3;
+        else if (src.startsWith('<![CDATA[', i)) next = src.indexOf(']]>', i + 9) + 3;
+        else if (src.startsWith('<?', i)) next = src.indexOf('?>', i + 2) + 2;
+        else if (src.startsWith('<!', i)) {
+            let depth = 0;
+            for (next = i + 2; next < src.length; next++) {
+                const c = src[next];
+                if (c === '[') depth++;
+                else if (c === ']') depth--;
+                else if (c === '>' && depth <= 0) break;
+            }
+            next++;
+        } else if (src[i + 1] !== '/') positions.push(toPosition(i));
+        if (next <= i) break;
+        i = src.indexOf('<', next);
+    }
+    return positions;
+};
+
+// ブラウザごとに異なる parsererror の文言から行・列を取り出す
+const readParserError = (doc: Document): XMLParseIssue | null => {
+    const err = doc.getElementsByTagName("parsererror")[0];
+    if (!err) return null;
+    const text = (err.textContent || "").replace(/\s+/g, " ").trim();
+    const chrome = text.match(/line (\d+) at column (\d+)/i);
+    const firefox = text.match(/Line Number (\d+), Column (\d+)/i);
+    const hit = chrome || firefox;
+    const detail = text.match(/error on line \d+ at column \d+: (.*?)(?: Below is| $)/i)?.[1]
+        || text.match(/XML Parsing Error: ([^\n]*?)(?: Location:|$)/i)?.[1]
+        || text;
+    return {
+        message: detail.trim() || "XMLの構文エラー",
+        line: hit ? parseInt(hit[1], 10) : undefined,
+        column: hit ? parseInt(hit[2], 10) : undefined
+    };
+};
+
+const parseWithDOM = (content: string): XMLNode => {
+    const doc = new DOMParser().parseFromString(content, "text/xml");
+    const issue = readParserError(doc);
+    if (issue || !doc.documentElement) throw new XMLParseError(issue || { message: "ルート要素がありません" });
+
+    const positions = scanStartTagPositions(content);
+    let order = 0;
+
+    const walk = (el: Element): XMLNode => {
+        const position = positions[order++];
+        const name = el.localName || el.tagName.split(':').pop() || el.tagName;
+        const children: XMLNode[] = [];
+        const mixed: XMLMixedPart[] = [];
+        let hasText = false;
+
+        Array.from(el.childNodes).forEach(c => {
+            if (c.nodeType === Node.ELEMENT_NODE) {
+                mixed.push({ child: children.length });
+                children.push(walk(c as Element));
+            } else if (c.nodeType === Node.TEXT_NODE || c.nodeType === Node.CDATA_SECTION_NODE) {
+                const text = c.nodeValue || "";
+                if (text.trim() !== "") hasText = true;
+                const last = mixed[mixed.length - 1];
+                if (last && 'text' in last) last.text += text;
+                else mixed.push({ text });
+            }
+        });
+
+        const attributes: XMLAttribute[] = [];
+        const namespaces: Record<string, string> = {};
+        Array.from(el.attributes).forEach(a => {
+            if (a.namespaceURI === XMLNS_URI) namespaces[a.prefix ? a.localName : ""] = a.value;
+            else attributes.push({ name: a.name, localName: a.localName, namespaceURI: a.namespaceURI || undefined, value: a.value });
+        });
+
+        const node: XMLNode = {
+            name,
+            content: children.length === 0 ? el.textContent?.trim() : undefined,
+            children,
+            qName: el.tagName,
+            prefix: el.prefix || undefined,
+            namespaceURI: el.namespaceURI || undefined,
+            position
+        };
+        if (attributes.length > 0) node.attributes = attributes;
+        if (Object.keys(namespaces).length > 0) node.namespaces = namespaces;
+        if (children.length > 0 && hasText) node.mixed = mixed.filter(p => !('text' in p) || p.text.trim() !== "");
+        return node;
+    };
+
+    return walk(doc.documentElement);
+};
+
+interface OpenElement {
+    qName: string;
+    prefix: string;
+    localName: string;
+    scope: Record<string, string>;
+    namespaces: Record<string, string>;
+    attributes: XMLAttribute[];
+    children: XMLNode[];
+    mixed: XMLMixedPart[];
+    text: string;
+    hasText: boolean;
+    position: SourcePosition;
+}
+
+const splitQName = (qName: string) => {
+    const idx = qName.indexOf(':');
+    return idx > 0 ? { prefix: qName.slice(0, idx), localName: qName.slice(idx + 1) } : { prefix: "", localName: qName };
+};
+
+const parseText = (content: string): XMLNode => {
+    const at = createLocator(content);
+    const fail = (message: string, offset: number): never => { throw new XMLParseError({ message, ...at(offset) }); };
+    const decode = (text: string, offset: number) => text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z_][\w.-]*);|&/g, (m, ref: string | undefined, pos: number) => {
+        if (ref === undefined) return fail("実体参照が ; で終わっていません", offset + pos);
+        if (ref.startsWith('#')) {
+            const code = ref[1] === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+            return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : fail(`不正な文字参照 ${m} があります`, offset + pos);
+        }
+        return PREDEFINED_ENTITIES[ref] ?? fail(`未定義の実体参照 ${m} があります`, offset + pos);
+    });
+    const newlines = (text: string) => text.replace(/\r\n?/g, "\n");
+    const nameAt = (from: number) => content.slice(from).match(/^[^\s/>=<"']+/)?.[0] || "";
+
+    const stack: OpenElement[] = [];
+    let root: XMLNode | undefined;
+    let i = content.charCodeAt(0) === 0xFEFF ? 1 : 0;
+
+    const appendText = (text: string, offset: number) => {
+        const top = stack[stack.length - 1];
+        if (!top) {
+            if (text.trim() !== "") fail("ルート要素の外に文字列があります", offset);
+            return;
+        }
+        if (text.trim() !== "") top.hasText = true;
+        top.text += text;
+        const last = top.mixed[top.mixed.length - 1];
+        if (last && 'text' in last) last.text += text;
+        else top.mixed.push({ text });
+    };
+
+    const skipTo = (terminator: string, from: number, message: string) => {
+        const end = content.indexOf(terminator, from);
+        if (end < 0) fail(message, i);
+        return end + terminator.length;
+    };
+
+    const closeElement = (el: OpenElement) => {
+        const node: XMLNode = {
+            name: el.localName,
+            content: el.children.length === 0 ? el.text.trim() : undefined,
+            children: el.children,
+            qName: el.qName,
+            prefix: el.prefix || undefined,
+            namespaceURI: el.scope[el.prefix] || undefined,
+            position: el.position
+        };
+        if (el.attributes.length > 0) node.attributes = el.attributes;
+        if (Object.keys(el.namespaces).length > 0) node.namespaces = el.namespaces;
+        if (el.children.length > 0 && el.hasText) node.mixed = el.mixed.filter(p => !('text' in p) || p.text.trim() !== "");
+        const parent = stack[stack.length - 1];
+        if (parent) {
+            parent.mixed.push({ child: parent.children.length });
+            parent.children.push(node);
+        } else {
+            root = node;
+        }
+    };
+
+    const openElement = (start: number) => {
+        const qName = nameAt(start + 1);
+        if (!qName) fail("要素名がありません", start);
+        let p = start + 1 + qName.length;
+        const rawAttrs: { name: string, value: string, offset: number }[] = [];
+        while (true) {
+            while (/\s/.test(content[p] || "")) p++;
+            if (p >= content.length) fail(`開始タグ <${qName}> が閉じられていません`, start);
+            if (content[p] === '>' || content.startsWith('/>', p)) break;
+            const name = nameAt(p);
+            if (!name) fail(`開始タグ <${qName}> の属性が正しくありません`, p);
+            const attrStart = p;
+            p += name.length;
+            while (/\s/.test(content[p] || "")) p++;
+            if (content[p] !== '=') fail(`属性 ${name} に値がありません`, attrStart);
+            p++;
+            while (/\s/.test(content[p] || "")) p++;
+            const quote = content[p];
+            if (quote !== '"' && quote !== "'") fail(`属性 ${name} の値が引用符で囲まれていません`, p);
+            const end = content.indexOf(quote, p + 1);
+            if (end < 0) fail(`属性 ${name} の値が閉じられていません`, p);
+            const raw = content.slice(p + 1, end);
+            if (raw.includes('<')) fail(`属性 ${name} の値に < は使えません`, p);
+            if (rawAttrs.some(a => a.name === name)) fail(`属性 ${name} が重複しています`, attrStart);
+            rawAttrs.push({ name, value: decode(raw.replace(/[\t\n\r]/g, " "), p + 1), offset: attrStart });
+            p = end + 1;
+        }
+        const selfClosing = content[p] === '/';
+        const parentScope = stack[stack.length - 1]?.scope || { xml: XML_URI };
+        const namespaces: Record<string, string> = {};
+        rawAttrs.forEach(a => {
+            if (a.name === "xmlns") namespaces[""] = a.value;
+            else if (a.name.startsWith("xmlns:")) namespaces[a.name.slice(6)] = a.value;
+        });
+        const scope = Object.keys(namespaces).length > 0 ? { ...parentScope, ...namespaces } : parentScope;
+        const resolve = (prefix: string, offset: number) => {
+            if (prefix && scope[prefix] === undefined) fail(`名前空間接頭辞 ${prefix} が宣言されていません`, offset);
+        };
+        const { prefix, localName } = splitQName(qName);
+        resolve(prefix, start);
+        const attributes: XMLAttribute[] = rawAttrs.filter(a => a.name !== "xmlns" && !a.name.startsWith("xmlns:")).map(a => {
+            const q = splitQName(a.name);
+            resolve(q.prefix, a.offset);
+            return { name: a.name, localName: q.localName, namespaceURI: q.prefix ? scope[q.prefix] : undefined, value: a.value };
+        });
+        if (!stack.length && root) fail("ルート要素が複数あります", start);
+        stack.push({ qName, prefix, localName, scope, namespaces, attributes, children: [], mixed: [], text: "", hasText: false, position: at(start) });
+        if (selfClosing) closeElement(stack.pop()!);
+        return p + (selfClosing ? 2 : 1);
+    };
+
+    while (i < content.length) {
+        const lt = content.indexOf('<', i);
+        if (lt < 0) { appendText(decode(newlines(content.slice(i)), i), i); break; }
+        if (lt > i) appendText(decode(newlines(content.slice(i, lt)), i), i);
+        i = lt;
+        if (content.startsWith('<!--', i)) {
+            i = skipTo('-->', i + 4, "コメントが閉じられていません");
+        } else if (content.startsWith('<![CDATA[', i)) {
+            if (!stack.length) fail("ルート要素の外に CDATA セクションがあります", i);
+            const end = skipTo(']]>', i + 9, "CDATA セクションが閉じられていません");
+            appendText(newlines(content.slice(i + 9, end - 3)), i);
+            i = end;
+        } else if (content.startsWith('<?', i)) {
+            i = skipTo('?>', i + 2, "処理命令が閉じられていません");
+        } else if (content.startsWith('<!', i)) {
+            let depth = 0;
+            let p = i + 2;
+            for (; p < content.length; p++) {
+                const c = content[p];
+                if (c === '[') depth++;
+                else if (c === ']') depth--;
+                else if (c === '>' && depth <= 0) break;
+            }
+            if (p >= content.length) fail("文書型宣言が閉じられていません", i);
+            i = p + 1;
+        } else if (content[i + 1] === '/') {
+            const qName = nameAt(i + 2);
+            const end = content.indexOf('>', i);
+            if (end < 0 || content.slice(i + 2 + qName.length, end).trim() !== "") fail(`終了タグ </${qName}> が正しくありません`, i);
+            const top = stack.pop();
+            if (!top) fail(`対応する開始タグの無い終了タグ </${qName}> があります`, i);
+            if (top!.qName !== qName) fail(`終了タグ </${qName}> が開始タグ <${top!.qName}> と一致しません`, i);
+            closeElement(top!);
+            i = end + 1;
+        } else {
+            i = openElement(i);
+        }
+    }
+    if (stack.length) fail(`要素 <${stack[stack.length - 1].qName}> が閉じられていません`, content.length);
+    if (!root) throw new XMLParseError({ message: "ルート要素がありません" });
+    return root;
+};
+
+export const parseXMLContent = (content: string): XMLNode =>
+    typeof DOMParser !== 'undefined' ? parseWithDOM(content) : parseText(content);
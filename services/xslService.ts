@@ -0,0 +1,52 @@
+import { StylesheetAsset } from "../types";
+
+// --- Official XSL Rendering ---
+// e-Gov の公文書ZIPにはXMLと同じ階層にXSLが同梱され、XML側の xml-stylesheet 処理命令で参照される。
+
+export const findStylesheetHref = (content: string): string | undefined => {
+    const pi = content.match(/<\?xml-stylesheet\b([^?]*)\?>/i);
+    if (!pi) return undefined;
+    const href = pi[1].match(/\bhref\s*=\s*["']([^"']+)["']/i);
+    return href ? href[1].trim() : undefined;
+};
+
+const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : "";
+
+const basename = (path: string) => path.split('/').pop() || path;
+
+// "../xsl/a.xsl" のような相対パスを ZIP 内のパスとして正規化する
+const resolvePath = (baseDir: string, href: string): string => {
+    const parts = (baseDir ? `${baseDir}/${href}` : href).split('/');
+    const out: string[] = [];
+    parts.forEach(p => {
+        if (p === '..') out.pop();
+        else if (p !== '.' && p !== '') out.push(p);
+    });
+    return out.join('/');
+};
+
+// 処理命令の参照先 → 同名ファイル → 同じフォルダに1つだけあるXSL の順で対応付ける
+export const matchStylesheet = (xmlPath: string, href: string | undefined, stylesheets: StylesheetAsset[]): StylesheetAsset | undefined => {
+    if (stylesheets.length === 0) return undefined;
+    if (href) {
+        const target = resolvePath(dirname(xmlPath), decodeURIComponent(href));
+        const exact = stylesheets.find(s => s.fullPath === target);
+        if (exact) return exact;
+        const byName = stylesheets.filter(s => basename(s.fullPath).toLowerCase() === basename(target).toLowerCase());
+        if (byName.length > 0) return byName.find(s => dirname(s.fullPath) === dirname(xmlPath)) || byName[0];
+    }
+    const sameDir = stylesheets.filter(s => dirname(s.fullPath) === dirname(xmlPath));
+    return sameDir.length === 1 ? sameDir[0] : undefined;
+};
+
+export const transformWithStylesheet = (xml: string, xsl: string): string => {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(xml, "text/xml");
+    const xslDoc = parser.parseFromString(xsl, "text/xml");
+    if (xslDoc.getElementsByTagName("parsererror").length > 0) throw new Error("XSLファイルを解析できませんでした");
+    const processor = new XSLTProcessor();
+    processor.importStylesheet(xslDoc);
+    const result = processor.transformToDocument(xmlDoc);
+    if (!result || !result.documentElement) throw new Error("XSLT変換結果が空です");
+    return new XMLSerializer().serializeToString(result);
+};
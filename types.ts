@@ -1 +1,236 @@
-// Consolidated into index.tsx
\ No newline at end of file
+// --- Types ---
+export interface XMLNode {
+    name: string;
+    content?: string;
+    children: XMLNode[];
+    qName?: string;
+    prefix?: string;
+    namespaceURI?: string;
+    namespaces?: Record<string, string>;
+    attributes?: XMLAttribute[];
+    mixed?: XMLMixedPart[];
+    position?: SourcePosition;
+}
+
+export interface XMLAttribute {
+    name: string;
+    localName: string;
+    namespaceURI?: string;
+    value: string;
+}
+
+// 混在内容（テキストと子要素が交互に現れる要素）の並び順。child は children の添字。
+export type XMLMixedPart = { text: string } | { child: number };
+
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+export interface XMLParseIssue {
+    message: string;
+    line?: number;
+    column?: number;
+}
+
+export type DocTypeId = keyof DocDataMap;
+
+export interface UniversalData {
+    docType: DocTypeId;
+    title: string;
+    creationDateJP?: string;
+    docNo?: string;
+    idInfoPrefix?: string;
+    idInfoSuffix?: string;
+    officeRegistry?: { pref: string, dist: string, code: string };
+    officeNo?: string;
+    counts?: Record<string, string>;
+    zipCodePrefix?: string;
+    zipCodeSuffix?: string;
+    address?: string;
+    companyName?: string;
+    ownerName?: string;
+    phone?: { area: string, city: string, num: string };
+    submissionDateJP?: string;
+    attachmentStatus?: { mail: boolean, elec: boolean, none: boolean };
+    paperNoticeDesired?: boolean;
+    proxyName?: string;
+    remarks?: string;
+    arrivalNumber?: string;
+    noticeBox?: string;
+    rows: any[];
+    officeRegistryNotice?: string;
+    officeNoNotice?: string;
+    pensionOffice?: string;
+    noticeMgmtNo?: string;
+    noticeMgmtBranch?: string;
+    senderAff?: string;
+    senderName?: string;
+    mainText?: string[];
+    appendices?: { title: string, text?: string }[];
+    recipient?: { aff?: string, name?: string, honorific?: string };
+}
+
+// 書類の種類ごとに抽出で必ず埋まる項目
+export interface SummaryData extends UniversalData {
+    docType: 'SUMMARY';
+    idInfoPrefix: string;
+    idInfoSuffix: string;
+    creationDateJP: string;
+    officeRegistry: { pref: string, dist: string, code: string };
+    officeNo: string;
+    counts: Record<string, string>;
+    submissionDateJP: string;
+}
+
+export interface NoticeData extends UniversalData {
+    docType: 'NOTICE' | 'BONUS_NOTICE';
+    arrivalNumber: string;
+    creationDateJP: string;
+    officeRegistryNotice: string;
+    pensionOffice: string;
+}
+
+export interface AnnouncementData extends UniversalData {
+    docType: 'ANNOUNCEMENT';
+    docNo: string;
+    mainText: string[];
+    appendices: { title: string, text?: string }[];
+    recipient: { aff?: string, name?: string, honorific?: string };
+}
+
+export interface FormattedDate {
+    ad: string;
+    jp: string;
+    fullJp: string;
+}
+
+// 資格取得・喪失確認通知書の被保険者1人分。標準報酬月額は千円単位
+export interface QualificationPerson {
+    insuredNo: string;
+    name: string;
+    kanaName: string;
+    birthDate: FormattedDate;
+    pensionNo: string;
+    kind: string;
+    acquiredDate: FormattedDate;
+    lostDate: FormattedDate;
+    lossReason: string;
+    stdHealth: number;
+    stdPension: number;
+}
+
+export interface QualificationNoticeData extends UniversalData {
+    docType: 'ACQUISITION_NOTICE' | 'LOSS_NOTICE';
+    arrivalNumber: string;
+    creationDateJP: string;
+    officeRegistryNotice: string;
+    pensionOffice: string;
+    persons: QualificationPerson[];
+}
+
+// 被扶養者（異動）決定通知書の被扶養者1人分
+export interface DependentEntry {
+    insuredNo: string;
+    insuredName: string;
+    name: string;
+    kanaName: string;
+    relationship: string;
+    birthDate: FormattedDate;
+    change: string;
+    changeDate: FormattedDate;
+    reason: string;
+    pensionNo: string;
+}
+
+export interface DependentNoticeData extends UniversalData {
+    docType: 'DEPENDENT_NOTICE';
+    arrivalNumber: string;
+    creationDateJP: string;
+    officeRegistryNotice: string;
+    pensionOffice: string;
+    dependents: DependentEntry[];
+}
+
+// ハローワークの雇用保険関係通知書の被保険者1人分
+export interface EmploymentPerson {
+    insuredNo: string;
+    name: string;
+    kanaName: string;
+    birthDate: FormattedDate;
+    acquiredDate: FormattedDate;
+    lostDate: FormattedDate;
+    lossReason: string;
+    separationReason: string;
+}
+
+export interface EmploymentNoticeData extends UniversalData {
+    docType: 'EI_ACQUISITION_NOTICE' | 'EI_LOSS_NOTICE' | 'EI_SEPARATION_NOTICE';
+    officeNo: string;
+    creationDateJP: string;
+    issuerOffice: string;
+    persons: EmploymentPerson[];
+}
+
+// CSV形式届書の様式ごとのレコード。columns は様式のレコードレイアウトの項目名
+export interface CsvFormGroup {
+    code: string;
+    label: string;
+    countKey?: string;
+    columns: string[];
+    records: string[][];
+}
+
+export interface CsvSubmissionData extends UniversalData {
+    docType: 'CSV_SUBMISSION';
+    header: { label: string, value: string }[];
+    office: { label: string, value: string }[];
+    forms: CsvFormGroup[];
+    recordCount: number;
+}
+
+export interface DocDataMap {
+    SUMMARY: SummaryData;
+    NOTICE: NoticeData;
+    BONUS_NOTICE: NoticeData;
+    ANNOUNCEMENT: AnnouncementData;
+    ACQUISITION_NOTICE: QualificationNoticeData;
+    LOSS_NOTICE: QualificationNoticeData;
+    DEPENDENT_NOTICE: DependentNoticeData;
+    EI_ACQUISITION_NOTICE: EmploymentNoticeData;
+    EI_LOSS_NOTICE: EmploymentNoticeData;
+    EI_SEPARATION_NOTICE: EmploymentNoticeData;
+    CSV_SUBMISSION: CsvSubmissionData;
+}
+
+export type TextEncodingName = 'utf-8' | 'shift_jis' | 'euc-jp' | 'utf-16le' | 'utf-16be';
+export type EncodingSource = 'bom' | 'declaration' | 'heuristic' | 'manual';
+
+export interface AppFile {
+    name: string;
+    fullPath: string;
+    content: string;
+    parsed?: XMLNode;
+    analysis?: UniversalData;
+    raw?: Uint8Array;
+    rawName?: Uint8Array;
+    encoding?: TextEncodingName;
+    encodingSource?: EncodingSource;
+    nameEncoding?: TextEncodingName;
+    stylesheetHref?: string;
+    parseError?: XMLParseIssue;
+}
+
+export interface StylesheetAsset {
+    name: string;
+    fullPath: string;
+    content: string;
+}
+
+export interface CaseEntry {
+    folderName: string;
+    files: AppFile[];
+    stylesheets: StylesheetAsset[];
+    isOpen: boolean;
+    libraryId?: string;
+}
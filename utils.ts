@@ -0,0 +1,120 @@
+import { XMLNode } from "./types";
+
+// --- Utilities ---
+export const normalize = (val: any): string => {
+    if (val === undefined || val === null) return "";
+    return String(val).replace(/[０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0)).trim();
+};
+
+export const escapeHTML = (val: any): string => {
+    if (val === undefined || val === null) return "";
+    return String(val)
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+};
+
+// RFC 4180: カンマ・ダブルクォート・改行を含むフィールドだけを " で囲み、内部の " は "" にする。改行は CRLF
+const csvField = (v: string | number): string => {
+    const s = String(v ?? "");
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCSV = (rows: (string | number)[][]): string =>
+    rows.map(r => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+
+export const parseStandardAmount = (val: string): number => {
+    if (!val) return 0;
+    const cleaned = normalize(val).replace(/[^0-9]/g, "");
+    return parseInt(cleaned, 10) || 0;
+};
+
+export const ERA_MAP: Record<string, string> = { "1": "明治", "3": "大正", "5": "昭和", "7": "平成", "9": "令和", "S": "昭和", "H": "平成", "R": "令和" };
+export const ERA_OFFSETS: Record<string, number> = { "1": 1867, "3": 1911, "5": 1925, "7": 1988, "9": 2018, "S": 1925, "H": 1988, "R": 2018 };
+
+export const getFormattedDates = (g: any, y: any, m: any, d: any = "1") => {
+    const gn = normalize(g);
+    const yn = parseInt(normalize(y).replace(/[^0-9]/g, ""), 10);
+    const mn = parseInt(normalize(m).replace(/[^0-9]/g, ""), 10);
+    const dn = parseInt(normalize(d).replace(/[^0-9]/g, ""), 10);
+    if (isNaN(yn)) return { ad: "", jp: "", fullJp: "" };
+    const offset = ERA_OFFSETS[gn] || 0;
+    const yearAD = yn + offset;
+    const eraName = ERA_MAP[gn] || "令和";
+    const eraChar = gn.length === 1 && !isNaN(parseInt(gn)) ? (gn === "9" ? "R" : gn === "7" ? "H" : gn === "5" ? "S" : gn) : gn;
+    
+    return {
+        ad: `${yearAD}/${String(mn).padStart(2, '0')}/${String(dn).padStart(2, '0')}`,
+        jp: `${eraChar}${String(yn).padStart(2, '0')}.${String(mn).padStart(2, '0')}.${String(dn).padStart(2, '0')}`,
+        fullJp: `${eraName} ${yn} 年 ${mn} 月 ${dn} 日`
+    };
+};
+
+export const getRowDate = (row: Record<string, any>, prefixes: string[], defaultDay: string = "1") => {
+    const tryPrefix = (prefix: string) => {
+        const g = row[`${prefix}_元号`];
+        const y = row[`${prefix}_年`];
+        const m = row[`${prefix}_月`];
+        const d = row[`${prefix}_日`];
+        if (g || y || m || d) return { g, y, m, d };
+        const g2 = row[`${prefix}元号`];
+        const y2 = row[`${prefix}年`];
+        const m2 = row[`${prefix}月`];
+        const d2 = row[`${prefix}日`];
+        if (g2 || y2 || m2 || d2) return { g: g2, y: y2, m: m2, d: d2 };
+        return null;
+    };
+
+    for (const p of prefixes) {
+        const parts = tryPrefix(p);
+        if (parts) {
+            return getFormattedDates(parts.g, parts.y, parts.m, parts.d || defaultDay);
+        }
+    }
+
+    for (const p of prefixes) {
+        const keys = Object.keys(row);
+        const yKey = keys.find(k => k.includes(p) && k.endsWith("_年"));
+        const mKey = keys.find(k => k.includes(p) && k.endsWith("_月"));
+        const gKey = keys.find(k => k.includes(p) && k.endsWith("_元号"));
+        const dKey = keys.find(k => k.includes(p) && k.endsWith("_日"));
+        if (yKey || mKey || gKey || dKey) {
+            return getFormattedDates(row[gKey || ""], row[yKey || ""], row[mKey || ""], row[dKey || ""] || defaultDay);
+        }
+    }
+
+    return { ad: "", jp: "", fullJp: "" };
+};
+
+// 混在内容を含めた要素内の全テキストを文書順に連結する
+export const nodeText = (node: XMLNode): string => {
+    if (node.content !== undefined) return node.content;
+    if (node.mixed) return node.mixed.map(p => 'text' in p ? p.text : nodeText(node.children[p.child])).join('').replace(/\s+/g, ' ').trim();
+    return node.children.map(nodeText).join('');
+};
+
+// 子要素ごとのパス要素。同名の兄弟がある場合のみ [n] を付ける（flattenXML と構造ビューで共通）
+export const childPathSegments = (node: XMLNode): string[] => {
+    const totals: Record<string, number> = {};
+    node.children.forEach(c => { totals[c.name] = (totals[c.name] || 0) + 1; });
+    const seen: Record<string, number> = {};
+    return node.children.map(child => {
+        const idx = (seen[child.name] || 0) + 1;
+        seen[child.name] = idx;
+        return (totals[child.name] || 0) > 1 ? `${child.name}[${idx}]` : child.name;
+    });
+};
+
+export const flattenXML = (root: XMLNode) => {
+    const rows: { path: string; value: string }[] = [];
+    const walk = (node: XMLNode, path: string) => {
+        if (node.content !== undefined) rows.push({ path, value: node.content });
+        else if (node.mixed) rows.push({ path, value: nodeText(node) });
+        node.attributes?.forEach(a => rows.push({ path: `${path}/@${a.name}`, value: a.value }));
+        const segs = childPathSegments(node);
+        node.children.forEach((child, i) => walk(child, path ? `${path}/${segs[i]}` : segs[i]));
+    };
+    walk(root, root.name);
+    return rows;
+};